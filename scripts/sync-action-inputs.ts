@@ -0,0 +1,27 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { renderActionInputs } from "../src/ai/providers";
+
+/**
+ * Regenerates the provider inputs of action.yml from the provider registry
+ */
+const BEGIN_MARKER = "  # BEGIN provider inputs";
+const END_MARKER = "  # END provider inputs";
+
+const actionPath = path.join(import.meta.dir, "..", "action.yml");
+const actionYml = fs.readFileSync(actionPath, "utf-8");
+
+const begin = actionYml.indexOf(BEGIN_MARKER);
+const end = actionYml.indexOf(END_MARKER);
+if (begin === -1 || end === -1 || end < begin) {
+	throw new Error("Provider input markers not found in action.yml");
+}
+
+const beginLineEnd = actionYml.indexOf("\n", begin) + 1;
+const updated =
+	actionYml.slice(0, beginLineEnd) +
+	renderActionInputs() +
+	actionYml.slice(end);
+
+fs.writeFileSync(actionPath, updated);
+console.log("action.yml provider inputs are up to date");
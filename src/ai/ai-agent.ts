@@ -1,34 +1,442 @@
 import * as core from "@actions/core";
+import { type LanguageModelV1, generateObject, generateText } from "ai";
 import { z } from "zod";
+import { PublishLedger } from "../review/publish-ledger";
+import { ReviewProgress } from "../review/review-progress";
+import {
+	type DiscardedFinding,
+	type FindingVerdict,
+	FindingVerdictSchema,
+	buildVerificationPrompt,
+	formatDiscardedFindings,
+} from "../review/verifier";
 import {
 	type AddReviewCommentArgs,
 	type ChangedFile,
+	FINDING_CATEGORIES,
 	type FileCommentator,
 	type FileContentGetter,
+	type FindingCategory,
+	type FindingDetails,
 	type GetFileContentArgs,
 	type MarkAsDoneArgs,
+	PUBLISH_OUTCOMES,
+	type PublishOutcome,
 	REVIEW_SIDES,
+	type ReviewFinding,
 	type ReviewSide,
+	SEVERITIES,
+	SKIP_REASONS,
+	type SkipReason,
 	TOOL_NAMES,
 } from "../types/constants";
+import {
+	formatDiffLines,
+	getHunksForLines,
+	parseUnifiedDiff,
+	snapToDiff,
+} from "../utils/diff";
+import {
+	DEFAULT_RETRY_POLICY,
+	type RetryPolicy,
+	withRetry,
+} from "../utils/retry";
+import {
+	estimateTokens,
+	fitContextToBudget,
+	getInputTokenBudget,
+	truncateToTokens,
+} from "../utils/tokens";
+import { type CallUsage, UsageTracker } from "../utils/usage";
+
+// Result of the add_review_comment tool for a published comment
+const COMMENT_PUBLISHED_RESULT =
+	"Success! The review comment has been published.";
+
+/**
+ * Optional settings shared by all AI agents
+ */
+export interface AIAgentOptions {
+	retryPolicy?: RetryPolicy;
+	/** Shared across agents so that fallback reviews count towards the same caps */
+	usageTracker?: UsageTracker;
+	/** Ask the model to confirm every finding before it is published */
+	verifyFindings?: boolean;
+	/** Shared across agents so that retries and fallback reviews never re-post a finding */
+	publishLedger?: PublishLedger;
+	/** Shared across agents to report reviewed and skipped files of the whole run */
+	reviewProgress?: ReviewProgress;
+}
+
+/**
+ * Result of publishing a finding
+ */
+export interface PublishResult {
+	outcome: PublishOutcome;
+	reason: string;
+}
 
 /**
  * Base AIAgent class that provides common functionality for all AI providers
  */
 export abstract class AIAgent {
+	protected usageTracker: UsageTracker;
+	protected publishLedger: PublishLedger;
+	protected reviewProgress: ReviewProgress;
+	private changedFiles: ChangedFile[] = [];
+	private discardedFindings: DiscardedFinding[] = [];
+	// Content of the files read during the current review
+	private fileContents = new Map<string, string>();
+
 	/**
 	 * Creates a new AIAgent instance
 	 * @param apiKey - API key for the AI provider
 	 * @param fileContentGetter - Function to get file content
 	 * @param fileCommentator - Function to add review comments
 	 * @param model - AI model to use
+	 * @param options - Optional agent settings
 	 */
 	constructor(
 		protected apiKey: string,
 		protected fileContentGetter: FileContentGetter,
 		protected fileCommentator: FileCommentator,
 		protected model: string,
-	) {}
+		protected options: AIAgentOptions = {},
+	) {
+		this.usageTracker = options.usageTracker ?? new UsageTracker();
+		this.publishLedger = options.publishLedger ?? new PublishLedger();
+		this.reviewProgress = options.reviewProgress ?? new ReviewProgress();
+	}
+
+	/**
+	 * Get the retry policy for API calls made by the agent
+	 */
+	protected get retryPolicy(): RetryPolicy {
+		return this.options.retryPolicy ?? DEFAULT_RETRY_POLICY;
+	}
+
+	/**
+	 * Create the language model used for the review
+	 * @returns Language model instance
+	 */
+	protected abstract createModel(): LanguageModelV1;
+
+	/**
+	 * Get the display name of the provider used in logs and errors
+	 */
+	protected abstract getProviderName(): string;
+
+	/**
+	 * Review the changed files and add the findings rejected by the verifier
+	 * to the summary
+	 * @param changedFiles - List of changed files
+	 * @returns Review summary
+	 */
+	async review(changedFiles: ChangedFile[]): Promise<string> {
+		this.changedFiles = changedFiles;
+		this.discardedFindings = [];
+		this.fileContents.clear();
+
+		const summary = await this.doReview(changedFiles);
+		const discardedSection = formatDiscardedFindings(this.discardedFindings);
+		return discardedSection ? `${summary}\n\n${discardedSection}` : summary;
+	}
+
+	/**
+	 * Ask the model to confirm or reject a finding using the relevant code and
+	 * diff hunk. Findings are confirmed if the verification itself fails, or
+	 * without a verification once a usage cap is reached.
+	 * @param finding - Finding to verify
+	 * @returns Verdict of the verifier
+	 */
+	protected async verifyFinding(
+		finding: ReviewFinding,
+	): Promise<FindingVerdict> {
+		const limitReached = this.usageTracker.getLimitReached();
+		if (limitReached) {
+			core.info(
+				`Publishing finding on ${finding.filePath} unverified: ${limitReached}`,
+			);
+			return { confirmed: true, reason: "Verification skipped" };
+		}
+
+		try {
+			const fileContent = await this.readFile(finding.filePath);
+			const patch = this.changedFiles.find(
+				(file) => file.filename === finding.filePath,
+			)?.patch;
+
+			const { object: verdict, usage } = await withRetry(
+				() =>
+					generateObject({
+						model: this.createModel(),
+						schema: FindingVerdictSchema,
+						prompt: buildVerificationPrompt(
+							finding,
+							fileContent,
+							getHunksForLines(
+								patch,
+								finding.side,
+								finding.startLineNumber,
+								finding.endLineNumber,
+							),
+						),
+						temperature: 0,
+						maxRetries: 0, // Retries are handled by the shared retry policy
+					}),
+				this.retryPolicy,
+				`Verifying finding on ${finding.filePath}`,
+			);
+			this.recordUsage(usage);
+			return verdict;
+		} catch (error) {
+			core.warning(
+				`Failed to verify finding on ${finding.filePath}, publishing it unverified: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			return { confirmed: true, reason: "Verification failed" };
+		}
+	}
+
+	/**
+	 * Place a finding on the lines of its file's diff before anything is sent
+	 * to the code host, which rejects comments outside the diff. Lines of the
+	 * finding outside the diff hunk are left out.
+	 * @param finding - Finding to place
+	 * @returns The finding on lines of the diff
+	 * @throws Error if the file or none of the lines are part of the diff, or
+	 * if a suggested change would apply to other lines than the model chose
+	 */
+	private placeInDiff(finding: ReviewFinding): ReviewFinding {
+		const file = this.changedFiles.find(
+			(changedFile) => changedFile.filename === finding.filePath,
+		);
+		if (!file) {
+			throw new Error(`${finding.filePath} is not one of the changed files`);
+		}
+		// Files without a patch, such as binary files, cannot be checked
+		if (!file.patch) return finding;
+
+		const { side, startLineNumber, endLineNumber } = finding;
+		const hunks = parseUnifiedDiff(file.patch);
+		const range = snapToDiff(hunks, side, startLineNumber, endLineNumber);
+		if (!range) {
+			throw new Error(
+				`Lines ${startLineNumber}-${endLineNumber} on the ${side} side are not part of the diff of ${finding.filePath}. Lines on the ${side} side of the diff: ${formatDiffLines(hunks, side) || "none"}`,
+			);
+		}
+		if (
+			range.startLine === startLineNumber &&
+			range.endLine === endLineNumber
+		) {
+			return finding;
+		}
+		if (finding.comment.includes("```suggestion")) {
+			throw new Error(
+				`Lines ${startLineNumber}-${endLineNumber} of the suggested change are not all part of the diff of ${finding.filePath}. Suggest a change of lines ${range.startLine}-${range.endLine} instead.`,
+			);
+		}
+
+		core.info(
+			`Moving finding on ${finding.filePath}:${startLineNumber}-${endLineNumber} to lines ${range.startLine}-${range.endLine} of the diff`,
+		);
+		return {
+			...finding,
+			startLineNumber: range.startLine,
+			endLineNumber: range.endLine,
+		};
+	}
+
+	/**
+	 * Verify a finding (if enabled) and publish it with the file commentator,
+	 * unless it was already published in this run. The finding is first
+	 * placed on the lines of the diff.
+	 * @param reviewFinding - Finding to publish
+	 * @returns Whether the finding was published, skipped as a duplicate or
+	 * rejected by the verifier
+	 * @throws Error if the finding is not on lines of the diff
+	 */
+	protected async publishFinding(
+		reviewFinding: ReviewFinding,
+	): Promise<PublishResult> {
+		const finding = this.placeInDiff(reviewFinding);
+		const location = `${finding.filePath}:${finding.startLineNumber}-${finding.endLineNumber}`;
+		if (this.publishLedger.has(finding)) {
+			core.info(`Skipping finding on ${location}: already published`);
+			return {
+				outcome: PUBLISH_OUTCOMES.DUPLICATE,
+				reason: "The finding was already published",
+			};
+		}
+
+		if (this.options.verifyFindings) {
+			const verdict = await this.verifyFinding(finding);
+			if (!verdict.confirmed) {
+				core.info(`Discarded finding on ${location}: ${verdict.reason}`);
+				this.discardedFindings.push({ finding, reason: verdict.reason });
+				return { outcome: PUBLISH_OUTCOMES.REJECTED, reason: verdict.reason };
+			}
+		}
+
+		const {
+			comment,
+			filePath,
+			side,
+			startLineNumber,
+			endLineNumber,
+			...details
+		} = finding;
+		await this.fileCommentator(
+			comment,
+			filePath,
+			side,
+			startLineNumber,
+			endLineNumber,
+			details,
+		);
+		this.publishLedger.record(finding);
+		return { outcome: PUBLISH_OUTCOMES.PUBLISHED, reason: "Published" };
+	}
+
+	/**
+	 * Count the review comments published by the tool calls of a step.
+	 * Comments rejected by the verifier or already published are not counted.
+	 * @param toolResults - Tool results of the step
+	 * @returns Number of published comments
+	 */
+	protected countPublishedComments(
+		toolResults: Array<{ toolName: string; result: unknown }>,
+	): number {
+		return toolResults.filter(
+			(toolResult) =>
+				toolResult.toolName === TOOL_NAMES.ADD_REVIEW_COMMENT &&
+				toolResult.result === COMMENT_PUBLISHED_RESULT,
+		).length;
+	}
+
+	/**
+	 * Record the token usage of an AI call and check the usage caps
+	 * @param usage - Token usage returned by the AI SDK
+	 * @returns Description of the reached cap, or null if the review can continue
+	 */
+	protected recordUsage(usage: CallUsage): string | null {
+		this.usageTracker.record(this.model, usage);
+		const limitReached = this.usageTracker.getLimitReached();
+		if (limitReached) {
+			core.warning(`Stopping the review: ${limitReached}`);
+		}
+		return limitReached;
+	}
+
+	/**
+	 * Format the note added to the summary of a review stopped by a usage cap
+	 * @param limitReached - Description of the reached cap
+	 * @returns Markdown note
+	 */
+	protected formatLimitReachedNote(limitReached: string): string {
+		return `> **Note**: The review was stopped early because the ${limitReached}. The results are partial.`;
+	}
+
+	/**
+	 * Record the files that were not reviewed when a review stops early
+	 * @param files - Files of the review
+	 * @param reviewedFiles - Names of the files that were reviewed
+	 * @param reason - Reason the review stopped
+	 * @param detail - Description of the reached limit
+	 */
+	protected skipRemainingFiles(
+		files: Pick<ChangedFile, "filename">[],
+		reviewedFiles: Set<string>,
+		reason: SkipReason,
+		detail: string,
+	): void {
+		for (const file of files) {
+			if (!reviewedFiles.has(file.filename)) {
+				this.reviewProgress.skipFile(file.filename, reason, detail);
+			}
+		}
+	}
+
+	/**
+	 * Read a file once per review, later reads use the cached content
+	 * @param filePath - Path to the file
+	 * @returns File content, rejects if the content is unavailable
+	 */
+	protected async readFile(filePath: string): Promise<string> {
+		const cached = this.fileContents.get(filePath);
+		if (cached !== undefined) {
+			return cached;
+		}
+
+		const content = await this.fileContentGetter(filePath);
+		this.fileContents.set(filePath, content);
+		return content;
+	}
+
+	/**
+	 * Read a file before its review, recording it as skipped if its content
+	 * is unavailable
+	 * @param filename - File to review
+	 * @returns File content, or undefined if the file must be skipped
+	 */
+	protected async readFileToReview(
+		filename: string,
+	): Promise<string | undefined> {
+		try {
+			const content = await this.readFile(filename);
+			core.info(
+				`Retrieved content for ${filename} (${content.length} characters)`,
+			);
+			return content;
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			core.warning(`Failed to fetch content for ${filename}: ${message}`);
+			this.reviewProgress.skipFile(
+				filename,
+				SKIP_REASONS.CONTENT_UNAVAILABLE,
+				message,
+			);
+			return undefined;
+		}
+	}
+
+	/**
+	 * Get the number of input tokens that can be sent to the model in one request
+	 */
+	protected get inputTokenBudget(): number {
+		return getInputTokenBudget(this.model);
+	}
+
+	/**
+	 * Describe changed files and their patches for a prompt. Patches that do
+	 * not fit the token budget are truncated or dropped; the model can still
+	 * read the files with the get_file_content tool.
+	 * @param changedFiles - Changed files to describe
+	 * @param maxTokens - Token budget for the description
+	 * @returns Description of the changed files
+	 */
+	protected formatChangedFiles(
+		changedFiles: ChangedFile[],
+		maxTokens: number,
+	): string {
+		return fitContextToBudget(
+			changedFiles.flatMap((file) => [
+				{
+					name: `${file.filename} header`,
+					content: `### ${file.filename} (${file.status}, +${file.additions}/-${file.deletions})`,
+					priority: 0,
+				},
+				{
+					name: `${file.filename} patch`,
+					content: file.patch
+						? `\`\`\`diff\n${file.patch}\n\`\`\``
+						: "(no patch available)",
+					priority: 1,
+				},
+			]),
+			maxTokens,
+			this.model,
+		);
+	}
 
 	/**
 	 * Get the system prompt for the AI model
@@ -55,7 +463,7 @@ IMPORTANT: You MUST use the provided tools to complete your review. The tools av
    Example: get_file_content("src/index.ts", 1, 100) to get lines 1-100 of src/index.ts
 
 2. add_review_comment - Use this tool to add a specific, actionable comment to the code.
-   Example: add_review_comment("src/index.ts", 25, 30, "This function has a potential null reference error", "RIGHT")
+   Example: add_review_comment("src/index.ts", 25, 30, "This function has a potential null reference error", "RIGHT", "high")
 
 3. mark_as_done - Call this tool when you have completed your review to provide a summary.
    Example: mark_as_done("Found 3 potential issues including a security vulnerability in the authentication module")
@@ -87,7 +495,7 @@ Be concise but thorough in your review.
 	}
 
 	/**
-	 * Get file content without caching
+	 * Get file content for the get_file_content tool
 	 * @param pathToFile - Path to the file
 	 * @param startLineNumber - Start line number
 	 * @param endLineNumber - End line number
@@ -102,17 +510,27 @@ Be concise but thorough in your review.
 			core.info(
 				`Getting content for file: ${pathToFile} (lines ${startLineNumber}-${endLineNumber})`,
 			);
-			const content = await this.fileContentGetter(pathToFile);
+			const content = await this.readFile(pathToFile);
 
 			if (content) {
+				let result = content;
 				// If we have content and need to extract specific lines
 				if (startLineNumber > 1 || endLineNumber < Number.MAX_SAFE_INTEGER) {
 					const lines = content.split("\n");
 					const startIndex = Math.max(0, startLineNumber - 1);
 					const endIndex = Math.min(lines.length, endLineNumber);
-					return lines.slice(startIndex, endIndex).join("\n");
+					result = lines.slice(startIndex, endIndex).join("\n");
 				}
-				return content;
+
+				// Keep a single tool result within a quarter of the context window
+				const maxTokens = Math.floor(this.inputTokenBudget / 4);
+				if (estimateTokens(result, this.model) > maxTokens) {
+					core.info(
+						`Content of ${pathToFile} exceeds ${maxTokens} tokens, truncating it`,
+					);
+					return `${truncateToTokens(result, maxTokens, this.model)}\nRequest a narrower range with start_line_number and end_line_number to read the rest of the file.`;
+				}
+				return result;
 			}
 
 			return `[Unable to retrieve content for ${pathToFile}]`;
@@ -153,6 +571,7 @@ Be concise but thorough in your review.
 	 * @param endLineNumber - End line number
 	 * @param foundErrorDescription - Error description
 	 * @param side - Side of the diff (LEFT or RIGHT)
+	 * @param details - Severity and category of the issue
 	 * @returns Success or error message
 	 */
 	protected async addReviewComment(
@@ -161,6 +580,7 @@ Be concise but thorough in your review.
 		endLineNumber: number,
 		foundErrorDescription: string,
 		side: ReviewSide = REVIEW_SIDES.RIGHT,
+		details: FindingDetails = {},
 	): Promise<string> {
 		try {
 			const validationError = this.validateLineNumbers(
@@ -171,14 +591,21 @@ Be concise but thorough in your review.
 				throw new Error(validationError);
 			}
 
-			await this.fileCommentator(
-				foundErrorDescription,
-				fileName,
+			const result = await this.publishFinding({
+				comment: foundErrorDescription,
+				filePath: fileName,
 				side,
 				startLineNumber,
 				endLineNumber,
-			);
-			return "Success! The review comment has been published.";
+				...details,
+			});
+			if (result.outcome === PUBLISH_OUTCOMES.REJECTED) {
+				return `The review comment was not published because verification rejected it: ${result.reason}`;
+			}
+			if (result.outcome === PUBLISH_OUTCOMES.DUPLICATE) {
+				return "This review comment has already been published.";
+			}
+			return COMMENT_PUBLISHED_RESULT;
 		} catch (error) {
 			return `Error! Please ensure that the lines you specify for the comment are part of the DIFF! Error message: ${error instanceof Error ? error.message : String(error)}`;
 		}
@@ -252,6 +679,21 @@ Be concise but thorough in your review.
 						.describe(
 							"In a split diff view, the side of the diff that the pull request's changes appear on. Can be LEFT or RIGHT. Use LEFT only for deletions. Use RIGHT for additions/changes! For a multi-line comment, side represents whether the last line of the comment range is a deletion or addition.",
 						),
+					severity: z
+						.enum([SEVERITIES.LOW, SEVERITIES.MEDIUM, SEVERITIES.HIGH])
+						.default(SEVERITIES.MEDIUM)
+						.describe(
+							"Severity of the issue: high for bugs and security issues that must be fixed before merging, medium for likely problems, low for minor issues such as typos",
+						),
+					category: z
+						.enum(
+							Object.values(FINDING_CATEGORIES) as [
+								FindingCategory,
+								...FindingCategory[],
+							],
+						)
+						.optional()
+						.describe("Category of the issue"),
 				}),
 				execute: async (args: AddReviewCommentArgs) => {
 					return await this.addReviewComment(
@@ -260,6 +702,7 @@ Be concise but thorough in your review.
 						args.end_line_number,
 						args.found_error_description,
 						args.side,
+						{ severity: args.severity, category: args.category },
 					);
 				},
 			},
@@ -282,10 +725,194 @@ Be concise but thorough in your review.
 	}
 
 	/**
-	 * Do a code review on the changed files
-	 * This method must be implemented by each provider
+	 * Do a code review on the changed files, reviewing each file in its own
+	 * tool loop. Providers with their own review flow override this method.
 	 * @param changedFiles - List of changed files
 	 * @returns Review summary
 	 */
-	abstract doReview(changedFiles: ChangedFile[]): Promise<string>;
+	async doReview(changedFiles: ChangedFile[]): Promise<string> {
+		const providerName = this.getProviderName();
+		core.info(`Starting code review with ${providerName} model: ${this.model}`);
+		core.info(`Processing ${changedFiles.length} changed files...`);
+
+		try {
+			const tools = this.getTools();
+			const model = this.createModel();
+
+			// Initialize variables to capture the review result
+			let reviewSummary = "";
+			// Files whose review finished, kept across retries so that a retry
+			// resumes with the next file
+			const completedFiles = new Set<string>();
+			const fileSummaries: Record<string, string> = {};
+			let commentsMade = 0;
+			let limitReached: string | null = null;
+
+			// Add protection against infinite loops
+			let totalSteps = 0;
+			const MAX_TOTAL_STEPS = 50; // Absolute maximum number of steps across all files
+			const maxStepsPerFile = 10; // Limit the number of steps for a single file
+
+			// Run the review, retrying according to the shared retry policy
+			await withRetry(
+				async (attempt) => {
+					core.info(
+						`Attempt ${attempt + 1}/${this.retryPolicy.maxRetries + 1} to generate review using ${providerName} model`,
+					);
+
+					// Review each file in its own conversation, so that tool results
+					// (e.g. file content) are fed back to the model and a failure only
+					// repeats the file it happened in
+					for (const [index, file] of changedFiles.entries()) {
+						if (completedFiles.has(file.filename)) {
+							core.info(
+								`Skipping ${file.filename}, it was reviewed before the retry`,
+							);
+							continue;
+						}
+
+						// Skip if we've reached the maximum total steps (global safety limit)
+						if (totalSteps >= MAX_TOTAL_STEPS) {
+							core.warning(
+								`Reached maximum total steps (${MAX_TOTAL_STEPS}). This is a safety limit to prevent infinite loops. Stopping review.`,
+							);
+							this.skipRemainingFiles(
+								changedFiles,
+								completedFiles,
+								SKIP_REASONS.STEP_LIMIT,
+								`Reached maximum total steps (${MAX_TOTAL_STEPS})`,
+							);
+							break;
+						}
+
+						// Stop once a usage cap is reached and keep the partial results
+						limitReached = this.usageTracker.getLimitReached();
+						if (limitReached) {
+							core.warning(`Skipping remaining files: ${limitReached}`);
+							this.skipRemainingFiles(
+								changedFiles,
+								completedFiles,
+								SKIP_REASONS.USAGE_LIMIT,
+								limitReached,
+							);
+							break;
+						}
+
+						core.info(`Processing file: ${file.filename}`);
+						// Skip files whose content is unavailable
+						if ((await this.readFileToReview(file.filename)) === undefined) {
+							continue;
+						}
+
+						const maxSteps = Math.min(
+							maxStepsPerFile,
+							MAX_TOTAL_STEPS - totalSteps,
+						);
+						let stepCount = 0;
+						const fileStartTime = Date.now();
+
+						// Prepare the prompt with context about the file under review
+						const prompt = `Here is a file changed in the pull request that needs review (file ${index + 1} of ${changedFiles.length}):\n\n${this.formatChangedFiles([file], Math.floor(this.inputTokenBudget / 2))}\n\nOther files changed in this pull request: ${changedFiles.map((other) => other.filename).join(", ")}\n\nFirst use the get_file_content tool to read ${file.filename}, then review it for issues and provide specific actionable comments where appropriate. You may read other files for context. When you're done reviewing this file, use the mark_as_done tool with a brief summary of this file.`;
+
+						// Generate the review using the AI model, feeding tool results
+						// back to the model until it stops calling tools
+						const abortController = new AbortController();
+						let text = "";
+						try {
+							({ text } = await generateText({
+								model,
+								system: this.getSystemPrompt(),
+								prompt,
+								tools,
+								maxSteps,
+								temperature: 0.2, // Lower temperature for more focused reviews
+								maxRetries: 0, // Retries are handled by the shared retry policy
+								abortSignal: abortController.signal,
+								onStepFinish: (step) => {
+									stepCount++;
+									totalSteps++;
+
+									const toolNames = step.toolCalls.map((call) => call.toolName);
+									core.info(
+										`File analysis step ${stepCount} for ${file.filename} (total steps: ${totalSteps}/${MAX_TOTAL_STEPS})${toolNames.length > 0 ? `: ${toolNames.join(", ")}` : ""}`,
+									);
+
+									// Count published comments and capture the file summary
+									commentsMade += this.countPublishedComments(step.toolResults);
+									for (const call of step.toolCalls) {
+										if (call.toolName === TOOL_NAMES.MARK_AS_DONE) {
+											fileSummaries[file.filename] = call.args.brief_summary;
+										}
+									}
+
+									// Stop requesting further steps once a usage cap is reached
+									limitReached = this.recordUsage(step.usage);
+									if (limitReached) {
+										abortController.abort();
+									}
+								},
+							}));
+						} catch (error) {
+							// Aborting on a usage cap ends the review with partial results
+							if (!limitReached) {
+								throw error;
+							}
+						}
+
+						completedFiles.add(file.filename);
+						this.reviewProgress.recordFile(
+							file.filename,
+							Date.now() - fileStartTime,
+							stepCount,
+							stepCount >= maxSteps,
+						);
+
+						// If no summary was captured from mark_as_done, use the generated text
+						if (!fileSummaries[file.filename] && text.trim()) {
+							fileSummaries[file.filename] = text.trim();
+						}
+
+						if (stepCount >= maxSteps) {
+							core.warning(
+								`Reached the step limit (${maxSteps}) while reviewing ${file.filename}`,
+							);
+						}
+
+						core.info(
+							`Completed analysis of ${file.filename} in ${stepCount} steps`,
+						);
+					}
+
+					// Combine the per-file summaries into the review summary
+					const summaries = Object.entries(fileSummaries);
+					if (summaries.length > 0) {
+						reviewSummary = `# Code Review Summary\n\nReviewed ${completedFiles.size} files with ${commentsMade} comments.\n\n## File Summaries\n\n${summaries.map(([filename, summary]) => `### ${filename}\n\n${summary}`).join("\n\n")}`;
+					}
+
+					core.info(
+						`Review completed: reviewed ${completedFiles.size} files with ${commentsMade} comments`,
+					);
+				},
+				this.retryPolicy,
+				`Review with ${providerName}`,
+			);
+
+			// Provide a fallback summary if none was generated
+			if (!reviewSummary) {
+				reviewSummary = `Code review completed. Reviewed ${completedFiles.size} files with ${commentsMade} comments.`;
+			}
+			if (limitReached) {
+				reviewSummary += `\n\n${this.formatLimitReachedNote(limitReached)}`;
+			}
+
+			return reviewSummary;
+		} catch (error) {
+			core.error(
+				`Error in ${providerName} code review process: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			throw new Error(
+				`Failed to complete code review with ${providerName}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
 }
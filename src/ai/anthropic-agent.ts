@@ -2,10 +2,32 @@ import * as fs from "node:fs";
 import * as path from "node:path";
 import * as core from "@actions/core";
 import { createAnthropic } from "@ai-sdk/anthropic";
-import { generateObject, generateText } from "ai";
+import {
+	APICallError,
+	type LanguageModelV1,
+	generateObject,
+	generateText,
+} from "ai";
 import { z } from "zod";
-import { type ChangedFile, TOOL_NAMES } from "../types/constants";
+import {
+	type ChangedFile,
+	FINDING_CATEGORIES,
+	type FindingCategory,
+	PUBLISH_OUTCOMES,
+	REVIEW_SIDES,
+	SEVERITIES,
+	SKIP_REASONS,
+	TOOL_NAMES,
+} from "../types/constants";
+import { formatWithLineNumbers, splitIntoDiffWindows } from "../utils/diff";
+import { withRetry } from "../utils/retry";
+import {
+	type ContextSection,
+	fitContextToBudget,
+	getInputTokenBudget,
+} from "../utils/tokens";
 import { AIAgent } from "./ai-agent";
+import { registerProvider } from "./provider-registry";
 
 /**
  * Schema for structured review results
@@ -19,41 +41,17 @@ const ReviewResultSchema = z.object({
 });
 
 /**
- * Schema for detailed code review
+ * Schema for the prose of the final summary. Issue counts, categories and
+ * severity come from the posted findings, not from the model.
  */
-const CodeReviewSchema = z.object({
+const SummaryOverviewSchema = z.object({
 	summary: z.string().min(1, "Summary is required"),
-	filesReviewed: z.array(
+	fileSummaries: z.array(
 		z.object({
 			filename: z.string(),
-			issues: z
-				.array(
-					z.object({
-						lineStart: z.number().int().positive(),
-						lineEnd: z.number().int().positive(),
-						description: z.string().min(1),
-						severity: z.enum(["low", "medium", "high"]),
-						category: z
-							.enum([
-								"security",
-								"performance",
-								"bug",
-								"type-safety",
-								"error-handling",
-								"maintainability",
-								"best-practice",
-								"other",
-							])
-							.default("other"),
-						suggestedFix: z.string().optional(),
-						suggestDiff: z.boolean().default(false),
-					}),
-				)
-				.default([]),
 			summary: z.string(),
 		}),
 	),
-	overallSeverity: z.enum(["low", "medium", "high"]),
 	recommendations: z.array(z.string()),
 });
 
@@ -77,7 +75,7 @@ const ToolCallRequestSchema = z.object({
 			// For add_review_comment
 			file_name: z.string().optional(),
 			found_error_description: z.string().optional(),
-			side: z.enum(["LEFT", "RIGHT"]).optional(),
+			side: z.enum([REVIEW_SIDES.LEFT, REVIEW_SIDES.RIGHT]).optional(),
 
 			// For mark_as_done
 			brief_summary: z.string().optional(),
@@ -104,17 +102,13 @@ const ReviewStepSchema = z.object({
 				description: z.string().min(1),
 				severity: z.enum(["low", "medium", "high"]),
 				category: z
-					.enum([
-						"security",
-						"performance",
-						"bug",
-						"type-safety",
-						"error-handling",
-						"maintainability",
-						"best-practice",
-						"other",
-					])
-					.default("other"),
+					.enum(
+						Object.values(FINDING_CATEGORIES) as [
+							FindingCategory,
+							...FindingCategory[],
+						],
+					)
+					.default(FINDING_CATEGORIES.OTHER),
 				suggestedFix: z.string().optional(),
 				suggestDiff: z.boolean().default(false),
 			}),
@@ -124,14 +118,42 @@ const ReviewStepSchema = z.object({
 });
 
 type ReviewResult = z.infer<typeof ReviewResultSchema>;
-type CodeReview = z.infer<typeof CodeReviewSchema>;
+type SummaryOverview = z.infer<typeof SummaryOverviewSchema>;
 type ToolCallRequest = z.infer<typeof ToolCallRequestSchema>;
 type ReviewStep = z.infer<typeof ReviewStepSchema>;
+type ReviewIssue = ReviewStep["issues"][number];
+
+/**
+ * Findings posted for a reviewed file
+ */
+interface FileReview {
+	filename: string;
+	issues: ReviewIssue[];
+}
 
 /**
  * AI agent implementation for Anthropic Claude
  */
 export class AnthropicAgent extends AIAgent {
+	/**
+	 * Create the Anthropic model with the API key
+	 * @returns Language model instance
+	 */
+	protected createModel(): LanguageModelV1 {
+		const anthropicProvider = createAnthropic({
+			apiKey: this.apiKey,
+		});
+
+		return anthropicProvider(this.model);
+	}
+
+	/**
+	 * Get the display name of the provider used in logs and errors
+	 */
+	protected getProviderName(): string {
+		return "Anthropic Claude";
+	}
+
 	/**
 	 * Perform a code review on the provided changed files using Anthropic Claude
 	 * @param changedFiles - List of changed files
@@ -161,10 +183,6 @@ export class AnthropicAgent extends AIAgent {
 				patch: file.patch,
 			}));
 
-			// Maximum retries for API calls
-			const maxRetries = 3;
-			const initialBackoff = 1000; // 1 second
-
 			// Set up tools for Anthropic
 			const tools = this.getTools();
 
@@ -173,17 +191,19 @@ export class AnthropicAgent extends AIAgent {
 				`Providing ${Object.keys(tools).length} tools to the model: ${Object.keys(tools).join(", ")}`,
 			);
 
-			// Create the Anthropic model with the API key
-			const anthropicProvider = createAnthropic({
-				apiKey: this.apiKey,
-			});
-
-			const model = anthropicProvider(this.model);
+			const model = this.createModel();
 
 			// Initialize variables to capture the review result
 			let reviewSummary = "";
 			const reviewedFiles = new Set<string>();
 			let commentsMade = 0;
+			let limitReached: string | null = null;
+
+			// Findings that were actually posted, used to build the summary
+			const postedIssues: Record<string, ReviewIssue[]> = {};
+
+			// Files whose analysis completed; a retry resumes after them
+			const completedFiles = new Set<string>();
 
 			// Store file contents and project structure
 			const fetchedFileContents: Record<string, string> = {};
@@ -193,69 +213,137 @@ export class AnthropicAgent extends AIAgent {
 			let totalSteps = 0;
 			const MAX_TOTAL_STEPS = 50; // Absolute maximum number of steps across all files
 
-			// Create a loop with retries for reliability
-			for (let retries = 0; retries < maxRetries; retries++) {
-				try {
-					// Step 1: Get project structure to provide context
-					core.info("Step 1: Fetching project structure...");
-
-					try {
-						// Use the fileContentGetter to get a list of files in the project
-						// This is a simplified approach - in a real implementation, you might want to use a more sophisticated method
-						const rootDir = "."; // Start from the root directory
-						const projectFiles = await this.getProjectStructure(rootDir);
-						projectStructure = projectFiles;
-						core.info(
-							`Successfully retrieved project structure (${projectStructure.length} characters)`,
-						);
-					} catch (error) {
-						core.warning(
-							`Failed to fetch project structure: ${error instanceof Error ? error.message : String(error)}`,
-						);
-						projectStructure = "Failed to retrieve project structure";
+			// Token budget of a single request; a file window may use up to 60% of it
+			// so that the instructions and additional context still fit
+			const inputTokenBudget = getInputTokenBudget(this.model);
+			const fileWindowTokens = Math.floor(inputTokenBudget * 0.6);
+
+			// Run the review, retrying according to the shared retry policy
+			await withRetry(
+				async (attempt) => {
+					// Step 1: Get project structure to provide context, unless it was
+					// already fetched before a retry
+					if (projectStructure) {
+						core.info("Step 1: Reusing the fetched project structure");
+					} else {
+						core.info("Step 1: Fetching project structure...");
+
+						try {
+							// Use the fileContentGetter to get a list of files in the project
+							// This is a simplified approach - in a real implementation, you might want to use a more sophisticated method
+							const rootDir = "."; // Start from the root directory
+							const projectFiles = await this.getProjectStructure(rootDir);
+							projectStructure = projectFiles;
+							core.info(
+								`Successfully retrieved project structure (${projectStructure.length} characters)`,
+							);
+						} catch (error) {
+							core.warning(
+								`Failed to fetch project structure: ${error instanceof Error ? error.message : String(error)}`,
+							);
+							projectStructure = "Failed to retrieve project structure";
+						}
 					}
 
 					// Step 2: Process each file individually with a structured approach
 					for (const file of simpleChangedFiles) {
+						if (completedFiles.has(file.filename)) {
+							core.info(
+								`Skipping ${file.filename}, it was reviewed before the retry`,
+							);
+							continue;
+						}
+
 						core.info(`Processing file: ${file.filename}`);
-						reviewedFiles.add(file.filename);
 
 						// Skip if we've reached the maximum total steps (global safety limit)
 						if (totalSteps >= MAX_TOTAL_STEPS) {
 							core.warning(
 								`Reached maximum total steps (${MAX_TOTAL_STEPS}). This is a safety limit to prevent infinite loops. Stopping review.`,
 							);
+							this.skipRemainingFiles(
+								simpleChangedFiles,
+								completedFiles,
+								SKIP_REASONS.STEP_LIMIT,
+								`Reached maximum total steps (${MAX_TOTAL_STEPS})`,
+							);
+							break;
+						}
+
+						// Stop once a usage cap is reached and keep the partial results
+						limitReached = this.usageTracker.getLimitReached();
+						if (limitReached) {
+							core.warning(`Skipping remaining files: ${limitReached}`);
+							this.skipRemainingFiles(
+								simpleChangedFiles,
+								completedFiles,
+								SKIP_REASONS.USAGE_LIMIT,
+								limitReached,
+							);
 							break;
 						}
 
+						const fileStartTime = Date.now();
+						const fileStartSteps = totalSteps;
+						let fileStepLimitReached = false;
+
 						// Fetch the file content first
-						try {
-							const content = await this.fileContentGetter(file.filename);
-							fetchedFileContents[file.filename] = content;
+						const content = await this.readFileToReview(file.filename);
+						if (content === undefined) {
+							continue; // Skip this file if we can't get its content
+						}
+						fetchedFileContents[file.filename] = content;
+
+						// Split files that do not fit the context window into windows
+						// around the diff hunks
+						const fileContent = fetchedFileContents[file.filename];
+						const totalFileLines = fileContent.split("\n").length;
+						const windows = splitIntoDiffWindows(
+							fileContent,
+							file.patch,
+							fileWindowTokens,
+							this.model,
+						);
+						if (windows.length > 1) {
 							core.info(
-								`Retrieved content for ${file.filename} (${content.length} characters)`,
-							);
-						} catch (error) {
-							core.warning(
-								`Failed to fetch content for ${file.filename}: ${error instanceof Error ? error.message : String(error)}`,
+								`${file.filename} does not fit the context window, reviewing it in ${windows.length} windows around the diff hunks`,
 							);
-							continue; // Skip this file if we can't get its content
 						}
 
-						// Create initial context for the file review
-						let initialContext = `
-You are reviewing the file ${file.filename} which was ${file.status} in this pull request.
-Changes: +${file.additions}/-${file.deletions} lines
-
-Project Structure:
-${projectStructure}
+						let fileIssues: ReviewIssue[] = [];
 
-File Content:
-\`\`\`
-${fetchedFileContents[file.filename]}
-\`\`\`
+						for (const window of windows) {
+							if (totalSteps >= MAX_TOTAL_STEPS || limitReached) {
+								fileStepLimitReached ||= totalSteps >= MAX_TOTAL_STEPS;
+								break;
+							}
 
-Please analyze this file for issues and provide your observations. For each issue, specify:
+							const isWholeFile =
+								window.startLine === 1 && window.endLine === totalFileLines;
+
+							// Create initial context for the file review, ordered as in the
+							// prompt; lower priority sections are trimmed first
+							const contextSections: ContextSection[] = [
+								{
+									name: "file header",
+									content: `You are reviewing the file ${file.filename} which was ${file.status} in this pull request.\nChanges: +${file.additions}/-${file.deletions} lines`,
+									priority: 0,
+								},
+								{
+									name: "project structure",
+									content: `Project Structure:\n${projectStructure}`,
+									priority: 4,
+								},
+								{
+									name: `${file.filename} content`,
+									content: isWholeFile
+										? `File Content:\n\`\`\`\n${window.content}\n\`\`\``
+										: `File Content (lines ${window.startLine}-${window.endLine} of ${totalFileLines}, each line is prefixed with its line number):\n\`\`\`\n${formatWithLineNumbers(window.content, window.startLine)}\n\`\`\``,
+									priority: 1,
+								},
+								{
+									name: "instructions",
+									content: `Please analyze this file for issues and provide your observations. For each issue, specify:
 1. Line numbers (start and end)
 2. Description of the issue
 3. Severity (low, medium, high)
@@ -263,289 +351,354 @@ Please analyze this file for issues and provide your observations. For each issu
 5. Suggested fix (if applicable)
 6. Whether to suggest the fix as a GitHub diff (suggestDiff: true/false)
 
-You can also request additional context by specifying a nextAction to explore the project or get content from other files.
-`;
+You can also request additional context by specifying a nextAction to explore the project or get content from other files.`,
+									priority: 0,
+								},
+							];
+
+							// Use generateObject for structured file analysis
+							let analysisComplete = false;
+							let stepCount = 0;
+							const maxSteps = 10; // Limit the number of steps to prevent infinite loops
+
+							while (
+								!analysisComplete &&
+								stepCount < maxSteps &&
+								!limitReached
+							) {
+								stepCount++;
+								totalSteps++; // Increment global step counter for safety limit
+
+								core.info(
+									`File analysis step ${stepCount} for ${file.filename} (total steps: ${totalSteps}/${MAX_TOTAL_STEPS})`,
+								);
+								// Skipped files are not listed as reviewed in the summary
+								reviewedFiles.add(file.filename);
+
+								try {
+									const { object: reviewStep, usage } = await generateObject({
+										model,
+										schema: ReviewStepSchema,
+										prompt: fitContextToBudget(
+											stepCount > 1
+												? [
+														...contextSections,
+														{
+															name: "continuation",
+															content:
+																"Continue your analysis based on the additional context.",
+															priority: 0,
+														},
+													]
+												: contextSections,
+											inputTokenBudget,
+											this.model,
+										),
+										temperature: 0.1,
+										maxRetries: 0, // Retries are handled by the shared retry policy
+									});
+
+									limitReached = this.recordUsage(usage);
+
+									// Process the review step
+									analysisComplete = reviewStep.analysisComplete;
+
+									// Add any new issues to our collection
+									if (reviewStep.issues && reviewStep.issues.length > 0) {
+										fileIssues = [...fileIssues, ...reviewStep.issues];
+										core.info(
+											`Found ${reviewStep.issues.length} issues in ${file.filename}`,
+										);
+
+										// Add comments for each issue
+										for (const issue of reviewStep.issues) {
+											try {
+												// Get the total number of lines for proper validation
+												const fileLines =
+													fetchedFileContents[file.filename].split("\n");
+												const totalLines = fileLines.length;
+
+												// Validate line numbers are within file bounds
+												if (
+													issue.lineStart < 1 ||
+													issue.lineEnd > totalLines ||
+													issue.lineStart > issue.lineEnd
+												) {
+													core.warning(
+														`Skipping comment with invalid line numbers (${issue.lineStart}-${issue.lineEnd}) for ${file.filename}. File has ${totalLines} lines.`,
+													);
+													continue;
+												}
 
-						// Use generateObject for structured file analysis
-						let analysisComplete = false;
-						let fileIssues: Array<{
-							lineStart: number;
-							lineEnd: number;
-							description: string;
-							severity: string;
-							category: string;
-							suggestedFix?: string;
-							suggestDiff?: boolean;
-						}> = [];
-						let stepCount = 0;
-						const maxSteps = 10; // Limit the number of steps to prevent infinite loops
-
-						while (!analysisComplete && stepCount < maxSteps) {
-							stepCount++;
-							totalSteps++; // Increment global step counter for safety limit
+												// Extract the actual line content for validation
+												const targetLineContent =
+													fileLines[issue.lineStart - 1]?.trim() || "";
+												const contextLines = fileLines
+													.slice(
+														Math.max(0, issue.lineStart - 3),
+														Math.min(totalLines, issue.lineEnd + 3),
+													)
+													.join("\n");
+
+												// Verify comment relevance to avoid misplaced comments
+												if (
+													!this.isCommentRelevantToLineContent(
+														issue.description,
+														targetLineContent,
+														contextLines,
+													)
+												) {
+													// Try to find a better matching line nearby
+													const betterLine = this.findBetterMatchingLine(
+														issue.description,
+														fileLines,
+														issue.lineStart,
+														10, // Look 10 lines before and after
+													);
 
-							core.info(
-								`File analysis step ${stepCount} for ${file.filename} (total steps: ${totalSteps}/${MAX_TOTAL_STEPS})`,
-							);
+													if (betterLine !== issue.lineStart) {
+														core.info(
+															`Relocating comment from line ${issue.lineStart} to better matching line ${betterLine}`,
+														);
+														issue.lineStart = betterLine;
+														issue.lineEnd = betterLine;
+													} else {
+														core.warning(
+															`Comment doesn't seem relevant to line ${issue.lineStart}. Skipping to avoid misplacement.`,
+														);
+														continue;
+													}
+												}
 
-							try {
-								const { object: reviewStep } = await generateObject({
-									model,
-									schema: ReviewStepSchema,
-									prompt:
-										initialContext +
-										(stepCount > 1
-											? "\n\nContinue your analysis based on the additional context."
-											: ""),
-									temperature: 0.1,
-								});
-
-								// Process the review step
-								analysisComplete = reviewStep.analysisComplete;
-
-								// Add any new issues to our collection
-								if (reviewStep.issues && reviewStep.issues.length > 0) {
-									fileIssues = [...fileIssues, ...reviewStep.issues];
-									core.info(
-										`Found ${reviewStep.issues.length} issues in ${file.filename}`,
-									);
+												// Format the comment based on whether it's a suggested change
+												let commentText: string;
+												if (issue.suggestedFix && issue.suggestDiff) {
+													commentText = this.formatSuggestedChange(
+														issue.description,
+														issue.severity,
+														issue.category,
+														issue.suggestedFix,
+														file.filename,
+														issue.lineStart,
+														issue.lineEnd,
+													);
+												} else {
+													commentText = `**${issue.severity.toUpperCase()} Severity ${issue.category.toUpperCase()} Issue**: ${issue.description}${issue.suggestedFix ? `\n\n**Suggested Fix**:\n\`\`\`\n${issue.suggestedFix}\n\`\`\`` : ""}`;
+												}
 
-									// Add comments for each issue
-									for (const issue of reviewStep.issues) {
-										try {
-											// Get the total number of lines for proper validation
-											const fileLines =
-												fetchedFileContents[file.filename].split("\n");
-											const totalLines = fileLines.length;
-
-											// Validate line numbers are within file bounds
-											if (
-												issue.lineStart < 1 ||
-												issue.lineEnd > totalLines ||
-												issue.lineStart > issue.lineEnd
-											) {
+												// Add the comment unless the verifier rejects it or it
+												// was already posted before a retry
+												const result = await this.publishFinding({
+													comment: commentText,
+													filePath: file.filename,
+													side: REVIEW_SIDES.RIGHT,
+													startLineNumber: issue.lineStart,
+													endLineNumber: issue.lineEnd,
+													severity: issue.severity,
+													category: issue.category,
+													// Only code meant to replace the lines is a fix, otherwise
+													// the suggestion is prose in the comment
+													...(issue.suggestDiff
+														? { suggestedFix: issue.suggestedFix }
+														: {}),
+												});
+												if (result.outcome !== PUBLISH_OUTCOMES.PUBLISHED) {
+													continue;
+												}
+
+												commentsMade++;
+												postedIssues[file.filename] = [
+													...(postedIssues[file.filename] ?? []),
+													issue,
+												];
+												core.info(
+													`Added comment to ${file.filename} at lines ${issue.lineStart}-${issue.lineEnd}`,
+												);
+											} catch (error) {
 												core.warning(
-													`Skipping comment with invalid line numbers (${issue.lineStart}-${issue.lineEnd}) for ${file.filename}. File has ${totalLines} lines.`,
+													`Failed to add comment to ${file.filename}: ${error instanceof Error ? error.message : String(error)}`,
 												);
-												continue;
 											}
+										}
+									}
 
-											// Extract the actual line content for validation
-											const targetLineContent =
-												fileLines[issue.lineStart - 1]?.trim() || "";
-											const contextLines = fileLines
-												.slice(
-													Math.max(0, issue.lineStart - 3),
-													Math.min(totalLines, issue.lineEnd + 3),
-												)
-												.join("\n");
-
-											// Verify comment relevance to avoid misplaced comments
-											if (
-												!this.isCommentRelevantToLineContent(
-													issue.description,
-													targetLineContent,
-													contextLines,
-												)
-											) {
-												// Try to find a better matching line nearby
-												const betterLine = this.findBetterMatchingLine(
-													issue.description,
-													fileLines,
-													issue.lineStart,
-													10, // Look 10 lines before and after
+									// Process next action if needed
+									if (!analysisComplete && reviewStep.nextAction) {
+										const action: ToolCallRequest = reviewStep.nextAction;
+										core.info(`Executing next action: ${action.action}`);
+
+										if (
+											action.action === "get_file_content" &&
+											action.params.path_to_file
+										) {
+											// Fetch content from another file for context
+											try {
+												const otherFilePath = action.params.path_to_file;
+												const startLine = action.params.start_line_number || 1;
+												const endLine = action.params.end_line_number || 1000; // Use a large number as default
+
+												// Use the tool to get the content
+												const content = await this.getFileContent(
+													otherFilePath,
+													startLine,
+													endLine,
 												);
 
-												if (betterLine !== issue.lineStart) {
-													core.info(
-														`Relocating comment from line ${issue.lineStart} to better matching line ${betterLine}`,
-													);
-													issue.lineStart = betterLine;
-													issue.lineEnd = betterLine;
-												} else {
-													core.warning(
-														`Comment doesn't seem relevant to line ${issue.lineStart}. Skipping to avoid misplacement.`,
-													);
-													continue;
-												}
+												// Add this content to the context for the next iteration
+												contextSections.push({
+													name: `context from ${otherFilePath}`,
+													content: `Additional context from ${otherFilePath} (lines ${startLine}-${endLine}):\n${content}`,
+													priority: 2,
+												});
+												core.info(
+													`Added content from ${otherFilePath} to context`,
+												);
+											} catch (error) {
+												core.warning(
+													`Failed to get content from ${action.params.path_to_file}: ${error instanceof Error ? error.message : String(error)}`,
+												);
+												contextSections.push({
+													name: `context from ${action.params.path_to_file}`,
+													content: `Failed to get content from ${action.params.path_to_file}`,
+													priority: 2,
+												});
 											}
-
-											// Format the comment based on whether it's a suggested change
-											let commentText: string;
-											if (issue.suggestedFix && issue.suggestDiff) {
-												commentText = this.formatSuggestedChange(
-													issue.description,
-													issue.severity,
-													issue.category,
-													issue.suggestedFix,
-													file.filename,
-													issue.lineStart,
-													issue.lineEnd,
+										} else if (
+											action.action === "explore_project" &&
+											action.params.directory_path
+										) {
+											// Explore a directory for context
+											try {
+												const dirPath = action.params.directory_path;
+												const dirStructure =
+													await this.getProjectStructure(dirPath);
+												contextSections.push({
+													name: `directory structure of ${dirPath}`,
+													content: `Directory structure for ${dirPath}:\n${dirStructure}`,
+													priority: 3,
+												});
+												core.info(
+													`Added directory structure for ${dirPath} to context`,
+												);
+											} catch (error) {
+												core.warning(
+													`Failed to explore directory ${action.params.directory_path}: ${error instanceof Error ? error.message : String(error)}`,
 												);
-											} else {
-												commentText = `**${issue.severity.toUpperCase()} Severity ${issue.category.toUpperCase()} Issue**: ${issue.description}${issue.suggestedFix ? `\n\n**Suggested Fix**:\n\`\`\`\n${issue.suggestedFix}\n\`\`\`` : ""}`;
+												contextSections.push({
+													name: `directory structure of ${action.params.directory_path}`,
+													content: `Failed to explore directory ${action.params.directory_path}`,
+													priority: 3,
+												});
 											}
-
-											// Add the comment
-											await this.fileCommentator(
-												commentText,
-												file.filename,
-												"RIGHT",
-												issue.lineStart,
-												issue.lineEnd,
-											);
-
-											commentsMade++;
-											core.info(
-												`Added comment to ${file.filename} at lines ${issue.lineStart}-${issue.lineEnd}`,
-											);
-										} catch (error) {
-											core.warning(
-												`Failed to add comment to ${file.filename}: ${error instanceof Error ? error.message : String(error)}`,
-											);
 										}
 									}
-								}
-
-								// Process next action if needed
-								if (!analysisComplete && reviewStep.nextAction) {
-									const action: ToolCallRequest = reviewStep.nextAction;
-									core.info(`Executing next action: ${action.action}`);
-
-									if (
-										action.action === "get_file_content" &&
-										action.params.path_to_file
-									) {
-										// Fetch content from another file for context
-										try {
-											const otherFilePath = action.params.path_to_file;
-											const startLine = action.params.start_line_number || 1;
-											const endLine = action.params.end_line_number || 1000; // Use a large number as default
-
-											// Use the tool to get the content
-											const content = await this.getFileContent(
-												otherFilePath,
-												startLine,
-												endLine,
-											);
-
-											// Add this content to the context for the next iteration
-											initialContext += `\n\nAdditional context from ${otherFilePath} (lines ${startLine}-${endLine}):\n${content}\n`;
-											core.info(
-												`Added content from ${otherFilePath} to context`,
-											);
-										} catch (error) {
-											core.warning(
-												`Failed to get content from ${action.params.path_to_file}: ${error instanceof Error ? error.message : String(error)}`,
-											);
-											initialContext += `\n\nFailed to get content from ${action.params.path_to_file}\n`;
-										}
-									} else if (
-										action.action === "explore_project" &&
-										action.params.directory_path
-									) {
-										// Explore a directory for context
-										try {
-											const dirPath = action.params.directory_path;
-											const dirStructure =
-												await this.getProjectStructure(dirPath);
-											initialContext += `\n\nDirectory structure for ${dirPath}:\n${dirStructure}\n`;
-											core.info(
-												`Added directory structure for ${dirPath} to context`,
-											);
-										} catch (error) {
-											core.warning(
-												`Failed to explore directory ${action.params.directory_path}: ${error instanceof Error ? error.message : String(error)}`,
-											);
-											initialContext += `\n\nFailed to explore directory ${action.params.directory_path}\n`;
-										}
+								} catch (error) {
+									// API failures (rate limits, outages, auth) are left to the retry policy
+									if (APICallError.isInstance(error)) {
+										throw error;
 									}
+									core.warning(
+										`Error in file analysis step: ${error instanceof Error ? error.message : String(error)}`,
+									);
+									analysisComplete = true; // Stop on error
 								}
-							} catch (error) {
-								core.warning(
-									`Error in file analysis step: ${error instanceof Error ? error.message : String(error)}`,
-								);
-								analysisComplete = true; // Stop on error
 							}
+							fileStepLimitReached ||=
+								!analysisComplete && stepCount >= maxSteps;
 						}
 
+						completedFiles.add(file.filename);
+						this.reviewProgress.recordFile(
+							file.filename,
+							Date.now() - fileStartTime,
+							totalSteps - fileStartSteps,
+							fileStepLimitReached,
+						);
 						core.info(
 							`Completed analysis of ${file.filename} with ${fileIssues.length} issues found`,
 						);
 					}
 
-					// Step 3: Generate a structured summary of all findings
+					// Step 3: Summarize the posted findings
 					core.info("Step 3: Generating structured summary...");
 
-					// Create a summary prompt with all the information we've gathered
-					const summaryPrompt = `
-You have reviewed the following files in a pull request:
-${simpleChangedFiles.map((file) => `- ${file.filename} (${file.status}, +${file.additions}/-${file.deletions})`).join("\n")}
-
-Project Structure:
-${projectStructure}
-
-Please provide a structured summary of your findings. Include a summary for each file, any issues found, and recommendations.
-`;
+					const fileReviews: FileReview[] = [...reviewedFiles].map(
+						(filename) => ({
+							filename,
+							issues: postedIssues[filename] ?? [],
+						}),
+					);
 
-					try {
-						const { object: reviewResult } = await generateObject({
-							model,
-							schema: CodeReviewSchema,
-							prompt: summaryPrompt,
-							temperature: 0.1,
-						});
-
-						// Generate the review summary with categories
-						reviewSummary = `# Code Review Summary\n\n${reviewResult.summary}\n\n## Details\n\n- **Files Reviewed**: ${reviewResult.filesReviewed.map((f) => f.filename).join(", ")}\n- **Issues Found**: ${reviewResult.filesReviewed.reduce((count, file) => count + file.issues.length, 0)}\n- **Severity**: ${reviewResult.overallSeverity}\n\n## Issues by Category\n\n${this.generateCategorySummary(reviewResult)}\n\n## Recommendations\n\n${reviewResult.recommendations.map((rec) => `- ${rec}`).join("\n")}\n\n## File Summaries\n\n${reviewResult.filesReviewed.map((file) => `### ${file.filename}\n\n${file.summary}${file.issues.length > 0 ? `\n\n**Issues**: ${file.issues.length}` : ""}`).join("\n\n")}`;
-					} catch (error) {
-						core.warning(
-							`Failed to generate structured summary: ${error instanceof Error ? error.message : String(error)}`,
-						);
+					// The model only writes the prose, grounded in the posted findings
+					const summaryPrompt = fitContextToBudget(
+						[
+							{
+								name: "reviewed files",
+								content: `You have reviewed the following files in a pull request:\n${simpleChangedFiles.map((file) => `- ${file.filename} (${file.status}, +${file.additions}/-${file.deletions})`).join("\n")}`,
+								priority: 0,
+							},
+							{
+								name: "findings",
+								content: `Findings posted as review comments:\n${this.formatFindingsForPrompt(fileReviews)}`,
+								priority: 1,
+							},
+							{
+								name: "project structure",
+								content: `Project Structure:\n${projectStructure}`,
+								priority: 2,
+							},
+							{
+								name: "instructions",
+								content:
+									"Please write a short overview of the review, a brief summary for each reviewed file and recommendations. Base them only on the findings listed above and do not report new issues.",
+								priority: 0,
+							},
+						],
+						inputTokenBudget,
+						this.model,
+					);
 
-						// Fallback to a simple summary
-						reviewSummary = `# Code Review Summary\n\nReviewed ${reviewedFiles.size} files and found ${commentsMade} issues.`;
+					let overview: SummaryOverview | undefined;
+					if (!limitReached) {
+						// No further calls once a usage cap is reached
+						try {
+							const { object, usage } = await generateObject({
+								model,
+								schema: SummaryOverviewSchema,
+								prompt: summaryPrompt,
+								temperature: 0.1,
+								maxRetries: 0, // Retries are handled by the shared retry policy
+							});
+							this.recordUsage(usage);
+							overview = object;
+						} catch (error) {
+							if (APICallError.isInstance(error)) {
+								throw error;
+							}
+							core.warning(
+								`Failed to generate structured summary: ${error instanceof Error ? error.message : String(error)}`,
+							);
+						}
 					}
 
+					reviewSummary = this.generateReviewSummary(fileReviews, overview);
+
 					// Review completed successfully
 					core.info(
 						`Review completed: reviewed ${reviewedFiles.size} files with ${commentsMade} comments`,
 					);
-					break;
-				} catch (error) {
-					// Handle errors with retries
-					const errorMessage =
-						error instanceof Error ? error.message : String(error);
-					core.warning(
-						`Error during review (attempt ${retries + 1}/${maxRetries}): ${errorMessage}`,
-					);
-
-					// Check for specific error types
-					if (
-						errorMessage.includes("rate limit") ||
-						errorMessage.includes("quota")
-					) {
-						core.warning(
-							"Rate limit or quota exceeded. Waiting longer before retry...",
-						);
-						await new Promise((resolve) => setTimeout(resolve, 10000)); // Wait 10 seconds
-					}
-
-					if (retries >= maxRetries - 1) {
-						throw error;
-					}
-
-					// Exponential backoff
-					const backoff = initialBackoff * 2 ** retries + Math.random() * 1000;
-					core.warning(`Retrying in ${Math.round(backoff)}ms`);
-					await new Promise((resolve) => setTimeout(resolve, backoff));
-				}
-			}
+				},
+				this.retryPolicy,
+				"Review with Anthropic Claude",
+			);
 
 			// Provide a fallback summary if none was generated
 			if (!reviewSummary) {
 				reviewSummary = `Code review completed. Reviewed ${reviewedFiles.size} files with ${commentsMade} comments.`;
 			}
+			if (limitReached) {
+				reviewSummary += `\n\n${this.formatLimitReachedNote(limitReached)}`;
+			}
 
 			return reviewSummary;
 		} catch (error) {
@@ -577,10 +730,64 @@ ${suggestedFix}
 \`\`\``;
 	}
 
+	/**
+	 * Formats the posted findings for the summary prompt
+	 * @param fileReviews - Posted findings of each reviewed file
+	 * @returns One line per finding, or a note that nothing was found
+	 */
+	formatFindingsForPrompt(fileReviews: FileReview[]): string {
+		const lines = fileReviews.flatMap((file) =>
+			file.issues.map(
+				(issue) =>
+					`- ${file.filename}:${issue.lineStart}-${issue.lineEnd} [${issue.severity.toUpperCase()}, ${issue.category}] ${issue.description}`,
+			),
+		);
+		return lines.length > 0 ? lines.join("\n") : "No issues were found.";
+	}
+
+	/**
+	 * Generates the review summary from the posted findings
+	 * @param fileReviews - Posted findings of each reviewed file
+	 * @param overview - Prose written by the model, if it could be generated
+	 * @returns Review summary
+	 */
+	generateReviewSummary(
+		fileReviews: FileReview[],
+		overview?: SummaryOverview,
+	): string {
+		const issues = fileReviews.flatMap((file) => file.issues);
+		const severity =
+			Object.values(SEVERITIES)
+				.reverse()
+				.find((level) => issues.some((issue) => issue.severity === level)) ??
+			"none";
+
+		let summary = `# Code Review Summary\n\n${overview?.summary ?? `Reviewed ${fileReviews.length} files and found ${issues.length} issues.`}\n\n## Details\n\n- **Files Reviewed**: ${fileReviews.map((file) => file.filename).join(", ")}\n- **Issues Found**: ${issues.length}\n- **Severity**: ${severity}`;
+
+		if (issues.length > 0) {
+			summary += `\n\n## Issues by Category\n\n${this.generateCategorySummary(fileReviews).trimEnd()}`;
+		}
+		if (overview && overview.recommendations.length > 0) {
+			summary += `\n\n## Recommendations\n\n${overview.recommendations.map((rec) => `- ${rec}`).join("\n")}`;
+		}
+		if (overview) {
+			const fileSummaries = fileReviews.map((file) => {
+				const fileSummary =
+					overview.fileSummaries.find(
+						(candidate) => candidate.filename === file.filename,
+					)?.summary ?? "";
+				return `### ${file.filename}\n\n${fileSummary}${file.issues.length > 0 ? `\n\n**Issues**: ${file.issues.length}` : ""}`;
+			});
+			summary += `\n\n## File Summaries\n\n${fileSummaries.join("\n\n")}`;
+		}
+
+		return summary;
+	}
+
 	/**
 	 * Generates a summary of issues grouped by category
 	 */
-	generateCategorySummary(reviewResult: CodeReview): string {
+	generateCategorySummary(fileReviews: FileReview[]): string {
 		const categoryCounts: Record<string, number> = {};
 		const categoryIssues: Record<
 			string,
@@ -588,7 +795,7 @@ ${suggestedFix}
 		> = {};
 
 		// Count issues by category
-		for (const file of reviewResult.filesReviewed) {
+		for (const file of fileReviews) {
 			for (const issue of file.issues) {
 				const category = issue.category;
 				categoryCounts[category] = (categoryCounts[category] || 0) + 1;
@@ -966,3 +1173,27 @@ The code review will analyze the changed files in context, focusing on:
 		return text1Keywords.some((keyword) => text2Keywords.includes(keyword));
 	}
 }
+
+registerProvider({
+	id: "anthropic",
+	displayName: "Anthropic Claude",
+	apiKeyInput: {
+		name: "anthropic_api_key",
+		description: "Anthropic API key (required if using Anthropic provider)",
+		required: true,
+	},
+	modelInput: {
+		name: "anthropic_model",
+		description: "Anthropic model name (e.g., claude-3-7-sonnet-20250219)",
+		required: true,
+		default: "claude-3-7-sonnet-20250219",
+	},
+	create: ({ apiKey, fileContentGetter, fileCommentator, model, options }) =>
+		new AnthropicAgent(
+			apiKey,
+			fileContentGetter,
+			fileCommentator,
+			model,
+			options,
+		),
+});
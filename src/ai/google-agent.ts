@@ -1,137 +1,46 @@
-import * as core from "@actions/core";
-import { createGoogleGenerativeAI, google } from "@ai-sdk/google";
-import { generateText } from "ai";
-import { type ChangedFile, TOOL_NAMES } from "../types/constants";
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import type { LanguageModelV1 } from "ai";
 import { AIAgent } from "./ai-agent";
+import { registerProvider } from "./provider-registry";
 
 /**
  * AI agent implementation for Google Gemini
  */
 export class GoogleAgent extends AIAgent {
 	/**
-	 * Perform a code review on the provided changed files using Google Gemini
-	 * @param changedFiles - List of changed files
-	 * @returns Review summary
+	 * Create the Google model with the API key
+	 * @returns Language model instance
 	 */
-	async doReview(changedFiles: ChangedFile[]): Promise<string> {
-		core.info(`Starting code review with Google Gemini model: ${this.model}`);
-		core.info(`Processing ${changedFiles.length} changed files...`);
+	protected createModel(): LanguageModelV1 {
+		const googleProvider = createGoogleGenerativeAI({
+			apiKey: this.apiKey,
+		});
 
-		try {
-			// Prepare for review
-			const simpleChangedFiles = changedFiles.map((file) => ({
-				filename: file.filename,
-				status: file.status,
-				additions: file.additions,
-				deletions: file.deletions,
-				changes: file.changes,
-				patch: file.patch,
-			}));
-
-			// Maximum retries for API calls
-			const maxRetries = 3;
-			const initialBackoff = 1000; // 1 second
-
-			// Set up tools for Google
-			const tools = this.getTools();
-
-			// Create the Google model with the API key
-			const googleProvider = createGoogleGenerativeAI({
-				apiKey: this.apiKey,
-			});
-
-			const model = googleProvider(this.model);
-
-			// Initialize variables to capture the review result
-			let reviewSummary = "";
-			const reviewedFiles = new Set<string>();
-			let commentsMade = 0;
-
-			// Create a loop with retries for reliability
-			for (let retries = 0; retries < maxRetries; retries++) {
-				try {
-					// Run the code review
-					core.info(
-						`Attempt ${retries + 1}/${maxRetries} to generate review using Google model`,
-					);
-
-					// Prepare the prompt with context about the changed files
-					const prompt = `Here are the changed files in the pull request that need review (${changedFiles.length} files): ${JSON.stringify(simpleChangedFiles, null, 2)}\n\nPlease review these files for issues and provide specific actionable comments where appropriate. If you need to see a file's content, use the get_file_content tool. When you're done reviewing, use the mark_as_done tool with a brief summary.`;
-
-					// Generate the review using the AI model
-					const { text, toolCalls } = await generateText({
-						model,
-						system: this.getSystemPrompt(),
-						prompt,
-						tools,
-						temperature: 0.2, // Lower temperature for more focused reviews
-					});
-
-					// Count files that were reviewed and comments made
-					if (toolCalls) {
-						for (const call of toolCalls) {
-							if (call.toolName === TOOL_NAMES.ADD_REVIEW_COMMENT) {
-								commentsMade++;
-								reviewedFiles.add(call.args.file_name);
-							} else if (call.toolName === TOOL_NAMES.MARK_AS_DONE) {
-								reviewSummary = call.args.brief_summary;
-							}
-						}
-					}
-
-					// If no summary was captured from mark_as_done, use the generated text
-					if (!reviewSummary) {
-						reviewSummary = text;
-					}
-
-					// Review completed successfully
-					core.info(
-						`Review completed: reviewed ${reviewedFiles.size} files with ${commentsMade} comments`,
-					);
-					break;
-				} catch (error) {
-					// Handle errors with retries
-					const errorMessage =
-						error instanceof Error ? error.message : String(error);
-					core.warning(
-						`Error during review (attempt ${retries + 1}/${maxRetries}): ${errorMessage}`,
-					);
-
-					// Check for specific error types
-					if (
-						errorMessage.includes("rate limit") ||
-						errorMessage.includes("quota")
-					) {
-						core.warning(
-							"Rate limit or quota exceeded. Waiting longer before retry...",
-						);
-						await new Promise((resolve) => setTimeout(resolve, 10000)); // Wait 10 seconds
-					}
-
-					if (retries >= maxRetries - 1) {
-						throw error;
-					}
-
-					// Exponential backoff
-					const backoff = initialBackoff * 2 ** retries + Math.random() * 1000;
-					core.warning(`Retrying in ${Math.round(backoff)}ms`);
-					await new Promise((resolve) => setTimeout(resolve, backoff));
-				}
-			}
-
-			// Provide a fallback summary if none was generated
-			if (!reviewSummary) {
-				reviewSummary = `Code review completed. Reviewed ${reviewedFiles.size} files with ${commentsMade} comments.`;
-			}
+		return googleProvider(this.model);
+	}
 
-			return reviewSummary;
-		} catch (error) {
-			core.error(
-				`Error in Google code review process: ${error instanceof Error ? error.message : String(error)}`,
-			);
-			throw new Error(
-				`Failed to complete code review with Google: ${error instanceof Error ? error.message : String(error)}`,
-			);
-		}
+	/**
+	 * Get the display name of the provider used in logs and errors
+	 */
+	protected getProviderName(): string {
+		return "Google Gemini";
 	}
 }
+
+registerProvider({
+	id: "google",
+	displayName: "Google Gemini",
+	apiKeyInput: {
+		name: "google_api_key",
+		description: "Google AI API key (required if using Google provider)",
+		required: true,
+	},
+	modelInput: {
+		name: "google_model",
+		description: "Google model name (e.g., gemini-2.0-flash)",
+		required: true,
+		default: "gemini-2.0-flash",
+	},
+	create: ({ apiKey, fileContentGetter, fileCommentator, model, options }) =>
+		new GoogleAgent(apiKey, fileContentGetter, fileCommentator, model, options),
+});
@@ -0,0 +1,76 @@
+import { createOpenAI } from "@ai-sdk/openai";
+import type { LanguageModelV1 } from "ai";
+import type { FileCommentator, FileContentGetter } from "../types/constants";
+import { AIAgent, type AIAgentOptions } from "./ai-agent";
+import { registerProvider } from "./provider-registry";
+
+/**
+ * AI agent implementation for OpenAI
+ */
+export class OpenAIAgent extends AIAgent {
+	/**
+	 * Creates a new OpenAIAgent instance
+	 * @param apiKey - API key for OpenAI
+	 * @param fileContentGetter - Function to get file content
+	 * @param fileCommentator - Function to add review comments
+	 * @param model - AI model to use
+	 * @param baseURL - Optional API base URL (defaults to the OpenAI API)
+	 * @param options - Optional agent settings
+	 */
+	constructor(
+		apiKey: string,
+		fileContentGetter: FileContentGetter,
+		fileCommentator: FileCommentator,
+		model: string,
+		protected baseURL?: string,
+		options: AIAgentOptions = {},
+	) {
+		super(apiKey, fileContentGetter, fileCommentator, model, options);
+	}
+
+	/**
+	 * Get the display name of the provider used in logs and errors
+	 */
+	protected getProviderName(): string {
+		return "OpenAI";
+	}
+
+	/**
+	 * Create the language model used for the review
+	 * @returns Language model instance
+	 */
+	protected createModel(): LanguageModelV1 {
+		const openaiProvider = createOpenAI({
+			apiKey: this.apiKey,
+			baseURL: this.baseURL,
+			compatibility: "strict",
+		});
+
+		return openaiProvider(this.model);
+	}
+}
+
+registerProvider({
+	id: "openai",
+	displayName: "OpenAI",
+	apiKeyInput: {
+		name: "openai_api_key",
+		description: "OpenAI API key (required if using OpenAI provider)",
+		required: true,
+	},
+	modelInput: {
+		name: "openai_model",
+		description: "OpenAI model name (e.g., gpt-4o)",
+		required: true,
+		default: "gpt-4o",
+	},
+	create: ({ apiKey, fileContentGetter, fileCommentator, model, options }) =>
+		new OpenAIAgent(
+			apiKey,
+			fileContentGetter,
+			fileCommentator,
+			model,
+			undefined,
+			options,
+		),
+});
@@ -0,0 +1,97 @@
+import { createOpenAI } from "@ai-sdk/openai";
+import type { LanguageModelV1 } from "ai";
+import { z } from "zod";
+import type { FileCommentator, FileContentGetter } from "../types/constants";
+import type { AIAgentOptions } from "./ai-agent";
+import { OpenAIAgent } from "./openai-agent";
+import { registerProvider } from "./provider-registry";
+
+/**
+ * AI agent implementation for any OpenAI-compatible endpoint
+ * (e.g. self-hosted Ollama, vLLM or llama.cpp servers)
+ */
+export class OpenAICompatibleAgent extends OpenAIAgent {
+	/**
+	 * Creates a new OpenAICompatibleAgent instance
+	 * @param apiKey - API key for the endpoint (may be empty for keyless servers)
+	 * @param fileContentGetter - Function to get file content
+	 * @param fileCommentator - Function to add review comments
+	 * @param model - AI model to use
+	 * @param baseURL - Base URL of the OpenAI-compatible API (e.g. http://localhost:11434/v1)
+	 * @param options - Optional agent settings
+	 */
+	constructor(
+		apiKey: string,
+		fileContentGetter: FileContentGetter,
+		fileCommentator: FileCommentator,
+		model: string,
+		baseURL: string,
+		options: AIAgentOptions = {},
+	) {
+		super(apiKey, fileContentGetter, fileCommentator, model, baseURL, options);
+	}
+
+	/**
+	 * Get the display name of the provider used in logs and errors
+	 */
+	protected getProviderName(): string {
+		return `OpenAI-compatible endpoint (${this.baseURL})`;
+	}
+
+	/**
+	 * Create the language model used for the review
+	 * @returns Language model instance
+	 */
+	protected createModel(): LanguageModelV1 {
+		const compatibleProvider = createOpenAI({
+			name: "openai-compatible",
+			apiKey: this.apiKey,
+			baseURL: this.baseURL,
+			compatibility: "compatible",
+		});
+
+		return compatibleProvider(this.model);
+	}
+}
+
+registerProvider({
+	id: "openai_compatible",
+	displayName: "OpenAI-compatible endpoint",
+	apiKeyInput: {
+		name: "openai_compatible_api_key",
+		description:
+			"API key for the OpenAI-compatible endpoint (optional, leave empty for keyless servers such as Ollama)",
+		required: false,
+	},
+	modelInput: {
+		name: "openai_compatible_model",
+		description:
+			"Model name served by the OpenAI-compatible endpoint (e.g., qwen2.5-coder:32b)",
+		required: true,
+	},
+	extraInputs: [
+		{
+			name: "api_base_url",
+			description:
+				"Base URL of the OpenAI-compatible API (required if using openai_compatible provider, e.g., http://localhost:11434/v1)",
+			required: true,
+			schema: z.string().url("API base URL must be a valid URL"),
+		},
+	],
+	create: ({
+		apiKey,
+		fileContentGetter,
+		fileCommentator,
+		model,
+		settings,
+		options,
+	}) =>
+		new OpenAICompatibleAgent(
+			apiKey,
+			fileContentGetter,
+			fileCommentator,
+			model,
+			settings.api_base_url,
+			options,
+		),
+});
@@ -0,0 +1,124 @@
+import type { z } from "zod";
+import type { FileCommentator, FileContentGetter } from "../types/constants";
+import type { AIAgent, AIAgentOptions } from "./ai-agent";
+
+/**
+ * Description of a GitHub Action input consumed by a provider
+ */
+export interface ProviderInput {
+	name: string;
+	description: string;
+	required: boolean;
+	default?: string;
+	schema?: z.ZodType<string>;
+}
+
+/**
+ * Options passed to a provider factory when creating an agent
+ */
+export interface ProviderAgentOptions {
+	apiKey: string;
+	model: string;
+	fileContentGetter: FileContentGetter;
+	fileCommentator: FileCommentator;
+	settings: Record<string, string>;
+	options: AIAgentOptions;
+}
+
+/**
+ * Definition of an AI provider that can be selected with the ai_provider input
+ */
+export interface ProviderDefinition {
+	id: string;
+	displayName: string;
+	apiKeyInput: ProviderInput;
+	modelInput: ProviderInput;
+	extraInputs?: ProviderInput[];
+	create: (options: ProviderAgentOptions) => AIAgent;
+}
+
+const providers = new Map<string, ProviderDefinition>();
+
+/**
+ * Register an AI provider
+ * @param definition - Provider definition
+ * @throws Error if a provider with the same id is already registered
+ */
+export const registerProvider = (definition: ProviderDefinition): void => {
+	if (providers.has(definition.id)) {
+		throw new Error(`AI provider already registered: ${definition.id}`);
+	}
+	providers.set(definition.id, definition);
+};
+
+/**
+ * Get a registered AI provider
+ * @param id - Provider id
+ * @returns Provider definition
+ * @throws Error if the provider is not registered
+ */
+export const getProvider = (id: string): ProviderDefinition => {
+	const definition = providers.get(id);
+	if (!definition) {
+		throw new Error(`Unsupported AI provider: ${id}`);
+	}
+	return definition;
+};
+
+/**
+ * Check whether an AI provider is registered
+ * @param id - Provider id
+ */
+export const hasProvider = (id: string): boolean => providers.has(id);
+
+/**
+ * Get the ids of all registered AI providers, in registration order
+ */
+export const getSupportedProviders = (): string[] => [...providers.keys()];
+
+/**
+ * Get all inputs consumed by a provider
+ * @param definition - Provider definition
+ */
+export const getProviderInputs = (
+	definition: ProviderDefinition,
+): ProviderInput[] => [
+	definition.apiKeyInput,
+	definition.modelInput,
+	...(definition.extraInputs ?? []),
+];
+
+/**
+ * Render the provider section of action.yml from the registry
+ * @returns YAML for the ai_provider input and every provider input
+ */
+export const renderActionInputs = (): string => {
+	const ids = getSupportedProviders();
+	const providerList =
+		ids.length > 1
+			? `${ids.slice(0, -1).join(", ")} or ${ids[ids.length - 1]}`
+			: ids.join("");
+
+	const renderInput = (input: ProviderInput): string => {
+		let yaml = `  ${input.name}:\n    description: '${input.description.replace(/'/g, "''")}'\n    required: ${input.required}\n`;
+		if (input.default !== undefined) {
+			yaml += `    default: '${input.default}'\n`;
+		}
+		return yaml;
+	};
+
+	let yaml = renderInput({
+		name: "ai_provider",
+		description: `AI provider to use (${providerList})`,
+		required: true,
+		default: ids[0],
+	});
+	for (const definition of providers.values()) {
+		for (const input of getProviderInputs(definition)) {
+			// Inputs are always optional in action.yml because only the selected
+			// provider's inputs are needed
+			yaml += renderInput({ ...input, required: false });
+		}
+	}
+	return yaml;
+};
@@ -0,0 +1,17 @@
+/**
+ * Loads every built-in AI provider so it registers itself with the provider
+ * registry. To add a provider, create an agent module that calls
+ * registerProvider() and import it here.
+ */
+import "./anthropic-agent";
+import "./google-agent";
+import "./openai-agent";
+import "./openai-compatible-agent";
+
+export {
+	getProvider,
+	getProviderInputs,
+	getSupportedProviders,
+	hasProvider,
+	renderActionInputs,
+} from "./provider-registry";
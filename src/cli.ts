@@ -0,0 +1,115 @@
+#!/usr/bin/env bun
+import * as fs from "node:fs";
+import { parseArgs } from "node:util";
+import * as core from "@actions/core";
+import { getSupportedProviders } from "./ai/providers";
+import { runLocalReview } from "./local/local-review";
+
+const USAGE = `Usage: lcg review --base <ref> [options]
+
+Reviews the changes of the current branch before they are pushed.
+
+Options:
+  --base <ref>                 Branch or commit to compare with (required)
+  --head <ref>                 Branch or commit with the changes (default: the working tree)
+  --provider <id>              AI provider: ${getSupportedProviders().join(", ")} (default: anthropic)
+  --model <name>               Model name (default: the provider's model variable or default model)
+  --output <file>              Write the findings and summary to a file instead of the terminal
+  --include-extensions <list>  File extensions to include (comma-separated)
+  --exclude-extensions <list>  File extensions to exclude (comma-separated)
+  --include-paths <list>       Paths to include (comma-separated)
+  --exclude-paths <list>       Paths to exclude (comma-separated)
+  --max-tokens <n>             Maximum number of tokens to spend on the review
+  --max-cost-usd <n>           Maximum estimated cost in US dollars
+  --no-verify                  Do not verify findings with a second prompt
+  --help                       Show this help
+
+The API key and provider settings are read from environment variables named
+after the action inputs, e.g. ANTHROPIC_API_KEY or API_BASE_URL.`;
+
+/**
+ * Parse an optional positive number option
+ */
+const parseNumberOption = (
+	name: string,
+	value?: string,
+): number | undefined => {
+	if (value === undefined) return undefined;
+	const number = Number(value);
+	if (!Number.isFinite(number) || number <= 0) {
+		throw new Error(`--${name} must be a positive number`);
+	}
+	return number;
+};
+
+/**
+ * Main function of the command line interface
+ */
+const main = async (): Promise<void> => {
+	const { values, positionals } = parseArgs({
+		args: process.argv.slice(2),
+		allowPositionals: true,
+		options: {
+			base: { type: "string" },
+			head: { type: "string" },
+			provider: { type: "string", default: "anthropic" },
+			model: { type: "string" },
+			output: { type: "string" },
+			"include-extensions": { type: "string" },
+			"exclude-extensions": { type: "string" },
+			"include-paths": { type: "string" },
+			"exclude-paths": { type: "string" },
+			"max-tokens": { type: "string" },
+			"max-cost-usd": { type: "string" },
+			"no-verify": { type: "boolean", default: false },
+			help: { type: "boolean", default: false },
+		},
+	});
+
+	if (values.help) {
+		console.log(USAGE);
+		return;
+	}
+	if (positionals[0] !== "review" || !values.base) {
+		console.error(USAGE);
+		process.exitCode = 1;
+		return;
+	}
+
+	// Findings go to the output file if one is given, otherwise to the terminal
+	const output = values.output;
+	if (output) fs.writeFileSync(output, "");
+	const write = (text: string): void => {
+		if (output) fs.appendFileSync(output, text);
+		else process.stdout.write(text);
+	};
+
+	await runLocalReview({
+		base: values.base,
+		head: values.head,
+		provider: values.provider,
+		model: values.model,
+		rootDir: process.cwd(),
+		filter: {
+			includeExtensions: values["include-extensions"],
+			excludeExtensions: values["exclude-extensions"],
+			includePaths: values["include-paths"],
+			excludePaths: values["exclude-paths"],
+		},
+		verifyFindings: !values["no-verify"],
+		usageLimits: {
+			maxTokens: parseNumberOption("max-tokens", values["max-tokens"]),
+			maxCostUsd: parseNumberOption("max-cost-usd", values["max-cost-usd"]),
+		},
+		write,
+	});
+
+	if (output) core.info(`Review written to ${output}`);
+};
+
+main().catch((error) => {
+	console.error(
+		`Review failed: ${error instanceof Error ? error.message : String(error)}`,
+	);
+	process.exitCode = 1;
+});
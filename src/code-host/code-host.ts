@@ -0,0 +1,274 @@
+import { GitHubAPI } from "../github/github-api";
+import { GitLabAPI } from "../gitlab/gitlab-api";
+import {
+	CODE_HOSTS,
+	type ChangedFile,
+	type CodeHost,
+	type ComparisonStatus,
+	type ReviewEvent,
+	type ReviewFinding,
+	type ReviewSide,
+} from "../types/constants";
+import type { RetryPolicy } from "../utils/retry";
+
+/**
+ * Commits of a pull request (a merge request on GitLab)
+ */
+export interface PullRequestRefs {
+	base: { sha: string };
+	head: { sha: string };
+}
+
+/**
+ * Comment on the conversation of a pull request
+ */
+export interface PullRequestComment {
+	// Only set for comments that can be updated, not for review bodies
+	id?: number;
+	// Login of the user who posted the comment
+	author?: string;
+	body?: string | null;
+	created_at?: string;
+	updated_at?: string;
+}
+
+/**
+ * Commit of a pull request
+ */
+export interface PullRequestCommit {
+	sha: string;
+	message: string;
+	// Date the commit was authored, which is kept when it is rebased
+	authorDate?: string;
+}
+
+/**
+ * API of the code host hosting the pull request under review. Repositories
+ * are identified by owner and name; on GitLab the owner is the group path.
+ */
+export interface CodeHostAPI {
+	/**
+	 * Gets the login of the user the code host token belongs to
+	 * @returns The login of the user
+	 */
+	getAuthenticatedUser(): Promise<string>;
+
+	/**
+	 * Retrieves a pull request
+	 * @param owner - The repository owner
+	 * @param repo - The repository name
+	 * @param prNumber - The pull request number
+	 * @returns The base and head commits of the pull request
+	 */
+	getPullRequest(
+		owner: string,
+		repo: string,
+		prNumber: number,
+	): Promise<PullRequestRefs>;
+
+	/**
+	 * Lists all comments on the conversation of a pull request, including the
+	 * bodies of submitted reviews, least recently updated first
+	 * @param owner - The repository owner
+	 * @param repo - The repository name
+	 * @param prNumber - The pull request number
+	 * @returns The list of all comments
+	 */
+	listPRComments(
+		owner: string,
+		repo: string,
+		prNumber: number,
+	): Promise<PullRequestComment[]>;
+
+	/**
+	 * Lists all commits of a pull request
+	 * @param owner - The repository owner
+	 * @param repo - The repository name
+	 * @param prNumber - The pull request number
+	 * @returns The list of all commits, oldest first
+	 */
+	listPRCommits(
+		owner: string,
+		repo: string,
+		prNumber: number,
+	): Promise<PullRequestCommit[]>;
+
+	/**
+	 * Retrieves a commit, which need not be part of any branch
+	 * @param owner - The repository owner
+	 * @param repo - The repository name
+	 * @param sha - The commit SHA
+	 * @returns The commit
+	 */
+	getCommit(
+		owner: string,
+		repo: string,
+		sha: string,
+	): Promise<PullRequestCommit>;
+
+	/**
+	 * Gets changed files between two commits
+	 * @param owner - The repository owner
+	 * @param repo - The repository name
+	 * @param baseCommit - The base commit SHA
+	 * @param headCommit - The head commit SHA
+	 * @returns The list of changed files
+	 */
+	getFilesBetweenCommits(
+		owner: string,
+		repo: string,
+		baseCommit: string,
+		headCommit: string,
+	): Promise<ChangedFile[]>;
+
+	/**
+	 * Compares two commits
+	 * @param owner - The repository owner
+	 * @param repo - The repository name
+	 * @param baseCommit - The base commit SHA
+	 * @param headCommit - The head commit SHA
+	 * @returns Whether the head commit is ahead of, behind, identical to or
+	 * diverged from the base commit
+	 */
+	getComparisonStatus(
+		owner: string,
+		repo: string,
+		baseCommit: string,
+		headCommit: string,
+	): Promise<ComparisonStatus>;
+
+	/**
+	 * Finds the merge base of two commits, the commit a pull request's diff is
+	 * shown against
+	 * @param owner - The repository owner
+	 * @param repo - The repository name
+	 * @param baseCommit - The base commit SHA
+	 * @param headCommit - The head commit SHA
+	 * @returns The SHA of the merge base
+	 */
+	getMergeBase(
+		owner: string,
+		repo: string,
+		baseCommit: string,
+		headCommit: string,
+	): Promise<string>;
+
+	/**
+	 * Retrieves the content of a file
+	 * @param owner - The repository owner
+	 * @param repo - The repository name
+	 * @param baseRef - The reference to the old file version, read if the file
+	 * does not exist in the new version
+	 * @param actualRef - The reference to the new file version
+	 * @param filePath - The file path
+	 * @returns The file content, or a placeholder if it is unavailable
+	 */
+	getContent(
+		owner: string,
+		repo: string,
+		baseRef: string,
+		actualRef: string,
+		filePath: string,
+	): Promise<string>;
+
+	/**
+	 * Creates a comment on the conversation of a pull request
+	 * @param owner - The repository owner
+	 * @param repo - The repository name
+	 * @param prNumber - The pull request number
+	 * @param body - The comment body
+	 */
+	createPRComment(
+		owner: string,
+		repo: string,
+		prNumber: number,
+		body: string,
+	): Promise<void>;
+
+	/**
+	 * Updates a comment on the conversation of a pull request
+	 * @param owner - The repository owner
+	 * @param repo - The repository name
+	 * @param prNumber - The pull request number
+	 * @param commentId - The ID of the comment
+	 * @param body - The new comment body
+	 */
+	updatePRComment(
+		owner: string,
+		repo: string,
+		prNumber: number,
+		commentId: number,
+		body: string,
+	): Promise<void>;
+
+	/**
+	 * Creates a review comment on lines of a file of a pull request
+	 * @param owner - The repository owner
+	 * @param repo - The repository name
+	 * @param prNumber - The pull request number
+	 * @param commitId - The head commit SHA
+	 * @param body - The comment body
+	 * @param path - The path of the file
+	 * @param side - The side of the diff the lines are on
+	 * @param startLine - The start line number
+	 * @param line - The end line number
+	 */
+	createReviewComment(
+		owner: string,
+		repo: string,
+		prNumber: number,
+		commitId: string,
+		body: string,
+		path: string,
+		side: ReviewSide,
+		startLine: number,
+		line: number,
+	): Promise<void>;
+
+	/**
+	 * Submits a review of a pull request with all its inline comments at once,
+	 * so that subscribers are notified once. Comments whose position is
+	 * rejected are posted on their own.
+	 * @param owner - The repository owner
+	 * @param repo - The repository name
+	 * @param prNumber - The pull request number
+	 * @param commitId - The head commit SHA
+	 * @param body - The review body
+	 * @param comments - The inline comments of the review
+	 * @param event - The review event, COMMENT by default
+	 * @returns The inline comments that could not be posted
+	 */
+	createReview(
+		owner: string,
+		repo: string,
+		prNumber: number,
+		commitId: string,
+		body: string,
+		comments: ReviewFinding[],
+		event?: ReviewEvent,
+	): Promise<ReviewFinding[]>;
+}
+
+/**
+ * Settings for connecting to a code host
+ */
+export interface CodeHostOptions {
+	token: string;
+	retryPolicy: RetryPolicy;
+	/** Base URL of the GitLab instance */
+	gitlabUrl: string;
+}
+
+/**
+ * Create the API client of a code host
+ * @param host - Code host
+ * @param options - Connection settings
+ * @returns Code host API client
+ */
+export const createCodeHostAPI = (
+	host: CodeHost,
+	{ token, retryPolicy, gitlabUrl }: CodeHostOptions,
+): CodeHostAPI =>
+	host === CODE_HOSTS.GITLAB
+		? new GitLabAPI(token, gitlabUrl, retryPolicy)
+		: new GitHubAPI(token, retryPolicy);
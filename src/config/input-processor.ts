@@ -1,47 +1,228 @@
 import * as core from "@actions/core";
 import { z } from "zod";
 import type { AIAgent } from "../ai/ai-agent";
-import { AnthropicAgent } from "../ai/anthropic-agent";
-import { GoogleAgent } from "../ai/google-agent";
-import { GitHubAPI } from "../github/github-api";
 import {
-	type AIProvider,
-	AI_REVIEW_COMMENT_PREFIX,
+	getProvider,
+	getSupportedProviders,
+	hasProvider,
+} from "../ai/providers";
+import {
+	type CodeHostAPI,
+	type PullRequestCommit,
+	createCodeHostAPI,
+} from "../code-host/code-host";
+import {
+	type ConsensusAgent,
+	createFindingCollector,
+} from "../review/consensus";
+import { PublishLedger } from "../review/publish-ledger";
+import { ReviewProgress } from "../review/review-progress";
+import {
+	type ReviewState,
+	findRebasedCommit,
+	getConfigHash,
+	parseReviewState,
+} from "../review/review-state";
+import {
+	CODE_HOSTS,
+	COMPARISON_STATUSES,
+	CONCLUSION_POLICIES,
 	type ChangedFile,
+	type CodeHost,
+	type ConclusionPolicy,
 	type FileCommentator,
 	type FileContentGetter,
+	type FindingDetails,
+	REVIEW_MODES,
+	type ReviewFinding,
+	type ReviewMode,
 	type ReviewSide,
-	SUMMARY_SEPARATOR,
-	SUPPORTED_PROVIDERS,
+	SEVERITIES,
+	SKIP_REASONS,
+	SUMMARY_COMMENT_MODES,
+	type Severity,
+	type SummaryCommentMode,
+	VERDICT_MODES,
+	type VerdictMode,
 } from "../types/constants";
+import { filterChangedFiles } from "../utils/file-filter";
+import { DEFAULT_RETRY_POLICY, type RetryPolicy } from "../utils/retry";
+import { UsageTracker } from "../utils/usage";
 
 /**
- * Schema for GitHub Action inputs
+ * Schema fields describing the AI provider used for a review
  */
-const ActionInputSchema = z.object({
-	repo: z.string().min(1, "Repository name is required"),
-	owner: z.string().min(1, "Owner name is required"),
-	pr_number: z.coerce
-		.number()
-		.int()
-		.positive("Pull request number must be a valid positive number"),
-	ai_provider: z.enum(["anthropic", "google"], {
-		errorMap: () => ({
-			message: `AI provider must be one of: ${SUPPORTED_PROVIDERS.join(", ")}`,
-		}),
-	}),
-	api_key: z.string().min(1, "API key is required"),
+const ProviderConfigShape = {
+	ai_provider: z.string().refine(hasProvider, () => ({
+		message: `AI provider must be one of: ${getSupportedProviders().join(", ")}`,
+	})),
+	api_key: z.string(),
 	model: z.string().min(1, "Model name is required"),
-	fail_action_if_review_failed: z.boolean().default(false),
-	include_extensions: z.string().optional(),
-	exclude_extensions: z.string().optional(),
-	include_paths: z.string().optional(),
-	exclude_paths: z.string().optional(),
-	token: z.string().optional(),
-});
+	provider_settings: z.record(z.string()).default({}),
+};
+
+type ProviderConfig = z.infer<z.ZodObject<typeof ProviderConfigShape>>;
+
+/**
+ * Validate the provider-specific inputs declared in the provider registry
+ * @param config - Provider configuration
+ * @param ctx - Zod refinement context
+ * @param path - Path of the configuration in the inputs
+ */
+const refineProviderConfig = (
+	config: ProviderConfig,
+	ctx: z.RefinementCtx,
+	path: (string | number)[],
+): void => {
+	if (!hasProvider(config.ai_provider)) return;
+	const provider = getProvider(config.ai_provider);
+
+	if (provider.apiKeyInput.required && !config.api_key) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			path: [...path, "api_key"],
+			message: `API key is required (${provider.apiKeyInput.name})`,
+		});
+	}
+
+	for (const input of provider.extraInputs ?? []) {
+		const value = config.provider_settings[input.name];
+		if (!value) {
+			if (input.required) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: [...path, "provider_settings", input.name],
+					message: `${input.name} is required for the ${provider.id} provider`,
+				});
+			}
+			continue;
+		}
+
+		const result = input.schema?.safeParse(value);
+		if (result && !result.success) {
+			for (const issue of result.error.issues) {
+				ctx.addIssue({
+					...issue,
+					path: [...path, "provider_settings", input.name],
+				});
+			}
+		}
+	}
+};
+
+/**
+ * Schema for GitHub Action inputs
+ */
+const ActionInputSchema = z
+	.object({
+		repo: z.string().min(1, "Repository name is required"),
+		owner: z.string().min(1, "Owner name is required"),
+		pr_number: z.coerce
+			.number()
+			.int()
+			.positive("Pull request number must be a valid positive number"),
+		...ProviderConfigShape,
+		fallback_providers: z.array(z.object(ProviderConfigShape)).default([]),
+		review_mode: z
+			.enum([REVIEW_MODES.SINGLE, REVIEW_MODES.CONSENSUS])
+			.default(REVIEW_MODES.SINGLE),
+		consensus_providers: z.array(z.object(ProviderConfigShape)).default([]),
+		consensus_min_agreement: z.coerce
+			.number()
+			.int()
+			.min(2, "Consensus minimum agreement must be at least 2")
+			.default(2),
+		verify_findings: z.boolean().default(false),
+		review_event: z
+			.enum([
+				VERDICT_MODES.COMMENT,
+				VERDICT_MODES.REQUEST_CHANGES,
+				VERDICT_MODES.APPROVE,
+			])
+			.default(VERDICT_MODES.COMMENT),
+		request_changes_on: z
+			.enum([SEVERITIES.LOW, SEVERITIES.MEDIUM, SEVERITIES.HIGH])
+			.default(SEVERITIES.HIGH),
+		conclusion_policy: z
+			.enum([
+				CONCLUSION_POLICIES.NEUTRAL,
+				CONCLUSION_POLICIES.FAIL_ON_HIGH,
+				CONCLUSION_POLICIES.FAIL_ON_MEDIUM,
+				CONCLUSION_POLICIES.FAIL_ON_ANY,
+			])
+			.default(CONCLUSION_POLICIES.NEUTRAL),
+		fail_action_if_review_failed: z.boolean().default(false),
+		max_retries: z.coerce
+			.number()
+			.int()
+			.nonnegative("Max retries must be zero or a positive number")
+			.default(DEFAULT_RETRY_POLICY.maxRetries),
+		retry_initial_backoff_ms: z.coerce
+			.number()
+			.int()
+			.positive("Initial retry backoff must be a positive number")
+			.default(DEFAULT_RETRY_POLICY.initialBackoffMs),
+		retry_max_backoff_ms: z.coerce
+			.number()
+			.int()
+			.positive("Maximum retry backoff must be a positive number")
+			.default(DEFAULT_RETRY_POLICY.maxBackoffMs),
+		max_tokens: z.coerce
+			.number()
+			.int()
+			.positive("Max tokens must be a positive number")
+			.optional(),
+		max_cost_usd: z.coerce
+			.number()
+			.positive("Max cost must be a positive number")
+			.optional(),
+		include_extensions: z.string().optional(),
+		exclude_extensions: z.string().optional(),
+		include_paths: z.string().optional(),
+		exclude_paths: z.string().optional(),
+		token: z.string().optional(),
+		code_host: z
+			.enum([CODE_HOSTS.GITHUB, CODE_HOSTS.GITLAB])
+			.default(CODE_HOSTS.GITHUB),
+		gitlab_url: z
+			.string()
+			.url("GitLab URL must be a valid URL")
+			.default("https://gitlab.com"),
+		sarif_output: z.string().optional(),
+		summary_comment: z
+			.enum([SUMMARY_COMMENT_MODES.UPDATE, SUMMARY_COMMENT_MODES.APPEND])
+			.default(SUMMARY_COMMENT_MODES.UPDATE),
+	})
+	.superRefine((inputs, ctx) => {
+		refineProviderConfig(inputs, ctx, []);
+		inputs.fallback_providers.forEach((fallback, index) => {
+			refineProviderConfig(fallback, ctx, ["fallback_providers", index]);
+		});
+
+		if (inputs.review_mode !== REVIEW_MODES.CONSENSUS) return;
+		inputs.consensus_providers.forEach((provider, index) => {
+			refineProviderConfig(provider, ctx, ["consensus_providers", index]);
+		});
+		const agentCount = inputs.consensus_providers.length + 1;
+		if (agentCount < inputs.consensus_min_agreement) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["consensus_providers"],
+				message: `Consensus mode needs at least ${inputs.consensus_min_agreement} agents (the primary provider and ${inputs.consensus_min_agreement - 1} consensus providers)`,
+			});
+		}
+	});
 
 type ActionInputs = z.infer<typeof ActionInputSchema>;
 
+/**
+ * AI agent together with a human-readable label of its provider and model
+ */
+export interface ReviewAgent {
+	label: string;
+	agent: AIAgent;
+}
+
 /**
  * Processes inputs from GitHub Actions and prepares for code review
  */
@@ -49,17 +230,43 @@ export class InputProcessor {
 	private repo: string;
 	private owner: string;
 	private pullNumber: number;
-	private githubToken: string;
-	private aiProvider: AIProvider;
+	private codeHost: CodeHost;
+	private codeHostToken: string;
+	private aiProvider: string;
 	private apiKey: string;
 	private model: string;
+	private providerSettings: Record<string, string>;
+	private fallbackProviders: ProviderConfig[];
+	private reviewMode: ReviewMode;
+	private consensusProviders: ProviderConfig[];
+	private consensusMinAgreement: number;
+	private verifyFindings: boolean;
+	private verdictMode: VerdictMode;
+	private requestChangesOn: Severity;
+	private conclusionPolicy: ConclusionPolicy;
+	private sarifOutput?: string;
+	// Hash of the settings recorded with the review state
+	private configHash: string;
+	private reviewScopeNote = "";
+	private summaryCommentMode: SummaryCommentMode;
 	private failAction: boolean;
-	private githubAPI: GitHubAPI;
+	private retryPolicy: RetryPolicy;
+	private usageTracker: UsageTracker;
+	private publishLedger = new PublishLedger();
+	private reviewProgress = new ReviewProgress();
+	// Settings as logged at startup, as name and value
+	private configuration: Array<[name: string, value: string]>;
+	private maxTokens?: number;
+	private maxCostUsd?: number;
+	private codeHostAPI: CodeHostAPI;
 	private baseCommit?: string;
+	private mergeBaseCommit?: string;
 	private headCommit?: string;
 	private filteredDiffs: ChangedFile[] = [];
 	private fileContentGetter?: FileContentGetter;
 	private fileCommentator?: FileCommentator;
+	// Review comments submitted together with the summary as one review
+	private pendingComments: ReviewFinding[] = [];
 	private includeExtensions?: string;
 	private excludeExtensions?: string;
 	private includePaths?: string;
@@ -74,12 +281,27 @@ export class InputProcessor {
 		this.owner = inputs.owner;
 		this.pullNumber = inputs.pr_number;
 
-		// Get GitHub token from inputs or environment
+		this.codeHost = inputs.code_host;
+
+		// Get the code host token from inputs or environment
 		// GitHub Actions provides the token as secrets.GITHUB_TOKEN or github.token
-		this.githubToken =
-			inputs.token || process.env.GITHUB_TOKEN || process.env.INPUT_TOKEN || "";
+		this.codeHostToken =
+			this.codeHost === CODE_HOSTS.GITLAB
+				? inputs.token || process.env.GITLAB_TOKEN || ""
+				: inputs.token ||
+					process.env.GITHUB_TOKEN ||
+					process.env.INPUT_TOKEN ||
+					"";
 
-		if (!this.githubToken) {
+		if (this.codeHost === CODE_HOSTS.GITLAB) {
+			if (!this.codeHostToken) {
+				core.warning(
+					"GitLab token not found. Pass a token with the api scope as the token input or the GITLAB_TOKEN variable.",
+				);
+			} else {
+				core.info("GitLab token found.");
+			}
+		} else if (!this.codeHostToken) {
 			core.warning("GitHub token not found. Using empty token.");
 			core.warning(
 				"Make sure to pass the token as an input: token: ${{ secrets.GITHUB_TOKEN }}",
@@ -95,32 +317,116 @@ export class InputProcessor {
 		this.aiProvider = inputs.ai_provider;
 		this.apiKey = inputs.api_key;
 		this.model = inputs.model;
+		this.providerSettings = inputs.provider_settings;
+		this.fallbackProviders = inputs.fallback_providers;
+		this.reviewMode = inputs.review_mode;
+		this.consensusProviders = inputs.consensus_providers;
+		this.consensusMinAgreement = inputs.consensus_min_agreement;
+		this.verifyFindings = inputs.verify_findings;
+		this.verdictMode = inputs.review_event;
+		this.requestChangesOn = inputs.request_changes_on;
+		this.conclusionPolicy = inputs.conclusion_policy;
+		this.sarifOutput = inputs.sarif_output;
+		this.summaryCommentMode = inputs.summary_comment;
 		this.failAction = inputs.fail_action_if_review_failed;
+		this.retryPolicy = {
+			maxRetries: inputs.max_retries,
+			initialBackoffMs: inputs.retry_initial_backoff_ms,
+			maxBackoffMs: inputs.retry_max_backoff_ms,
+		};
+		this.maxTokens = inputs.max_tokens;
+		this.maxCostUsd = inputs.max_cost_usd;
+		this.usageTracker = new UsageTracker({
+			maxTokens: this.maxTokens,
+			maxCostUsd: this.maxCostUsd,
+		});
 		this.includeExtensions = inputs.include_extensions;
 		this.excludeExtensions = inputs.exclude_extensions;
 		this.includePaths = inputs.include_paths;
 		this.excludePaths = inputs.exclude_paths;
-		this.githubAPI = new GitHubAPI(this.githubToken);
-
-		// Log configuration
-		core.info("Configuration:");
-		core.info(`- Repository: ${this.owner}/${this.repo}`);
-		core.info(`- Pull Request: #${this.pullNumber}`);
-		core.info(`- AI Provider: ${this.aiProvider}`);
-		core.info(`- AI Model: ${this.model}`);
-		core.info(`- Fail on Review Error: ${this.failAction}`);
+		this.codeHostAPI = createCodeHostAPI(this.codeHost, {
+			token: this.codeHostToken,
+			retryPolicy: this.retryPolicy,
+			gitlabUrl: inputs.gitlab_url,
+		});
 
-		if (!this.includeExtensions) core.info("- Include Extensions: [all]");
-		else core.info(`- Include Extensions: ${this.includeExtensions}`);
+		// Settings that decide which files are reviewed and how; an incremental
+		// review is only done if they did not change since the previous review
+		this.configHash = getConfigHash({
+			providers: [this.primaryProviderConfig, ...this.consensusProviders].map(
+				(provider) => `${provider.ai_provider}:${provider.model}`,
+			),
+			reviewMode: this.reviewMode,
+			verifyFindings: this.verifyFindings,
+			includeExtensions: this.includeExtensions,
+			excludeExtensions: this.excludeExtensions,
+			includePaths: this.includePaths,
+			excludePaths: this.excludePaths,
+		});
 
-		if (!this.excludeExtensions) core.info("- Exclude Extensions: [none]");
-		else core.info(`- Exclude Extensions: ${this.excludeExtensions}`);
-
-		if (!this.includePaths) core.info("- Include Paths: [all]");
-		else core.info(`- Include Paths: ${this.includePaths}`);
+		// Log configuration, it is also shown in the job summary
+		this.configuration = [
+			[
+				"Code Host",
+				`${this.codeHost}${this.codeHost === CODE_HOSTS.GITLAB ? ` (${inputs.gitlab_url})` : ""}`,
+			],
+			["Repository", `${this.owner}/${this.repo}`],
+			["Pull Request", `#${this.pullNumber}`],
+			["AI Provider", this.aiProvider],
+			["AI Model", this.model],
+			...Object.entries(this.providerSettings),
+			[
+				"Fallback Providers",
+				this.fallbackProviders.length === 0
+					? "[none]"
+					: this.fallbackProviders
+							.map((fallback) => `${fallback.ai_provider}:${fallback.model}`)
+							.join(", "),
+			],
+			["Review Mode", this.reviewMode],
+		];
+		if (this.reviewMode === REVIEW_MODES.CONSENSUS)
+			this.configuration.push([
+				"Consensus Providers",
+				`${this.consensusProviders.map((provider) => `${provider.ai_provider}:${provider.model}`).join(", ")} (minimum agreement: ${this.consensusMinAgreement})`,
+			]);
+		this.configuration.push(
+			["Verify Findings", String(this.verifyFindings)],
+			[
+				"Review Event",
+				this.verdictMode === VERDICT_MODES.COMMENT
+					? this.verdictMode
+					: `${this.verdictMode} (request changes on ${this.requestChangesOn} severity)`,
+			],
+		);
+		if (this.codeHost === CODE_HOSTS.GITHUB)
+			this.configuration.push([
+				"Check Run Conclusion Policy",
+				this.conclusionPolicy,
+			]);
+		this.configuration.push(
+			["SARIF Output", this.sarifOutput ?? "[none]"],
+			["Summary Comment", this.summaryCommentMode],
+			["Fail on Review Error", String(this.failAction)],
+			["Max Tokens", String(this.maxTokens ?? "[unlimited]")],
+			[
+				"Max Cost",
+				this.maxCostUsd !== undefined ? `$${this.maxCostUsd}` : "[unlimited]",
+			],
+			[
+				"Retries",
+				`${this.retryPolicy.maxRetries} (backoff ${this.retryPolicy.initialBackoffMs}ms to ${this.retryPolicy.maxBackoffMs}ms)`,
+			],
+			["Include Extensions", this.includeExtensions || "[all]"],
+			["Exclude Extensions", this.excludeExtensions || "[none]"],
+			["Include Paths", this.includePaths || "[all]"],
+			["Exclude Paths", this.excludePaths || "[none]"],
+		);
 
-		if (!this.excludePaths) core.info("- Exclude Paths: [none]");
-		else core.info(`- Exclude Paths: ${this.excludePaths}`);
+		core.info("Configuration:");
+		for (const [name, value] of this.configuration) {
+			core.info(`- ${name}: ${value}`);
+		}
 	}
 
 	/**
@@ -143,10 +449,57 @@ export class InputProcessor {
 				}),
 				api_key: "",
 				model: "",
+				provider_settings: {} as Record<string, string>,
+				fallback_providers: [] as ProviderConfig[],
+				review_mode: core.getInput("review_mode", {
+					required: false,
+					trimWhitespace: true,
+				}),
+				consensus_providers: [] as ProviderConfig[],
+				consensus_min_agreement: core.getInput("consensus_min_agreement", {
+					required: false,
+					trimWhitespace: true,
+				}),
+				verify_findings: core.getInput("verify_findings", {
+					required: false,
+					trimWhitespace: true,
+				}),
+				review_event: core.getInput("review_event", {
+					required: false,
+					trimWhitespace: true,
+				}),
+				request_changes_on: core.getInput("request_changes_on", {
+					required: false,
+					trimWhitespace: true,
+				}),
+				conclusion_policy: core.getInput("conclusion_policy", {
+					required: false,
+					trimWhitespace: true,
+				}),
 				fail_action_if_review_failed: core.getInput(
 					"fail_action_if_review_failed",
 					{ required: false, trimWhitespace: true },
 				),
+				max_retries: core.getInput("max_retries", {
+					required: false,
+					trimWhitespace: true,
+				}),
+				retry_initial_backoff_ms: core.getInput("retry_initial_backoff_ms", {
+					required: false,
+					trimWhitespace: true,
+				}),
+				retry_max_backoff_ms: core.getInput("retry_max_backoff_ms", {
+					required: false,
+					trimWhitespace: true,
+				}),
+				max_tokens: core.getInput("max_tokens", {
+					required: false,
+					trimWhitespace: true,
+				}),
+				max_cost_usd: core.getInput("max_cost_usd", {
+					required: false,
+					trimWhitespace: true,
+				}),
 				include_extensions: core.getInput("include_extensions", {
 					required: false,
 				}),
@@ -156,26 +509,64 @@ export class InputProcessor {
 				include_paths: core.getInput("include_paths", { required: false }),
 				exclude_paths: core.getInput("exclude_paths", { required: false }),
 				token: core.getInput("token", { required: false }),
-			};
-
-			// Get provider-specific inputs
-			const providerId = rawInputs.ai_provider;
-			if (SUPPORTED_PROVIDERS.includes(providerId as AIProvider)) {
-				rawInputs.api_key = core.getInput(`${providerId}_api_key`, {
-					required: true,
+				code_host: core.getInput("code_host", {
+					required: false,
 					trimWhitespace: true,
-				});
-				rawInputs.model = core.getInput(`${providerId}_model`, {
-					required: true,
+				}),
+				gitlab_url: core.getInput("gitlab_url", {
+					required: false,
 					trimWhitespace: true,
-				});
-			}
+				}),
+				sarif_output: core.getInput("sarif_output", {
+					required: false,
+					trimWhitespace: true,
+				}),
+				summary_comment: core.getInput("summary_comment", {
+					required: false,
+					trimWhitespace: true,
+				}),
+			};
+
+			// Get provider-specific inputs as declared in the provider registry
+			Object.assign(
+				rawInputs,
+				InputProcessor.readProviderInputs(rawInputs.ai_provider, true),
+			);
+
+			// Get fallback and consensus providers in the "provider:model" format
+			rawInputs.fallback_providers =
+				InputProcessor.readProviderList("fallback_providers");
+			rawInputs.consensus_providers = InputProcessor.readProviderList(
+				"consensus_providers",
+			);
 
 			// Validate and transform inputs using Zod schema
 			const result = ActionInputSchema.safeParse({
 				...rawInputs,
+				// Verification is off unless explicitly enabled
+				verify_findings: rawInputs.verify_findings.toLowerCase() === "true",
 				fail_action_if_review_failed:
 					rawInputs.fail_action_if_review_failed.toLowerCase() === "true",
+				// Empty inputs fall back to the default retry policy
+				max_retries: rawInputs.max_retries || undefined,
+				retry_initial_backoff_ms:
+					rawInputs.retry_initial_backoff_ms || undefined,
+				retry_max_backoff_ms: rawInputs.retry_max_backoff_ms || undefined,
+				max_tokens: rawInputs.max_tokens || undefined,
+				max_cost_usd: rawInputs.max_cost_usd || undefined,
+				review_mode: rawInputs.review_mode || undefined,
+				review_event: rawInputs.review_event.toLowerCase() || undefined,
+				request_changes_on:
+					rawInputs.request_changes_on.toLowerCase() || undefined,
+				conclusion_policy:
+					rawInputs.conclusion_policy.toLowerCase() || undefined,
+				sarif_output: rawInputs.sarif_output || undefined,
+				summary_comment: rawInputs.summary_comment.toLowerCase() || undefined,
+				code_host: rawInputs.code_host || undefined,
+				// GitLab CI provides the instance URL as CI_SERVER_URL
+				gitlab_url:
+					rawInputs.gitlab_url || process.env.CI_SERVER_URL || undefined,
+				consensus_min_agreement: rawInputs.consensus_min_agreement || undefined,
 			});
 
 			if (!result.success) {
@@ -194,24 +585,91 @@ export class InputProcessor {
 		}
 	}
 
+	/**
+	 * Read a comma-separated list of providers in the "provider:model" format
+	 * @param inputName - Name of the input holding the list
+	 * @returns Raw provider configurations (validated later by the schema)
+	 */
+	private static readProviderList(inputName: string): ProviderConfig[] {
+		return core
+			.getInput(inputName, { required: false })
+			.split(",")
+			.map((entry) => entry.trim())
+			.filter(Boolean)
+			.map((entry) => {
+				const [providerId, ...modelParts] = entry.split(":");
+				const config = InputProcessor.readProviderInputs(
+					providerId.trim(),
+					false,
+				);
+				const model = modelParts.join(":").trim();
+				return model ? { ...config, model } : config;
+			});
+	}
+
+	/**
+	 * Read the inputs of a provider as declared in the provider registry
+	 * @param providerId - Provider id
+	 * @param isPrimary - Whether this is the provider selected with ai_provider
+	 * @returns Raw provider configuration (validated later by the schema)
+	 */
+	private static readProviderInputs(
+		providerId: string,
+		isPrimary: boolean,
+	): ProviderConfig {
+		const config: ProviderConfig = {
+			ai_provider: providerId,
+			api_key: "",
+			model: "",
+			provider_settings: {},
+		};
+		if (!hasProvider(providerId)) return config;
+
+		const provider = getProvider(providerId);
+		config.api_key = core.getInput(provider.apiKeyInput.name, {
+			// Only the primary provider fails fast; fallbacks are reported by the schema
+			required: isPrimary && provider.apiKeyInput.required,
+			trimWhitespace: true,
+		});
+		config.model =
+			core.getInput(provider.modelInput.name, {
+				required: false,
+				trimWhitespace: true,
+			}) ||
+			provider.modelInput.default ||
+			"";
+		for (const input of provider.extraInputs ?? []) {
+			const value = core.getInput(input.name, {
+				required: false,
+				trimWhitespace: true,
+			});
+			if (value) {
+				config.provider_settings[input.name] = value;
+			} else if (input.default !== undefined) {
+				config.provider_settings[input.name] = input.default;
+			}
+		}
+		return config;
+	}
+
 	/**
 	 * Process inputs from GitHub Actions and prepare for code review
 	 * @returns This instance for chaining
 	 */
 	async processInputs(): Promise<InputProcessor> {
-		await this.setupGitHubAPI();
+		await this.setupPullRequest();
 		await this.processChangedFiles();
 		this.setupReviewTools();
 		return this;
 	}
 
 	/**
-	 * Set up GitHub API client and retrieve PR data
-	 * @throws Error if GitHub information is missing
+	 * Retrieve the base and head commits of the pull request
+	 * @throws Error if the pull request information is missing
 	 */
-	private async setupGitHubAPI(): Promise<void> {
+	private async setupPullRequest(): Promise<void> {
 		try {
-			const pullRequestData = await this.githubAPI.getPullRequest(
+			const pullRequestData = await this.codeHostAPI.getPullRequest(
 				this.owner,
 				this.repo,
 				this.pullNumber,
@@ -224,60 +682,190 @@ export class InputProcessor {
 			}
 
 			this.headCommit = pullRequestData.head.sha;
-			this.baseCommit = pullRequestData.base.sha;
-
-			core.info(`Pull request base commit: ${this.baseCommit}`);
+			core.info(`Pull request base commit: ${pullRequestData.base.sha}`);
 			core.info(`Pull request head commit: ${this.headCommit}`);
+
+			// Diff against the merge base like the pull request does, so that
+			// changes on the target branch since the branch point are left out
+			try {
+				this.mergeBaseCommit = await this.codeHostAPI.getMergeBase(
+					this.owner,
+					this.repo,
+					pullRequestData.base.sha,
+					this.headCommit,
+				);
+				core.info(`Pull request merge base: ${this.mergeBaseCommit}`);
+			} catch (error) {
+				core.warning(
+					`Could not find the merge base, comparing against the base commit: ${error instanceof Error ? error.message : String(error)}`,
+				);
+				this.mergeBaseCommit = pullRequestData.base.sha;
+			}
+			this.baseCommit = this.mergeBaseCommit;
 		} catch (error) {
 			throw new Error(
-				`Error setting up GitHub API: ${error instanceof Error ? error.message : String(error)}`,
+				`Error getting pull request data: ${error instanceof Error ? error.message : String(error)}`,
 			);
 		}
 	}
 
 	/**
-	 * Process changed files to find files to review
-	 * @throws Error if GitHub API or commit information is not available
+	 * Find the last commit reviewed by an earlier run from the review state in
+	 * its summary. The state is only trusted if it was posted by the code
+	 * host token's own user, so that nobody can skip the review by posting a
+	 * state themselves, and if the review configuration is unchanged. If a
+	 * force-push or rebase removed the commit from the pull request's history,
+	 * its rewritten version is used instead.
+	 * @returns The last reviewed commit, or undefined if all files in the pull
+	 * request have to be reviewed
 	 */
-	private async processChangedFiles(): Promise<void> {
-		if (!this.baseCommit || !this.headCommit) {
-			throw new Error("GitHub API or commit information not available");
+	private async findReviewedCommit(): Promise<string | undefined> {
+		if (!this.headCommit) return undefined;
+
+		const comments = await this.codeHostAPI.listPRComments(
+			this.owner,
+			this.repo,
+			this.pullNumber,
+		);
+
+		let ownUser: string;
+		try {
+			ownUser = await this.codeHostAPI.getAuthenticatedUser();
+		} catch (error) {
+			core.warning(
+				`Could not identify the code host user, reviewing all files in PR: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			return undefined;
+		}
+
+		let state: ReviewState | undefined;
+		for (const comment of [...comments].reverse()) {
+			const commentState = parseReviewState(comment.body ?? "");
+			if (!commentState) continue;
+			if (comment.author !== ownUser) {
+				core.warning(
+					`Ignoring review state posted by ${comment.author ?? "an unknown user"} instead of ${ownUser}`,
+				);
+				continue;
+			}
+			state = commentState;
+			break;
 		}
 
+		if (!state) {
+			core.info("No previous review found, reviewing all files in PR");
+			return undefined;
+		}
+		core.info(
+			`Found previous review of ${state.baseSha.substring(0, 7)}..${state.headSha.substring(0, 7)} (action version ${state.actionVersion})`,
+		);
+
+		if (state.configHash !== this.configHash) {
+			core.info(
+				"The review configuration changed since the previous review, reviewing all files in PR",
+			);
+			this.reviewScopeNote =
+				"The review configuration changed since the last review, so all files were reviewed.";
+			return undefined;
+		}
+
+		const reviewedCommit = state.headSha.substring(0, 7);
+		let isInHistory: boolean;
+		let commits: PullRequestCommit[];
 		try {
-			const comments = await this.githubAPI.listPRComments(
+			const [status, pullRequestCommits] = await Promise.all([
+				this.codeHostAPI.getComparisonStatus(
+					this.owner,
+					this.repo,
+					state.headSha,
+					this.headCommit,
+				),
+				this.codeHostAPI.listPRCommits(this.owner, this.repo, this.pullNumber),
+			]);
+			commits = pullRequestCommits;
+			isInHistory =
+				(status === COMPARISON_STATUSES.AHEAD ||
+					status === COMPARISON_STATUSES.IDENTICAL) &&
+				commits.some((commit) => commit.sha === state.headSha);
+		} catch (error) {
+			core.warning(
+				`Could not compare the previously reviewed commit with the head commit, reviewing all files in PR: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			return undefined;
+		}
+
+		if (isInHistory) {
+			this.reviewScopeNote = `Incremental review of the commits after ${reviewedCommit}, the last reviewed commit.`;
+			return state.headSha;
+		}
+
+		// A force-push or rebase rewrote the reviewed commit, so only the commits
+		// after its rewritten version are new
+		const rebasedCommit = await this.findRewrittenCommit(
+			state.headSha,
+			commits,
+		);
+		if (!rebasedCommit) {
+			core.info(
+				`The previously reviewed commit ${reviewedCommit} is no longer part of the pull request, reviewing all files in PR`,
+			);
+			this.reviewScopeNote = `The last reviewed commit ${reviewedCommit} was rewritten by a force-push or rebase and has no counterpart in the pull request, so all files were reviewed.`;
+			return undefined;
+		}
+
+		core.info(
+			`The previously reviewed commit ${reviewedCommit} was rewritten as ${rebasedCommit.substring(0, 7)}, reviewing the commits after it`,
+		);
+		this.reviewScopeNote = `The last reviewed commit ${reviewedCommit} was rewritten by a force-push or rebase. Only the commits after its rewritten version ${rebasedCommit.substring(0, 7)} were reviewed.`;
+		return rebasedCommit;
+	}
+
+	/**
+	 * Find the version of a reviewed commit that a rebase or force-push put in
+	 * the history of the pull request
+	 * @param reviewedSha - SHA of the reviewed commit
+	 * @param commits - Commits of the pull request
+	 * @returns SHA of the rewritten commit, or undefined if there is none or the
+	 * reviewed commit is no longer available
+	 */
+	private async findRewrittenCommit(
+		reviewedSha: string,
+		commits: PullRequestCommit[],
+	): Promise<string | undefined> {
+		try {
+			const reviewedCommit = await this.codeHostAPI.getCommit(
 				this.owner,
 				this.repo,
-				this.pullNumber,
+				reviewedSha,
 			);
-			const lastReviewComment = [...comments]
-				.reverse()
-				.find((comment) => comment?.body?.startsWith(AI_REVIEW_COMMENT_PREFIX));
-
-			if (lastReviewComment?.body) {
-				core.info(
-					`Found last review comment: ${lastReviewComment.body.split("\n")[0]}`,
-				);
+			return findRebasedCommit(reviewedCommit, commits);
+		} catch (error) {
+			core.warning(
+				`Could not read the previously reviewed commit: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			return undefined;
+		}
+	}
 
-				let newBaseCommit = lastReviewComment.body
-					.split(SUMMARY_SEPARATOR)[0]
-					.replace(AI_REVIEW_COMMENT_PREFIX, "")
-					.trim();
+	/**
+	 * Process changed files to find files to review
+	 * @throws Error if code host API or commit information is not available
+	 */
+	private async processChangedFiles(): Promise<void> {
+		if (!this.baseCommit || !this.headCommit) {
+			throw new Error("Code host API or commit information not available");
+		}
 
-				if (newBaseCommit && newBaseCommit.trim() !== "") {
-					newBaseCommit = newBaseCommit.split(" ")[0];
-					core.info(
-						`New base commit ${newBaseCommit}. Incremental review will be performed`,
-					);
-					this.baseCommit = newBaseCommit;
-				}
-			} else {
+		try {
+			const reviewedCommit = await this.findReviewedCommit();
+			if (reviewedCommit) {
 				core.info(
-					"No previous review comments found, reviewing all files in PR",
+					`New base commit ${reviewedCommit}. Incremental review will be performed`,
 				);
+				this.baseCommit = reviewedCommit;
 			}
 
-			const changedFiles = await this.githubAPI.getFilesBetweenCommits(
+			const changedFiles = await this.codeHostAPI.getFilesBetweenCommits(
 				this.owner,
 				this.repo,
 				this.baseCommit || "",
@@ -292,17 +880,21 @@ export class InputProcessor {
 				);
 			}
 
-			this.filteredDiffs = this.getFilteredChangedFiles(
-				changedFiles,
-				this.includeExtensions,
-				this.excludeExtensions,
-				this.includePaths,
-				this.excludePaths,
-			);
+			this.filteredDiffs = filterChangedFiles(changedFiles, {
+				includeExtensions: this.includeExtensions,
+				excludeExtensions: this.excludeExtensions,
+				includePaths: this.includePaths,
+				excludePaths: this.excludePaths,
+			});
 
 			core.info(
 				`Found ${this.filteredDiffs.length} files to review after filtering`,
 			);
+			for (const file of changedFiles ?? []) {
+				if (!this.filteredDiffs.includes(file)) {
+					this.reviewProgress.skipFile(file.filename, SKIP_REASONS.FILTERED);
+				}
+			}
 
 			if (this.filteredDiffs.length > 0) {
 				core.info("Files to review:");
@@ -319,78 +911,13 @@ export class InputProcessor {
 		}
 	}
 
-	/**
-	 * Filter changed files based on extension and path criteria
-	 * @param changedFiles - List of changed files
-	 * @param includeExtensions - Extensions to include
-	 * @param excludeExtensions - Extensions to exclude
-	 * @param includePaths - Paths to include
-	 * @param excludePaths - Paths to exclude
-	 * @returns Filtered list of changed files
-	 */
-	private getFilteredChangedFiles(
-		changedFiles: ChangedFile[],
-		includeExtensions?: string,
-		excludeExtensions?: string,
-		includePaths?: string,
-		excludePaths?: string,
-	): ChangedFile[] {
-		const stringToArray = (inputString?: string): string[] => {
-			if (!inputString) return [];
-			return inputString
-				.split(",")
-				.map((item) => {
-					const normalized = item.trim().replace(/\\/g, "/");
-					if (normalized.startsWith(".")) {
-						return normalized;
-					}
-					return normalized.endsWith("/") ? normalized : `${normalized}/`;
-				})
-				.filter(Boolean);
-		};
-
-		const includeExtensionsArray = stringToArray(includeExtensions);
-		const excludeExtensionsArray = stringToArray(excludeExtensions);
-		const includePathsArray = stringToArray(includePaths);
-		const excludePathsArray = stringToArray(excludePaths);
-
-		const isFileToReview = (filename: string): boolean => {
-			const normalizedFilename = filename.replace(/\\/g, "/");
-
-			const hasValidExtension =
-				includeExtensionsArray.length === 0 ||
-				includeExtensionsArray.some((ext) => normalizedFilename.endsWith(ext));
-			const hasExcludedExtension =
-				excludeExtensionsArray.length > 0 &&
-				excludeExtensionsArray.some((ext) => normalizedFilename.endsWith(ext));
-
-			const isInIncludedPath =
-				includePathsArray.length === 0 ||
-				includePathsArray.some((path) => normalizedFilename.startsWith(path));
-			const isInExcludedPath =
-				excludePathsArray.length > 0 &&
-				excludePathsArray.some((path) => normalizedFilename.startsWith(path));
-
-			return (
-				hasValidExtension &&
-				!hasExcludedExtension &&
-				isInIncludedPath &&
-				!isInExcludedPath
-			);
-		};
-
-		return changedFiles.filter((file) =>
-			isFileToReview(file.filename.replace(/\\/g, "/")),
-		);
-	}
-
 	/**
 	 * Set up file content getter and commentator functions
-	 * @throws Error if GitHub API or commit information is not available
+	 * @throws Error if code host API or commit information is not available
 	 */
 	private setupReviewTools(): void {
 		if (!this.baseCommit || !this.headCommit) {
-			throw new Error("GitHub API or commit information not available");
+			throw new Error("Code host API or commit information not available");
 		}
 
 		// Set up file content getter
@@ -398,34 +925,36 @@ export class InputProcessor {
 			try {
 				core.info(`Getting content for file: ${filePath}`);
 
-				if (!this.baseCommit || !this.headCommit) {
+				if (!this.mergeBaseCommit || !this.headCommit) {
 					throw new Error("Missing commit information");
 				}
 
-				const content = await this.githubAPI.getContent(
+				// Old versions of files are read at the merge base, even when only
+				// newer commits are reviewed, so that they match the pull request's
+				// "Files changed" tab
+				const content = await this.codeHostAPI.getContent(
 					this.owner,
 					this.repo,
-					this.baseCommit,
+					this.mergeBaseCommit,
 					this.headCommit,
 					filePath,
 				);
 
+				// The code host returns a placeholder instead of failing, which must
+				// not be reviewed as if it were the file
 				if (content === "[File content unavailable]") {
-					core.warning(
-						`Could not retrieve content for ${filePath}. This may affect the quality of the review.`,
-					);
-				} else {
-					core.info(
-						`Successfully retrieved content for ${filePath} (${content.length} characters)`,
-					);
+					throw new Error(`Content of ${filePath} is unavailable`);
 				}
 
+				core.info(
+					`Successfully retrieved content for ${filePath} (${content.length} characters)`,
+				);
 				return content;
 			} catch (error) {
 				core.error(
 					`Error getting file content for ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
 				);
-				return `[Error retrieving file content: ${error instanceof Error ? error.message : String(error)}]`;
+				throw error;
 			}
 		};
 
@@ -436,6 +965,7 @@ export class InputProcessor {
 			side: ReviewSide,
 			startLineNumber: number,
 			endLineNumber: number,
+			details?: FindingDetails,
 		): Promise<void> => {
 			try {
 				core.info(
@@ -461,20 +991,17 @@ export class InputProcessor {
 					);
 				}
 
-				// Add the comment
-				await this.githubAPI.createReviewComment(
-					this.owner,
-					this.repo,
-					this.pullNumber,
-					this.headCommit,
+				// Queue the comment, it is posted with the review summary
+				this.pendingComments.push({
 					comment,
 					filePath,
 					side,
 					startLineNumber,
 					endLineNumber,
-				);
+					...details,
+				});
 
-				core.info(`Successfully added review comment to ${filePath}`);
+				core.info(`Successfully queued review comment for ${filePath}`);
 			} catch (error) {
 				core.error(
 					`Error adding review comment to ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
@@ -484,34 +1011,113 @@ export class InputProcessor {
 		};
 	}
 
+	/**
+	 * Discard the queued review comments of a review that failed, so that a
+	 * fallback review does not post them next to its own findings
+	 */
+	discardPendingComments(): void {
+		core.info(
+			`Discarding ${this.pendingComments.length} review comments of the failed review`,
+		);
+		for (const finding of this.pendingComments) {
+			this.publishLedger.forget(finding);
+		}
+		this.pendingComments = [];
+	}
+
 	/**
 	 * Get the appropriate AI agent based on provider
 	 * @returns AI agent
 	 * @throws Error if required settings are missing
 	 */
 	getAIAgent(): AIAgent {
-		if (!this.fileContentGetter || !this.fileCommentator) {
+		return this.getAIAgents()[0].agent;
+	}
+
+	/**
+	 * Get the primary AI agent followed by the configured fallback agents
+	 * @returns AI agents in the order they should be tried
+	 * @throws Error if required settings are missing
+	 */
+	getAIAgents(): ReviewAgent[] {
+		const fileCommentator = this.fileCommentator;
+		if (!fileCommentator) {
 			throw new Error("Required settings are missing");
 		}
 
-		switch (this.aiProvider) {
-			case "anthropic":
-				return new AnthropicAgent(
-					this.apiKey,
-					this.fileContentGetter,
-					this.fileCommentator,
-					this.model,
-				);
-			case "google":
-				return new GoogleAgent(
-					this.apiKey,
-					this.fileContentGetter,
-					this.fileCommentator,
-					this.model,
-				);
-			default:
-				throw new Error(`Unsupported AI provider: ${this.aiProvider}`);
+		return [this.primaryProviderConfig, ...this.fallbackProviders].map(
+			(config) =>
+				this.createReviewAgent(config, fileCommentator, this.publishLedger),
+		);
+	}
+
+	/**
+	 * Get the primary AI agent followed by the configured consensus agents.
+	 * Their comments are collected as findings instead of being posted.
+	 * @returns AI agents taking part in the consensus review
+	 * @throws Error if required settings are missing
+	 */
+	getConsensusAgents(): ConsensusAgent[] {
+		return [this.primaryProviderConfig, ...this.consensusProviders].map(
+			(config) => {
+				const findings: ReviewFinding[] = [];
+				return {
+					...this.createReviewAgent(config, createFindingCollector(findings)),
+					findings,
+				};
+			},
+		);
+	}
+
+	/**
+	 * Configuration of the provider selected with ai_provider
+	 */
+	private get primaryProviderConfig(): ProviderConfig {
+		return {
+			ai_provider: this.aiProvider,
+			api_key: this.apiKey,
+			model: this.model,
+			provider_settings: this.providerSettings,
+		};
+	}
+
+	/**
+	 * Create an AI agent for a provider configuration
+	 * @param config - Provider configuration
+	 * @param fileCommentator - Function the agent uses to add review comments
+	 * @param publishLedger - Ledger shared by agents posting to the same pull
+	 * request; agents get their own ledger if omitted
+	 * @returns AI agent with its label
+	 * @throws Error if required settings are missing
+	 */
+	private createReviewAgent(
+		config: ProviderConfig,
+		fileCommentator: FileCommentator,
+		publishLedger?: PublishLedger,
+	): ReviewAgent {
+		const fileContentGetter = this.fileContentGetter;
+		if (!fileContentGetter) {
+			throw new Error("Required settings are missing");
 		}
+
+		const provider = getProvider(config.ai_provider);
+		return {
+			label: `${provider.displayName} (${config.model})`,
+			agent: provider.create({
+				apiKey: config.api_key,
+				model: config.model,
+				fileContentGetter,
+				fileCommentator,
+				settings: config.provider_settings,
+				options: {
+					retryPolicy: this.retryPolicy,
+					usageTracker: this.usageTracker,
+					verifyFindings: this.verifyFindings,
+					publishLedger,
+					reviewProgress: this.reviewProgress,
+				},
+			}),
+		};
 	}
 
 	/**
@@ -521,8 +1127,68 @@ export class InputProcessor {
 		return this.filteredDiffs;
 	}
 
-	get getGithubAPI(): GitHubAPI {
-		return this.githubAPI;
+	get getCodeHostAPI(): CodeHostAPI {
+		return this.codeHostAPI;
+	}
+
+	get getUsageTracker(): UsageTracker {
+		return this.usageTracker;
+	}
+
+	get getReviewMode(): ReviewMode {
+		return this.reviewMode;
+	}
+
+	get getConsensusMinAgreement(): number {
+		return this.consensusMinAgreement;
+	}
+
+	get getFileCommentator(): FileCommentator | undefined {
+		return this.fileCommentator;
+	}
+
+	get getVerdictMode(): VerdictMode {
+		return this.verdictMode;
+	}
+
+	get getRequestChangesOn(): Severity {
+		return this.requestChangesOn;
+	}
+
+	get getConclusionPolicy(): ConclusionPolicy {
+		return this.conclusionPolicy;
+	}
+
+	get getSarifOutput(): string | undefined {
+		return this.sarifOutput;
+	}
+
+	get getSummaryCommentMode(): SummaryCommentMode {
+		return this.summaryCommentMode;
+	}
+
+	get getConfigHash(): string {
+		return this.configHash;
+	}
+
+	get getReviewScopeNote(): string {
+		return this.reviewScopeNote;
+	}
+
+	get getBaseCommit(): string | undefined {
+		return this.baseCommit;
+	}
+
+	get getReviewProgress(): ReviewProgress {
+		return this.reviewProgress;
+	}
+
+	get getConfiguration(): Array<[name: string, value: string]> {
+		return this.configuration;
+	}
+
+	get getPendingComments(): ReviewFinding[] {
+		return this.pendingComments;
 	}
 
 	get getHeadCommit(): string | undefined {
@@ -1,22 +1,79 @@
 import * as core from "@actions/core";
 import * as github from "@actions/github";
+import type {
+	CodeHostAPI,
+	PullRequestComment,
+	PullRequestCommit,
+} from "../code-host/code-host";
 import {
 	type ChangedFile,
+	type ComparisonStatus,
+	REVIEW_EVENTS,
 	REVIEW_SIDES,
+	type ReviewEvent,
+	type ReviewFinding,
 	type ReviewSide,
 } from "../types/constants";
+import {
+	DEFAULT_RETRY_POLICY,
+	type RetryPolicy,
+	withRetry,
+} from "../utils/retry";
+
+// Maximum number of annotations GitHub accepts per check run request
+const MAX_ANNOTATIONS_PER_REQUEST = 50;
+
+// Maximum length of the summary of a check run
+const MAX_CHECK_SUMMARY_LENGTH = 65535;
+
+// Messages of the 422 errors GitHub returns when a review event is not
+// allowed, as opposed to a comment that is not on a line of the diff
+const REVIEW_EVENT_REJECTED_PATTERN =
+	/can ?not (approve|request changes on) your own pull request|not permitted to approve pull requests/i;
+
+// Login of the GITHUB_TOKEN of a workflow run, which cannot read its own user
+const GITHUB_ACTIONS_LOGIN = "github-actions[bot]";
+
+/**
+ * Commit as returned by the GitHub API
+ */
+interface GitHubCommit {
+	sha: string;
+	commit: { message: string; author?: { date?: string } | null };
+}
+
+/**
+ * Annotation of a check run on lines of a file
+ */
+export interface CheckAnnotation {
+	path: string;
+	start_line: number;
+	end_line: number;
+	annotation_level: "notice" | "warning" | "failure";
+	title?: string;
+	message: string;
+}
+
+/**
+ * Conclusion of a completed check run
+ */
+export type CheckConclusion = "success" | "neutral" | "failure";
 
 /**
  * GitHub API client for interacting with GitHub's REST API
  */
-export class GitHubAPI {
+export class GitHubAPI implements CodeHostAPI {
 	private octokit: ReturnType<typeof github.getOctokit>;
 
 	/**
 	 * Creates a new GitHubAPI instance
 	 * @param token - GitHub token for authentication
+	 * @param retryPolicy - Retry policy for failed API calls
 	 */
-	constructor(token: string) {
+	constructor(
+		token: string,
+		private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY,
+	) {
 		this.octokit = github.getOctokit(token);
 	}
 
@@ -38,11 +95,16 @@ export class GitHubAPI {
 
 		try {
 			while (true) {
-				const response = await method({
-					...params,
-					per_page: perPage,
-					page: page,
-				});
+				const response = await withRetry(
+					() =>
+						method({
+							...params,
+							per_page: perPage,
+							page: page,
+						}),
+					this.retryPolicy,
+					`Fetching page ${page}`,
+				);
 
 				const items = response.data;
 				allItems.push(...items);
@@ -82,12 +144,17 @@ export class GitHubAPI {
 	): Promise<any> {
 		core.info(`Comparing commits: ${baseBranchName} -> ${headBranchName}`);
 		try {
-			const { data: diff } = await this.octokit.rest.repos.compareCommits({
-				owner,
-				repo,
-				base: baseBranchName,
-				head: headBranchName,
-			});
+			const { data: diff } = await withRetry(
+				() =>
+					this.octokit.rest.repos.compareCommits({
+						owner,
+						repo,
+						base: baseBranchName,
+						head: headBranchName,
+					}),
+				this.retryPolicy,
+				"Comparing commits",
+			);
 			return diff;
 		} catch (error) {
 			core.error(
@@ -97,6 +164,80 @@ export class GitHubAPI {
 		}
 	}
 
+	/**
+	 * Compares two commits.
+	 * @param owner - The repository owner.
+	 * @param repo - The repository name.
+	 * @param baseCommit - The base commit SHA.
+	 * @param headCommit - The head commit SHA.
+	 * @returns The status of the head commit relative to the base commit.
+	 */
+	async getComparisonStatus(
+		owner: string,
+		repo: string,
+		baseCommit: string,
+		headCommit: string,
+	): Promise<ComparisonStatus> {
+		const comparison = await this.compareCommits(
+			owner,
+			repo,
+			baseCommit,
+			headCommit,
+		);
+		return comparison.status;
+	}
+
+	/**
+	 * Finds the merge base of two commits.
+	 * @param owner - The repository owner.
+	 * @param repo - The repository name.
+	 * @param baseCommit - The base commit SHA.
+	 * @param headCommit - The head commit SHA.
+	 * @returns The SHA of the merge base.
+	 */
+	async getMergeBase(
+		owner: string,
+		repo: string,
+		baseCommit: string,
+		headCommit: string,
+	): Promise<string> {
+		const comparison = await this.compareCommits(
+			owner,
+			repo,
+			baseCommit,
+			headCommit,
+		);
+		return comparison.merge_base_commit.sha;
+	}
+
+	/**
+	 * Gets the login of the user the token belongs to. The GITHUB_TOKEN of a
+	 * workflow run is not allowed to read its user and comments as
+	 * github-actions[bot].
+	 * @returns The login of the user.
+	 */
+	async getAuthenticatedUser(): Promise<string> {
+		try {
+			const { data: user } = await withRetry(
+				() => this.octokit.rest.users.getAuthenticated(),
+				this.retryPolicy,
+				"Getting authenticated user",
+			);
+			return user.login;
+		} catch (error) {
+			if (GitHubAPI.getStatus(error) === 403) {
+				core.info(
+					`The token cannot read its user, assuming it is the workflow token (${GITHUB_ACTIONS_LOGIN})`,
+				);
+				return GITHUB_ACTIONS_LOGIN;
+			}
+			core.error(
+				`Error getting authenticated user: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			throw error;
+		}
+	}
+
 	/**
 	 * Retrieves a pull request.
 	 * @param owner - The repository owner.
@@ -111,11 +252,16 @@ export class GitHubAPI {
 	): Promise<any> {
 		core.info(`Getting pull request #${prNumber}`);
 		try {
-			const { data: prData } = await this.octokit.rest.pulls.get({
-				owner,
-				repo,
-				pull_number: prNumber,
-			});
+			const { data: prData } = await withRetry(
+				() =>
+					this.octokit.rest.pulls.get({
+						owner,
+						repo,
+						pull_number: prNumber,
+					}),
+				this.retryPolicy,
+				"Getting pull request",
+			);
 			return prData;
 		} catch (error) {
 			core.error(
@@ -129,7 +275,8 @@ export class GitHubAPI {
 	 * Retrieves the content of a file.
 	 * @param owner - The repository owner.
 	 * @param repo - The repository name.
-	 * @param baseRef - The reference (branch or commit SHA) to old file version.
+	 * @param baseRef - The reference (branch or commit SHA) to old file version,
+	 * read if the file does not exist in the new version.
 	 * @param actualRef - The reference (branch or commit SHA) to new file version.
 	 * @param filePath - The file path.
 	 * @returns The file content.
@@ -146,13 +293,16 @@ export class GitHubAPI {
 		try {
 			// First try to get the file content directly
 			try {
-				const { data: fileMetadata } = await this.octokit.rest.repos.getContent(
-					{
-						owner,
-						repo,
-						path: filePath,
-						ref: actualRef,
-					},
+				const { data: fileMetadata } = await withRetry(
+					() =>
+						this.octokit.rest.repos.getContent({
+							owner,
+							repo,
+							path: filePath,
+							ref: actualRef,
+						}),
+					this.retryPolicy,
+					`Getting content of ${filePath}`,
 				);
 
 				if (Array.isArray(fileMetadata)) {
@@ -201,6 +351,13 @@ export class GitHubAPI {
 					}
 				}
 			} catch (error) {
+				// Deleted files only exist in their old version
+				if (GitHubAPI.getStatus(error) === 404 && baseRef !== actualRef) {
+					core.info(
+						`${filePath} does not exist at ${actualRef}, reading its old version`,
+					);
+					return this.getContent(owner, repo, baseRef, baseRef, filePath);
+				}
 				core.warning(
 					`Error getting content with getContent API: ${error instanceof Error ? error.message : String(error)}`,
 				);
@@ -232,13 +389,17 @@ export class GitHubAPI {
 			// If all else fails, try to get the content from the diff
 			try {
 				core.info(`Trying to extract content from diff for ${filePath}`);
-				const { data: comparison } =
-					await this.octokit.rest.repos.compareCommits({
-						owner,
-						repo,
-						base: baseRef,
-						head: actualRef,
-					});
+				const { data: comparison } = await withRetry(
+					() =>
+						this.octokit.rest.repos.compareCommits({
+							owner,
+							repo,
+							base: baseRef,
+							head: actualRef,
+						}),
+					this.retryPolicy,
+					"Comparing commits",
+				);
 
 				const fileInfo = comparison.files?.find(
 					(file: any) => file.filename === filePath,
@@ -294,12 +455,17 @@ export class GitHubAPI {
 	): Promise<void> {
 		core.info(`Creating PR comment on #${prNumber}`);
 		try {
-			await this.octokit.rest.issues.createComment({
-				owner,
-				repo,
-				issue_number: prNumber,
-				body,
-			});
+			await withRetry(
+				() =>
+					this.octokit.rest.issues.createComment({
+						owner,
+						repo,
+						issue_number: prNumber,
+						body,
+					}),
+				this.retryPolicy,
+				"Creating PR comment",
+			);
 			core.info("PR comment created successfully");
 		} catch (error) {
 			core.error(
@@ -309,6 +475,43 @@ export class GitHubAPI {
 		}
 	}
 
+	/**
+	 * Updates a comment on a pull request.
+	 * @param owner - The repository owner.
+	 * @param repo - The repository name.
+	 * @param prNumber - The pull request number.
+	 * @param commentId - The ID of the comment.
+	 * @param body - The new comment body.
+	 */
+	async updatePRComment(
+		owner: string,
+		repo: string,
+		prNumber: number,
+		commentId: number,
+		body: string,
+	): Promise<void> {
+		core.info(`Updating PR comment ${commentId} on #${prNumber}`);
+		try {
+			await withRetry(
+				() =>
+					this.octokit.rest.issues.updateComment({
+						owner,
+						repo,
+						comment_id: commentId,
+						body,
+					}),
+				this.retryPolicy,
+				"Updating PR comment",
+			);
+			core.info("PR comment updated successfully");
+		} catch (error) {
+			core.error(
+				`Error updating PR comment: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			throw error;
+		}
+	}
+
 	/**
 	 * Creates a review comment on a pull request.
 	 * @param owner - The repository owner.
@@ -339,42 +542,313 @@ export class GitHubAPI {
 		try {
 			if (startLine === line) {
 				core.info(`Creating single line comment for line ${startLine}`);
-				await this.octokit.rest.pulls.createReviewComment({
-					owner,
-					repo,
-					pull_number: prNumber,
-					body,
-					commit_id: commitId,
-					path,
-					side,
-					line: startLine,
-				});
+				await withRetry(
+					() =>
+						this.octokit.rest.pulls.createReviewComment({
+							owner,
+							repo,
+							pull_number: prNumber,
+							body,
+							commit_id: commitId,
+							path,
+							side,
+							line: startLine,
+						}),
+					this.retryPolicy,
+					"Creating review comment",
+				);
 			} else {
 				core.info(`Creating multi-line comment for lines ${startLine}-${line}`);
-				await this.octokit.rest.pulls.createReviewComment({
+				await withRetry(
+					() =>
+						this.octokit.rest.pulls.createReviewComment({
+							owner,
+							repo,
+							pull_number: prNumber,
+							body,
+							commit_id: commitId,
+							path,
+							start_side: side,
+							side,
+							start_line: startLine,
+							line,
+						}),
+					this.retryPolicy,
+					"Creating review comment",
+				);
+			}
+			core.info("Review comment created successfully");
+		} catch (error) {
+			core.error(
+				`Error creating review comment: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			throw error;
+		}
+	}
+
+	/**
+	 * Submits a review with all inline comments in a single request. If GitHub
+	 * rejects the position of a comment, the comments are posted on their own
+	 * and the review is submitted with the body only.
+	 * @param owner - The repository owner.
+	 * @param repo - The repository name.
+	 * @param prNumber - The pull request number.
+	 * @param commitId - The commit ID.
+	 * @param body - The review body.
+	 * @param comments - The inline comments of the review.
+	 * @param event - The review event.
+	 * @returns The inline comments that could not be posted.
+	 */
+	async createReview(
+		owner: string,
+		repo: string,
+		prNumber: number,
+		commitId: string,
+		body: string,
+		comments: ReviewFinding[],
+		event: ReviewEvent = REVIEW_EVENTS.COMMENT,
+	): Promise<ReviewFinding[]> {
+		core.info(
+			`Creating review on #${prNumber} with ${comments.length} comments (${event})`,
+		);
+		try {
+			await this.submitReview(
+				owner,
+				repo,
+				prNumber,
+				commitId,
+				body,
+				comments,
+				event,
+			);
+			core.info("Review created successfully");
+			return [];
+		} catch (error) {
+			// GitHub rejects approving or requesting changes on the token user's
+			// own pull request, and approvals by GitHub Actions unless they are
+			// allowed in the repository settings
+			if (
+				event !== REVIEW_EVENTS.COMMENT &&
+				GitHubAPI.getStatus(error) === 422 &&
+				REVIEW_EVENT_REJECTED_PATTERN.test(
+					error instanceof Error ? error.message : String(error),
+				)
+			) {
+				core.warning(
+					`GitHub does not allow this token to ${event === REVIEW_EVENTS.APPROVE ? "approve" : "request changes on"} the pull request, submitting the review as a comment: ${error instanceof Error ? error.message : String(error)}`,
+				);
+				return this.createReview(
+					owner,
+					repo,
+					prNumber,
+					commitId,
+					`${body}\n\n> **Note**: The review verdict (${event}) could not be applied because GitHub does not allow this token to approve or request changes on this pull request.`,
+					comments,
+					REVIEW_EVENTS.COMMENT,
+				);
+			}
+
+			// GitHub rejects the whole review with 422 if a single comment is not
+			// on a line of the diff
+			if (comments.length === 0 || GitHubAPI.getStatus(error) !== 422) {
+				core.error(
+					`Error creating review: ${error instanceof Error ? error.message : String(error)}`,
+				);
+				throw error;
+			}
+			core.warning(
+				`GitHub rejected a comment position of the review, posting the comments on their own: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+
+		const failedComments: ReviewFinding[] = [];
+		for (const comment of comments) {
+			try {
+				await this.createReviewComment(
+					owner,
+					repo,
+					prNumber,
+					commitId,
+					comment.comment,
+					comment.filePath,
+					comment.side,
+					comment.startLineNumber,
+					comment.endLineNumber,
+				);
+			} catch {
+				// Logged by createReviewComment, the other comments are still posted
+				failedComments.push(comment);
+			}
+		}
+
+		try {
+			await this.submitReview(owner, repo, prNumber, commitId, body, [], event);
+			core.info("Review created successfully");
+			return failedComments;
+		} catch (error) {
+			core.error(
+				`Error creating review: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			throw error;
+		}
+	}
+
+	/**
+	 * Submits a review with the given inline comments
+	 */
+	private async submitReview(
+		owner: string,
+		repo: string,
+		prNumber: number,
+		commitId: string,
+		body: string,
+		comments: ReviewFinding[],
+		event: ReviewEvent,
+	): Promise<void> {
+		await withRetry(
+			() =>
+				this.octokit.rest.pulls.createReview({
 					owner,
 					repo,
 					pull_number: prNumber,
-					body,
 					commit_id: commitId,
-					path,
-					start_side: side,
-					side,
-					start_line: startLine,
-					line,
-				});
-			}
-			core.info("Review comment created successfully");
+					body,
+					event,
+					comments: comments.map((comment) =>
+						comment.startLineNumber === comment.endLineNumber
+							? {
+									path: comment.filePath,
+									body: comment.comment,
+									side: comment.side,
+									line: comment.endLineNumber,
+								}
+							: {
+									path: comment.filePath,
+									body: comment.comment,
+									start_side: comment.side,
+									side: comment.side,
+									start_line: comment.startLineNumber,
+									line: comment.endLineNumber,
+								},
+					),
+				}),
+			this.retryPolicy,
+			"Creating review",
+		);
+	}
+
+	/**
+	 * Creates an in-progress check run on a commit.
+	 * @param owner - The repository owner.
+	 * @param repo - The repository name.
+	 * @param headSha - The SHA of the commit to check.
+	 * @param name - The name of the check run.
+	 * @returns The check run ID.
+	 */
+	async createCheckRun(
+		owner: string,
+		repo: string,
+		headSha: string,
+		name: string,
+	): Promise<number> {
+		core.info(`Creating check run "${name}" on ${headSha.substring(0, 7)}`);
+		try {
+			const { data: checkRun } = await withRetry(
+				() =>
+					this.octokit.rest.checks.create({
+						owner,
+						repo,
+						name,
+						head_sha: headSha,
+						status: "in_progress",
+					}),
+				this.retryPolicy,
+				"Creating check run",
+			);
+			core.info(`Check run ${checkRun.id} created successfully`);
+			return checkRun.id;
 		} catch (error) {
 			core.error(
-				`Error creating review comment: ${error instanceof Error ? error.message : String(error)}`,
+				`Error creating check run: ${error instanceof Error ? error.message : String(error)}`,
 			);
 			throw error;
 		}
 	}
 
 	/**
-	 * Lists all comments in a pull request with pagination support.
+	 * Completes a check run with its output. GitHub accepts 50 annotations per
+	 * request, so further annotations are added by updating the check run.
+	 * @param owner - The repository owner.
+	 * @param repo - The repository name.
+	 * @param checkRunId - The check run ID.
+	 * @param conclusion - The conclusion of the check run.
+	 * @param title - The title of the check run output.
+	 * @param summary - The summary of the check run output, in markdown.
+	 * @param annotations - The annotations of the check run.
+	 */
+	async completeCheckRun(
+		owner: string,
+		repo: string,
+		checkRunId: number,
+		conclusion: CheckConclusion,
+		title: string,
+		summary: string,
+		annotations: CheckAnnotation[],
+	): Promise<void> {
+		core.info(
+			`Completing check run ${checkRunId} (${conclusion}, ${annotations.length} annotations)`,
+		);
+		const output = {
+			title,
+			summary: summary.substring(0, MAX_CHECK_SUMMARY_LENGTH),
+		};
+
+		try {
+			let offset = 0;
+			do {
+				const batch = annotations.slice(
+					offset,
+					offset + MAX_ANNOTATIONS_PER_REQUEST,
+				);
+				offset += MAX_ANNOTATIONS_PER_REQUEST;
+				const isLastBatch = offset >= annotations.length;
+
+				await withRetry(
+					() =>
+						this.octokit.rest.checks.update({
+							owner,
+							repo,
+							check_run_id: checkRunId,
+							output: { ...output, annotations: batch },
+							...(isLastBatch
+								? { status: "completed" as const, conclusion }
+								: {}),
+						}),
+					this.retryPolicy,
+					"Updating check run",
+				);
+			} while (offset < annotations.length);
+			core.info("Check run completed successfully");
+		} catch (error) {
+			core.error(
+				`Error completing check run: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			throw error;
+		}
+	}
+
+	/**
+	 * Get the HTTP status of an Octokit error, if any
+	 */
+	private static getStatus(error: unknown): number | undefined {
+		return typeof error === "object" && error !== null && "status" in error
+			? Number(error.status)
+			: undefined;
+	}
+
+	/**
+	 * Lists all comments and review bodies in a pull request with pagination
+	 * support, oldest first.
 	 * @param owner - The repository owner.
 	 * @param repo - The repository name.
 	 * @param prNumber - The pull request number.
@@ -384,13 +858,40 @@ export class GitHubAPI {
 		owner: string,
 		repo: string,
 		prNumber: number,
-	): Promise<any[]> {
+	): Promise<PullRequestComment[]> {
 		core.info(`Listing PR comments for #${prNumber}`);
 		try {
-			return await this.getAllPaginatedItems(
+			const comments = await this.getAllPaginatedItems(
 				this.octokit.rest.issues.listComments,
 				{ owner, repo, issue_number: prNumber },
 			);
+			// Review summaries are submitted as review bodies
+			const reviews = await this.getAllPaginatedItems(
+				this.octokit.rest.pulls.listReviews,
+				{ owner, repo, pull_number: prNumber },
+			);
+
+			const allComments: PullRequestComment[] = [
+				...comments.map((comment) => ({
+					id: comment.id,
+					author: comment.user?.login,
+					body: comment.body,
+					created_at: comment.created_at,
+					updated_at: comment.updated_at,
+				})),
+				...reviews.map((review) => ({
+					author: review.user?.login,
+					body: review.body,
+					created_at: review.submitted_at,
+				})),
+			];
+			// Sorted by last update, so that a summary comment updated in place
+			// counts as the latest review
+			return allComments.sort((a, b) =>
+				(a.updated_at ?? a.created_at ?? "").localeCompare(
+					b.updated_at ?? b.created_at ?? "",
+				),
+			);
 		} catch (error) {
 			core.error(
 				`Error listing PR comments: ${error instanceof Error ? error.message : String(error)}`,
@@ -404,19 +905,20 @@ export class GitHubAPI {
 	 * @param owner - The repository owner.
 	 * @param repo - The repository name.
 	 * @param prNumber - The pull request number.
-	 * @returns The list of all commits.
+	 * @returns The list of all commits, oldest first.
 	 */
 	async listPRCommits(
 		owner: string,
 		repo: string,
 		prNumber: number,
-	): Promise<any[]> {
+	): Promise<PullRequestCommit[]> {
 		core.info(`Listing PR commits for #${prNumber}`);
 		try {
-			return await this.getAllPaginatedItems(
+			const commits = await this.getAllPaginatedItems<GitHubCommit>(
 				this.octokit.rest.pulls.listCommits,
 				{ owner, repo, pull_number: prNumber },
 			);
+			return commits.map((commit) => GitHubAPI.toPullRequestCommit(commit));
 		} catch (error) {
 			core.error(
 				`Error listing PR commits: ${error instanceof Error ? error.message : String(error)}`,
@@ -425,6 +927,48 @@ export class GitHubAPI {
 		}
 	}
 
+	/**
+	 * Retrieves a commit. Commits dropped from a branch by a force-push can be
+	 * retrieved until they are garbage collected.
+	 * @param owner - The repository owner.
+	 * @param repo - The repository name.
+	 * @param sha - The commit SHA.
+	 * @returns The commit.
+	 */
+	async getCommit(
+		owner: string,
+		repo: string,
+		sha: string,
+	): Promise<PullRequestCommit> {
+		core.info(`Getting commit ${sha.substring(0, 7)}`);
+		try {
+			const { data: commit } = await withRetry(
+				() => this.octokit.rest.repos.getCommit({ owner, repo, ref: sha }),
+				this.retryPolicy,
+				"Getting commit",
+			);
+			return GitHubAPI.toPullRequestCommit(commit);
+		} catch (error) {
+			core.error(
+				`Error getting commit: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			throw error;
+		}
+	}
+
+	/**
+	 * Converts a commit returned by the GitHub API.
+	 * @param commit - The commit.
+	 * @returns The commit of the pull request.
+	 */
+	private static toPullRequestCommit(commit: GitHubCommit): PullRequestCommit {
+		return {
+			sha: commit.sha,
+			message: commit.commit.message,
+			authorDate: commit.commit.author?.date,
+		};
+	}
+
 	/**
 	 * Gets changed files between two commits.
 	 * @param owner - The repository owner.
@@ -443,13 +987,16 @@ export class GitHubAPI {
 			`Getting files between commits: ${baseCommit.substring(0, 7)} -> ${headCommit.substring(0, 7)}`,
 		);
 		try {
-			const { data: comparison } = await this.octokit.rest.repos.compareCommits(
-				{
-					owner,
-					repo,
-					base: baseCommit,
-					head: headCommit,
-				},
+			const { data: comparison } = await withRetry(
+				() =>
+					this.octokit.rest.repos.compareCommits({
+						owner,
+						repo,
+						base: baseCommit,
+						head: headCommit,
+					}),
+				this.retryPolicy,
+				"Getting files between commits",
 			);
 			return comparison.files || [];
 		} catch (error) {
@@ -0,0 +1,724 @@
+import * as core from "@actions/core";
+import type {
+	CodeHostAPI,
+	PullRequestComment,
+	PullRequestCommit,
+	PullRequestRefs,
+} from "../code-host/code-host";
+import {
+	COMPARISON_STATUSES,
+	type ChangedFile,
+	type ComparisonStatus,
+	FILE_STATUSES,
+	type FileStatus,
+	REVIEW_EVENTS,
+	REVIEW_SIDES,
+	type ReviewEvent,
+	type ReviewFinding,
+	type ReviewSide,
+} from "../types/constants";
+import { countPatchChanges } from "../utils/diff";
+import {
+	DEFAULT_RETRY_POLICY,
+	type RetryPolicy,
+	withRetry,
+} from "../utils/retry";
+
+// Page size of paginated GitLab API requests (the maximum allowed)
+const PER_PAGE = 100;
+
+/**
+ * Error returned by the GitLab API, carrying the HTTP status and headers
+ * used by the retry policy
+ */
+export class GitLabAPIError extends Error {
+	constructor(
+		message: string,
+		public status: number,
+		public headers: Record<string, string>,
+	) {
+		super(message);
+		this.name = "GitLabAPIError";
+	}
+}
+
+/**
+ * Merge request as returned by the GitLab API
+ */
+interface GitLabMergeRequest {
+	iid: number;
+	diff_refs: {
+		base_sha: string;
+		head_sha: string;
+		start_sha: string;
+	};
+}
+
+/**
+ * Merge request note as returned by the GitLab API
+ */
+interface GitLabNote {
+	id: number;
+	body: string;
+	author?: { username: string };
+	created_at: string;
+	updated_at: string;
+}
+
+/**
+ * Commit as returned by the GitLab API
+ */
+interface GitLabCommit {
+	id: string;
+	message: string;
+	authored_date?: string;
+}
+
+/**
+ * File diff as returned by the GitLab compare and merge request diffs APIs
+ */
+interface GitLabDiff {
+	old_path: string;
+	new_path: string;
+	diff: string;
+	new_file: boolean;
+	renamed_file: boolean;
+	deleted_file: boolean;
+}
+
+/**
+ * Old and new line numbers of a line of a diff, as used in GitLab positions
+ */
+interface DiffLinePosition {
+	old_line?: number;
+	new_line?: number;
+}
+
+/**
+ * GitLab API client for reviewing merge requests through GitLab's REST API
+ */
+export class GitLabAPI implements CodeHostAPI {
+	private baseUrl: string;
+	private mergeRequests = new Map<string, GitLabMergeRequest>();
+	private mergeRequestDiffs = new Map<string, GitLabDiff[]>();
+
+	/**
+	 * Creates a new GitLabAPI instance
+	 * @param token - GitLab access token with the api scope
+	 * @param gitlabUrl - Base URL of the GitLab instance
+	 * @param retryPolicy - Retry policy for failed API calls
+	 */
+	constructor(
+		private token: string,
+		gitlabUrl: string,
+		private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY,
+	) {
+		this.baseUrl = `${gitlabUrl.replace(/\/+$/, "")}/api/v4`;
+	}
+
+	/**
+	 * Get the URL-encoded project id of a repository
+	 */
+	private getProjectId(owner: string, repo: string): string {
+		return encodeURIComponent(`${owner}/${repo}`);
+	}
+
+	/**
+	 * Send a request to the GitLab API, retrying according to the retry policy
+	 * @param method - HTTP method
+	 * @param path - API path starting with a slash
+	 * @param description - Description of the request for logs and errors
+	 * @param body - JSON body of the request
+	 * @returns Response of the API
+	 * @throws GitLabAPIError if the API returns an error status
+	 */
+	private async request(
+		method: string,
+		path: string,
+		description: string,
+		body?: Record<string, unknown>,
+	): Promise<Response> {
+		return withRetry(
+			async () => {
+				const response = await fetch(`${this.baseUrl}${path}`, {
+					method,
+					headers: {
+						"PRIVATE-TOKEN": this.token,
+						...(body ? { "Content-Type": "application/json" } : {}),
+					},
+					body: body ? JSON.stringify(body) : undefined,
+				});
+				if (!response.ok) {
+					const headers: Record<string, string> = {};
+					response.headers.forEach((value, name) => {
+						headers[name] = value;
+					});
+					throw new GitLabAPIError(
+						`${description} failed: ${response.status} ${response.statusText} ${await response.text()}`.trim(),
+						response.status,
+						headers,
+					);
+				}
+				return response;
+			},
+			this.retryPolicy,
+			description,
+		);
+	}
+
+	/**
+	 * Fetch all pages of a paginated API path
+	 * @param path - API path including its query parameters
+	 * @param description - Description of the request for logs and errors
+	 * @returns Items of all pages
+	 */
+	private async getAllPages<T>(
+		path: string,
+		description: string,
+	): Promise<T[]> {
+		const items: T[] = [];
+		const separator = path.includes("?") ? "&" : "?";
+		let page = "1";
+
+		while (page) {
+			const response = await this.request(
+				"GET",
+				`${path}${separator}per_page=${PER_PAGE}&page=${page}`,
+				`${description} (page ${page})`,
+			);
+			items.push(...((await response.json()) as T[]));
+			page = response.headers.get("x-next-page") ?? "";
+		}
+		return items;
+	}
+
+	/**
+	 * Retrieves a merge request, caching it for positioning review comments
+	 */
+	private async getMergeRequest(
+		owner: string,
+		repo: string,
+		mrNumber: number,
+	): Promise<GitLabMergeRequest> {
+		const key = `${owner}/${repo}!${mrNumber}`;
+		const cached = this.mergeRequests.get(key);
+		if (cached) return cached;
+
+		const response = await this.request(
+			"GET",
+			`/projects/${this.getProjectId(owner, repo)}/merge_requests/${mrNumber}`,
+			"Getting merge request",
+		);
+		const mergeRequest = (await response.json()) as GitLabMergeRequest;
+		this.mergeRequests.set(key, mergeRequest);
+		return mergeRequest;
+	}
+
+	/**
+	 * Retrieves the file diffs of a merge request, which review comment
+	 * positions refer to
+	 */
+	private async getMergeRequestDiffs(
+		owner: string,
+		repo: string,
+		mrNumber: number,
+	): Promise<GitLabDiff[]> {
+		const key = `${owner}/${repo}!${mrNumber}`;
+		const cached = this.mergeRequestDiffs.get(key);
+		if (cached) return cached;
+
+		const diffs = await this.getAllPages<GitLabDiff>(
+			`/projects/${this.getProjectId(owner, repo)}/merge_requests/${mrNumber}/diffs`,
+			"Getting merge request diffs",
+		);
+		this.mergeRequestDiffs.set(key, diffs);
+		return diffs;
+	}
+
+	/**
+	 * Convert a GitLab commit into a commit of a pull request
+	 */
+	private static toPullRequestCommit(commit: GitLabCommit): PullRequestCommit {
+		return {
+			sha: commit.id,
+			message: commit.message,
+			authorDate: commit.authored_date,
+		};
+	}
+
+	/**
+	 * Convert a GitLab file diff into a changed file
+	 * @param diff - GitLab file diff
+	 * @returns Changed file in the format returned by the GitHub API
+	 */
+	static toChangedFile(diff: GitLabDiff): ChangedFile {
+		let status: FileStatus = FILE_STATUSES.MODIFIED;
+		if (diff.new_file) status = FILE_STATUSES.ADDED;
+		else if (diff.deleted_file) status = FILE_STATUSES.REMOVED;
+		else if (diff.renamed_file) status = FILE_STATUSES.RENAMED;
+
+		const patch = diff.diff ? diff.diff.replace(/\n$/, "") : undefined;
+		const { additions, deletions } = countPatchChanges(patch);
+		return {
+			filename: diff.new_path,
+			status,
+			additions,
+			deletions,
+			changes: additions + deletions,
+			patch,
+		};
+	}
+
+	/**
+	 * Find the old and new line numbers of a line of a patch. GitLab requires
+	 * both for unchanged lines and only one for added or removed lines.
+	 * @param patch - Patch of the file
+	 * @param side - Side of the diff the line is on
+	 * @param line - Line number on that side
+	 * @returns Line position; only the given line if it is outside the patch
+	 */
+	static getLinePosition(
+		patch: string | undefined,
+		side: ReviewSide,
+		line: number,
+	): DiffLinePosition {
+		let oldLine = 0;
+		let newLine = 0;
+		for (const patchLine of (patch ?? "").split("\n")) {
+			const header = patchLine.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+			if (header) {
+				oldLine = Number(header[1]);
+				newLine = Number(header[2]);
+				continue;
+			}
+
+			if (patchLine.startsWith("+")) {
+				if (side === REVIEW_SIDES.RIGHT && newLine === line) {
+					return { new_line: line };
+				}
+				newLine++;
+			} else if (patchLine.startsWith("-")) {
+				if (side === REVIEW_SIDES.LEFT && oldLine === line) {
+					return { old_line: line };
+				}
+				oldLine++;
+			} else if (!patchLine.startsWith("\\")) {
+				const current = side === REVIEW_SIDES.LEFT ? oldLine : newLine;
+				if (current === line) {
+					return { old_line: oldLine, new_line: newLine };
+				}
+				oldLine++;
+				newLine++;
+			}
+		}
+
+		return side === REVIEW_SIDES.LEFT ? { old_line: line } : { new_line: line };
+	}
+
+	async getAuthenticatedUser(): Promise<string> {
+		try {
+			const response = await this.request(
+				"GET",
+				"/user",
+				"Getting authenticated user",
+			);
+			const user = (await response.json()) as { username: string };
+			return user.username;
+		} catch (error) {
+			core.error(
+				`Error getting authenticated user: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			throw error;
+		}
+	}
+
+	async getPullRequest(
+		owner: string,
+		repo: string,
+		prNumber: number,
+	): Promise<PullRequestRefs> {
+		core.info(`Getting merge request !${prNumber}`);
+		try {
+			const mergeRequest = await this.getMergeRequest(owner, repo, prNumber);
+			return {
+				base: { sha: mergeRequest.diff_refs.base_sha },
+				head: { sha: mergeRequest.diff_refs.head_sha },
+			};
+		} catch (error) {
+			core.error(
+				`Error getting merge request: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			throw error;
+		}
+	}
+
+	async listPRComments(
+		owner: string,
+		repo: string,
+		prNumber: number,
+	): Promise<PullRequestComment[]> {
+		core.info(`Listing merge request notes for !${prNumber}`);
+		try {
+			const notes = await this.getAllPages<GitLabNote>(
+				`/projects/${this.getProjectId(owner, repo)}/merge_requests/${prNumber}/notes?sort=asc&order_by=updated_at`,
+				"Listing merge request notes",
+			);
+			return notes.map((note) => ({
+				id: note.id,
+				author: note.author?.username,
+				body: note.body,
+				created_at: note.created_at,
+				updated_at: note.updated_at,
+			}));
+		} catch (error) {
+			core.error(
+				`Error listing merge request notes: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			throw error;
+		}
+	}
+
+	async listPRCommits(
+		owner: string,
+		repo: string,
+		prNumber: number,
+	): Promise<PullRequestCommit[]> {
+		core.info(`Listing merge request commits for !${prNumber}`);
+		try {
+			const commits = await this.getAllPages<GitLabCommit>(
+				`/projects/${this.getProjectId(owner, repo)}/merge_requests/${prNumber}/commits`,
+				"Listing merge request commits",
+			);
+			// GitLab lists the commits of a merge request newest first
+			return commits
+				.reverse()
+				.map((commit) => GitLabAPI.toPullRequestCommit(commit));
+		} catch (error) {
+			core.error(
+				`Error listing merge request commits: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			throw error;
+		}
+	}
+
+	async getCommit(
+		owner: string,
+		repo: string,
+		sha: string,
+	): Promise<PullRequestCommit> {
+		core.info(`Getting commit ${sha.substring(0, 7)}`);
+		try {
+			const response = await this.request(
+				"GET",
+				`/projects/${this.getProjectId(owner, repo)}/repository/commits/${encodeURIComponent(sha)}`,
+				"Getting commit",
+			);
+			return GitLabAPI.toPullRequestCommit(
+				(await response.json()) as GitLabCommit,
+			);
+		} catch (error) {
+			core.error(
+				`Error getting commit: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			throw error;
+		}
+	}
+
+	async getFilesBetweenCommits(
+		owner: string,
+		repo: string,
+		baseCommit: string,
+		headCommit: string,
+	): Promise<ChangedFile[]> {
+		core.info(
+			`Getting files between commits: ${baseCommit.substring(0, 7)} -> ${headCommit.substring(0, 7)}`,
+		);
+		try {
+			const response = await this.request(
+				"GET",
+				`/projects/${this.getProjectId(owner, repo)}/repository/compare?from=${encodeURIComponent(baseCommit)}&to=${encodeURIComponent(headCommit)}`,
+				"Getting files between commits",
+			);
+			const comparison = (await response.json()) as { diffs?: GitLabDiff[] };
+			return (comparison.diffs ?? []).map((diff) =>
+				GitLabAPI.toChangedFile(diff),
+			);
+		} catch (error) {
+			core.error(
+				`Error getting files between commits: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			throw error;
+		}
+	}
+
+	async getMergeBase(
+		owner: string,
+		repo: string,
+		baseCommit: string,
+		headCommit: string,
+	): Promise<string> {
+		core.info(
+			`Finding merge base: ${baseCommit.substring(0, 7)} -> ${headCommit.substring(0, 7)}`,
+		);
+		try {
+			const refs = [baseCommit, headCommit]
+				.map((ref) => `refs[]=${encodeURIComponent(ref)}`)
+				.join("&");
+			const response = await this.request(
+				"GET",
+				`/projects/${this.getProjectId(owner, repo)}/repository/merge_base?${refs}`,
+				"Finding merge base",
+			);
+			const mergeBase = (await response.json()) as { id: string };
+			return mergeBase.id;
+		} catch (error) {
+			core.error(
+				`Error finding merge base: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			throw error;
+		}
+	}
+
+	/**
+	 * Compares two commits through their merge base. GitLab's compare API does
+	 * not report whether the commits diverged.
+	 */
+	async getComparisonStatus(
+		owner: string,
+		repo: string,
+		baseCommit: string,
+		headCommit: string,
+	): Promise<ComparisonStatus> {
+		if (baseCommit === headCommit) return COMPARISON_STATUSES.IDENTICAL;
+
+		const mergeBase = await this.getMergeBase(
+			owner,
+			repo,
+			baseCommit,
+			headCommit,
+		);
+		if (mergeBase === baseCommit) return COMPARISON_STATUSES.AHEAD;
+		if (mergeBase === headCommit) return COMPARISON_STATUSES.BEHIND;
+		return COMPARISON_STATUSES.DIVERGED;
+	}
+
+	async getContent(
+		owner: string,
+		repo: string,
+		baseRef: string,
+		actualRef: string,
+		filePath: string,
+	): Promise<string> {
+		core.info(`Getting content: ${filePath} (${baseRef} -> ${actualRef})`);
+		try {
+			const response = await this.request(
+				"GET",
+				`/projects/${this.getProjectId(owner, repo)}/repository/files/${encodeURIComponent(filePath)}/raw?ref=${encodeURIComponent(actualRef)}`,
+				`Getting content of ${filePath}`,
+			);
+			const content = await response.text();
+			core.info(
+				`Successfully retrieved content for ${filePath} (${content.length} characters)`,
+			);
+			return content;
+		} catch (error) {
+			// Deleted files only exist in their old version
+			if (
+				error instanceof GitLabAPIError &&
+				error.status === 404 &&
+				baseRef !== actualRef
+			) {
+				core.info(
+					`${filePath} does not exist at ${actualRef}, reading its old version`,
+				);
+				return this.getContent(owner, repo, baseRef, baseRef, filePath);
+			}
+			core.warning(
+				`Error getting content for ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			return "[File content unavailable]";
+		}
+	}
+
+	async createPRComment(
+		owner: string,
+		repo: string,
+		prNumber: number,
+		body: string,
+	): Promise<void> {
+		core.info(`Creating merge request note on !${prNumber}`);
+		try {
+			await this.request(
+				"POST",
+				`/projects/${this.getProjectId(owner, repo)}/merge_requests/${prNumber}/notes`,
+				"Creating merge request note",
+				{ body },
+			);
+			core.info("Merge request note created successfully");
+		} catch (error) {
+			core.error(
+				`Error creating merge request note: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			throw error;
+		}
+	}
+
+	async updatePRComment(
+		owner: string,
+		repo: string,
+		prNumber: number,
+		commentId: number,
+		body: string,
+	): Promise<void> {
+		core.info(`Updating merge request note ${commentId} on !${prNumber}`);
+		try {
+			await this.request(
+				"PUT",
+				`/projects/${this.getProjectId(owner, repo)}/merge_requests/${prNumber}/notes/${commentId}`,
+				"Updating merge request note",
+				{ body },
+			);
+			core.info("Merge request note updated successfully");
+		} catch (error) {
+			core.error(
+				`Error updating merge request note: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			throw error;
+		}
+	}
+
+	/**
+	 * Creates a discussion on a line of a merge request. GitLab discussions
+	 * are anchored to a single line, so comments on a range of lines are
+	 * anchored to the last line and name the range in the body.
+	 */
+	async createReviewComment(
+		owner: string,
+		repo: string,
+		prNumber: number,
+		commitId: string,
+		body: string,
+		path: string,
+		side: ReviewSide,
+		startLine: number,
+		line: number,
+	): Promise<void> {
+		core.info(
+			`Creating merge request discussion on ${path} (${side}, lines ${startLine}-${line})`,
+		);
+		try {
+			const mergeRequest = await this.getMergeRequest(owner, repo, prNumber);
+			const diffs = await this.getMergeRequestDiffs(owner, repo, prNumber);
+			const fileDiff = diffs.find((diff) => diff.new_path === path);
+
+			await this.request(
+				"POST",
+				`/projects/${this.getProjectId(owner, repo)}/merge_requests/${prNumber}/discussions`,
+				"Creating merge request discussion",
+				{
+					body:
+						startLine === line
+							? body
+							: `_Lines ${startLine}-${line}_\n\n${body}`,
+					position: {
+						position_type: "text",
+						base_sha: mergeRequest.diff_refs.base_sha,
+						start_sha: mergeRequest.diff_refs.start_sha,
+						head_sha: commitId,
+						old_path: fileDiff?.old_path ?? path,
+						new_path: path,
+						...GitLabAPI.getLinePosition(fileDiff?.diff, side, line),
+					},
+				},
+			);
+			core.info("Merge request discussion created successfully");
+		} catch (error) {
+			core.error(
+				`Error creating merge request discussion: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			throw error;
+		}
+	}
+
+	/**
+	 * Creates the discussions of a review followed by a note with its body, if
+	 * it has one. GitLab has no API for submitting a review with its comments
+	 * at once, and a discussion with a rejected position does not stop the
+	 * others. GitLab cannot request changes through its REST API, so a review
+	 * requesting changes revokes an earlier approval instead. Like on GitHub, a
+	 * verdict the token may not give leaves the posted review as a comment.
+	 */
+	async createReview(
+		owner: string,
+		repo: string,
+		prNumber: number,
+		commitId: string,
+		body: string,
+		comments: ReviewFinding[],
+		event: ReviewEvent = REVIEW_EVENTS.COMMENT,
+	): Promise<ReviewFinding[]> {
+		core.info(
+			`Creating review on !${prNumber} with ${comments.length} comments (${event})`,
+		);
+		const failedComments: ReviewFinding[] = [];
+		for (const comment of comments) {
+			try {
+				await this.createReviewComment(
+					owner,
+					repo,
+					prNumber,
+					commitId,
+					comment.comment,
+					comment.filePath,
+					comment.side,
+					comment.startLineNumber,
+					comment.endLineNumber,
+				);
+			} catch {
+				// Logged by createReviewComment, the other comments are still posted
+				failedComments.push(comment);
+			}
+		}
+		// Reviews whose summary is kept in a separate note have no body
+		if (body) {
+			await this.createPRComment(owner, repo, prNumber, body);
+		}
+
+		const mergeRequestPath = `/projects/${this.getProjectId(owner, repo)}/merge_requests/${prNumber}`;
+		if (event === REVIEW_EVENTS.APPROVE) {
+			try {
+				await this.request(
+					"POST",
+					`${mergeRequestPath}/approve`,
+					"Approving merge request",
+					{ sha: commitId },
+				);
+				core.info("Merge request approved successfully");
+			} catch (error) {
+				core.warning(
+					`Could not approve the merge request, leaving the review as a comment: ${error instanceof Error ? error.message : String(error)}`,
+				);
+			}
+		} else if (event === REVIEW_EVENTS.REQUEST_CHANGES) {
+			try {
+				await this.request(
+					"POST",
+					`${mergeRequestPath}/unapprove`,
+					"Revoking merge request approval",
+				);
+				core.info("Merge request approval revoked");
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				// GitLab answers 404 if the merge request was not approved
+				if (error instanceof GitLabAPIError && error.status === 404) {
+					core.info(`No merge request approval to revoke: ${message}`);
+				} else {
+					core.warning(
+						`Could not revoke the merge request approval, leaving the review as a comment: ${message}`,
+					);
+				}
+			}
+		}
+		return failedComments;
+	}
+}
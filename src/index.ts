@@ -1,6 +1,22 @@
 import * as core from "@actions/core";
 import { InputProcessor } from "./config/input-processor";
-import { AI_REVIEW_COMMENT_PREFIX, SUMMARY_SEPARATOR } from "./types/constants";
+import { GitHubAPI } from "./github/github-api";
+import { ReviewCheckRun } from "./review/check-run";
+import { runConsensusReview } from "./review/consensus";
+import { writeJobSummary } from "./review/job-summary";
+import { buildReviewReport, publishReviewReport } from "./review/report";
+import { formatReviewState, getActionVersion } from "./review/review-state";
+import { writeSarifReport } from "./review/sarif";
+import { publishSummaryComment } from "./review/summary-comment";
+import { getReviewEvent } from "./review/verdict";
+import {
+	AI_REVIEW_COMMENT_PREFIX,
+	REVIEW_EVENTS,
+	REVIEW_MODES,
+	type ReviewFinding,
+	SUMMARY_COMMENT_MODES,
+	SUMMARY_SEPARATOR,
+} from "./types/constants";
 
 /**
  * Main function to run the GitHub Action
@@ -8,6 +24,7 @@ import { AI_REVIEW_COMMENT_PREFIX, SUMMARY_SEPARATOR } from "./types/constants";
 const main = async (): Promise<void> => {
 	core.info("Starting AI Code Review GitHub Action");
 	const startTime = Date.now();
+	let checkRun: ReviewCheckRun | undefined;
 
 	try {
 		// Create and process inputs
@@ -15,18 +32,136 @@ const main = async (): Promise<void> => {
 		const inputProcessor = await InputProcessor.create();
 		await inputProcessor.processInputs();
 
+		const codeHostAPI = inputProcessor.getCodeHostAPI;
+		const baseCommit = inputProcessor.getBaseCommit;
+		const headCommit = inputProcessor.getHeadCommit;
+		const owner = inputProcessor.getOwner;
+		const repo = inputProcessor.getRepo;
+		const pullNumber = inputProcessor.getPullNumber;
+
+		if (!baseCommit || !headCommit) {
+			throw new Error("Missing commit information");
+		}
+
+		// Publish the results as a check run on GitHub, so that the check can be
+		// required in branch protection
+		if (codeHostAPI instanceof GitHubAPI) {
+			checkRun = await ReviewCheckRun.start(
+				codeHostAPI,
+				owner,
+				repo,
+				headCommit,
+			);
+		}
+
 		// Check if there are files to review
 		if (inputProcessor.getFilteredDiffs.length === 0) {
 			core.info("No files to review. Exiting.");
+			const sarifOutput = inputProcessor.getSarifOutput;
+			if (sarifOutput) writeSarifReport(sarifOutput, []);
+			publishReviewReport(buildReviewReport(headCommit, [], []));
+			await writeJobSummary({
+				reviewedCommit: headCommit,
+				filesReviewed: [],
+				findings: [],
+				progress: inputProcessor.getReviewProgress,
+				usageTracker: inputProcessor.getUsageTracker,
+				configuration: inputProcessor.getConfiguration,
+				durationMs: Date.now() - startTime,
+			});
+			await checkRun?.complete(
+				[],
+				"No files to review.",
+				inputProcessor.getConclusionPolicy,
+			);
 			return;
 		}
 
-		// Get the appropriate AI agent and run the review
 		core.info("Starting code review...");
-		const aiAgent = inputProcessor.getAIAgent();
-		const reviewSummary = await aiAgent.doReview(
-			inputProcessor.getFilteredDiffs,
-		);
+		const usageTracker = inputProcessor.getUsageTracker;
+		let reviewSummary = "";
+		let providerNote = "";
+
+		try {
+			if (inputProcessor.getReviewMode === REVIEW_MODES.CONSENSUS) {
+				// Run the review with every consensus agent and post only the
+				// findings they agree on
+				const consensusAgents = inputProcessor.getConsensusAgents();
+				const fileCommentator = inputProcessor.getFileCommentator;
+				if (!fileCommentator) {
+					throw new Error("Required settings are missing");
+				}
+
+				reviewSummary = await runConsensusReview(
+					consensusAgents,
+					inputProcessor.getFilteredDiffs,
+					fileCommentator,
+					inputProcessor.getConsensusMinAgreement,
+				);
+				providerNote = `Consensus review by ${consensusAgents.map((reviewAgent) => reviewAgent.label).join(", ")}.`;
+			} else {
+				// Run the review with the primary AI agent, falling back to the next
+				// configured agent if it fails
+				const reviewAgents = inputProcessor.getAIAgents();
+				const failedProviders: string[] = [];
+
+				for (const [index, { label, agent }] of reviewAgents.entries()) {
+					try {
+						core.info(`Reviewing with ${label}...`);
+						reviewSummary = await agent.review(inputProcessor.getFilteredDiffs);
+						providerNote =
+							failedProviders.length > 0
+								? `Review completed by ${label} after ${failedProviders.join(", ")} failed.`
+								: `Review completed by ${label}.`;
+						break;
+					} catch (error) {
+						const nextAgent = reviewAgents[index + 1];
+						if (!nextAgent) {
+							throw error;
+						}
+						failedProviders.push(label);
+						core.warning(
+							`Review with ${label} failed: ${error instanceof Error ? error.message : String(error)}. Falling back to ${nextAgent.label}`,
+						);
+						// The fallback agent reviews every file again
+						inputProcessor.discardPendingComments();
+					}
+				}
+			}
+		} catch (error) {
+			// Comments are only posted with the summary, so submit the ones found
+			// before the failure on their own
+			const pendingComments = inputProcessor.getPendingComments;
+			if (pendingComments.length > 0) {
+				core.info(
+					`Submitting ${pendingComments.length} review comments found before the review failed...`,
+				);
+				await codeHostAPI
+					.createReview(
+						owner,
+						repo,
+						pullNumber,
+						headCommit,
+						"The AI review did not complete. These comments were found before it failed.",
+						pendingComments,
+					)
+					.catch((submitError) =>
+						core.warning(
+							`Error submitting review comments: ${submitError instanceof Error ? submitError.message : String(submitError)}`,
+						),
+					);
+			}
+			throw error;
+		} finally {
+			// Report usage even if every provider failed, tokens were still spent
+			core.info(usageTracker.format());
+			core.setOutput("input_tokens", usageTracker.totalInputTokens);
+			core.setOutput("output_tokens", usageTracker.totalOutputTokens);
+			core.setOutput(
+				"estimated_cost_usd",
+				usageTracker.estimatedCostUsd.toFixed(4),
+			);
+		}
 
 		// Validate review summary
 		if (
@@ -37,20 +172,104 @@ const main = async (): Promise<void> => {
 			throw new Error("AI Agent did not return a valid review summary");
 		}
 
-		// Create a comment with the review summary
-		const githubAPI = inputProcessor.getGithubAPI;
-		const headCommit = inputProcessor.getHeadCommit;
-		const owner = inputProcessor.getOwner;
-		const repo = inputProcessor.getRepo;
-		const pullNumber = inputProcessor.getPullNumber;
-
-		if (!headCommit) {
-			throw new Error("Missing head commit information");
+		// Submit the review comments as one review, requesting changes if a
+		// finding is severe enough. The summary is the body of the review, or
+		// kept in one comment that is updated on every run.
+		const pendingComments = inputProcessor.getPendingComments;
+		const reviewEvent = getReviewEvent(
+			pendingComments,
+			inputProcessor.getVerdictMode,
+			inputProcessor.getRequestChangesOn,
+		);
+		core.info(
+			`Submitting review with ${pendingComments.length} comments to pull request (${reviewEvent})...`,
+		);
+		// The hidden review state lets the next run review only newer commits
+		const reviewState = formatReviewState({
+			headSha: headCommit,
+			baseSha: baseCommit,
+			actionVersion: getActionVersion(),
+			configHash: inputProcessor.getConfigHash,
+		});
+		// Explain why only some commits, or all files, were reviewed
+		const reviewScopeNote = inputProcessor.getReviewScopeNote;
+		const commentBody = `${AI_REVIEW_COMMENT_PREFIX}${headCommit}${SUMMARY_SEPARATOR}${reviewSummary}\n\n---\n_${reviewScopeNote ? `${reviewScopeNote} ` : ""}${providerNote} ${usageTracker.format()}._\n\n${reviewState}`;
+		const updateSummaryComment =
+			inputProcessor.getSummaryCommentMode === SUMMARY_COMMENT_MODES.UPDATE;
+		let failedComments: ReviewFinding[] = [];
+		if (!updateSummaryComment) {
+			failedComments = await codeHostAPI.createReview(
+				owner,
+				repo,
+				pullNumber,
+				headCommit,
+				commentBody,
+				pendingComments,
+				reviewEvent,
+			);
+		} else if (
+			pendingComments.length > 0 ||
+			reviewEvent !== REVIEW_EVENTS.COMMENT
+		) {
+			// GitHub needs a body for reviews requesting changes, GitLab posts
+			// the body as a separate note
+			failedComments = await codeHostAPI.createReview(
+				owner,
+				repo,
+				pullNumber,
+				headCommit,
+				codeHostAPI instanceof GitHubAPI
+					? `AI review of ${headCommit.substring(0, 7)}: ${pendingComments.length} findings. The summary is in the AI review comment of this pull request.`
+					: "",
+				pendingComments,
+				reviewEvent,
+			);
 		}
-
-		core.info("Adding review summary comment to pull request...");
-		const commentBody = `${AI_REVIEW_COMMENT_PREFIX}${headCommit}${SUMMARY_SEPARATOR}${reviewSummary}`;
-		await githubAPI.createPRComment(owner, repo, pullNumber, commentBody);
+		const sarifOutput = inputProcessor.getSarifOutput;
+		if (sarifOutput) writeSarifReport(sarifOutput, pendingComments);
+		// Files left out because of a limit or missing content were not reviewed
+		const skippedFiles = new Set(
+			inputProcessor.getReviewProgress.skipped.map((file) => file.filename),
+		);
+		const filesReviewed = inputProcessor.getFilteredDiffs
+			.map((file) => file.filename)
+			.filter((filename) => !skippedFiles.has(filename));
+		const report = buildReviewReport(
+			headCommit,
+			filesReviewed,
+			pendingComments,
+			failedComments,
+		);
+		if (updateSummaryComment) {
+			await publishSummaryComment(
+				codeHostAPI,
+				owner,
+				repo,
+				pullNumber,
+				commentBody,
+				{
+					baseCommit,
+					headCommit,
+					issuesCount: report.issuesCount,
+					severityCounts: report.severityCounts,
+				},
+			);
+		}
+		publishReviewReport(report);
+		await writeJobSummary({
+			reviewedCommit: headCommit,
+			filesReviewed,
+			findings: pendingComments,
+			progress: inputProcessor.getReviewProgress,
+			usageTracker,
+			configuration: inputProcessor.getConfiguration,
+			durationMs: Date.now() - startTime,
+		});
+		await checkRun?.complete(
+			pendingComments,
+			reviewSummary,
+			inputProcessor.getConclusionPolicy,
+		);
 
 		const duration = Math.round((Date.now() - startTime) / 1000);
 		core.info(`Code review completed successfully in ${duration} seconds`);
@@ -67,6 +286,7 @@ const main = async (): Promise<void> => {
 		const failAction =
 			core.getInput("fail_action_if_review_failed", { required: false }) ===
 			"true";
+		await checkRun?.fail(errorMessage, failAction);
 		if (!failAction) {
 			core.warning("Action is configured to continue despite errors");
 		} else {
@@ -0,0 +1,138 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import {
+	type ChangedFile,
+	FILE_STATUSES,
+	type FileStatus,
+} from "../types/constants";
+import { countPatchChanges } from "../utils/diff";
+
+const execFileAsync = promisify(execFile);
+
+// Output limit of a git command, large enough for the diff of a big branch
+const MAX_GIT_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Run a git command
+ * @param args - Arguments passed to git
+ * @param cwd - Directory of the repository
+ * @returns Standard output of the command
+ * @throws Error if git fails
+ */
+export const runGit = async (args: string[], cwd: string): Promise<string> => {
+	try {
+		const { stdout } = await execFileAsync("git", args, {
+			cwd,
+			maxBuffer: MAX_GIT_OUTPUT_BYTES,
+		});
+		return stdout;
+	} catch (error) {
+		throw new Error(
+			`Error running git ${args.join(" ")}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+};
+
+/**
+ * Get the file status from the extended header lines of a file diff
+ */
+const getFileStatus = (headerLines: string[]): FileStatus => {
+	if (headerLines.some((line) => line.startsWith("new file mode"))) {
+		return FILE_STATUSES.ADDED;
+	}
+	if (headerLines.some((line) => line.startsWith("deleted file mode"))) {
+		return FILE_STATUSES.REMOVED;
+	}
+	if (headerLines.some((line) => line.startsWith("rename from "))) {
+		return FILE_STATUSES.RENAMED;
+	}
+	if (headerLines.some((line) => line.startsWith("copy from "))) {
+		return FILE_STATUSES.COPIED;
+	}
+	return FILE_STATUSES.MODIFIED;
+};
+
+/**
+ * Get the path of the new version of a file from its diff header lines,
+ * falling back to the old path for deleted files
+ */
+const getFilename = (headerLines: string[]): string => {
+	const findPath = (prefix: string): string | undefined =>
+		headerLines
+			.find((line) => line.startsWith(prefix))
+			?.slice(prefix.length)
+			.trim();
+
+	const newPath = findPath("+++ b/") ?? findPath("rename to ");
+	if (newPath) return newPath;
+	const oldPath = findPath("--- a/");
+	if (oldPath) return oldPath;
+
+	// Binary files and mode changes only have the "diff --git a/x b/y" line
+	const gitLine = headerLines[0] ?? "";
+	return gitLine.slice(gitLine.lastIndexOf(" b/") + 3).trim();
+};
+
+/**
+ * Parse the output of git diff into changed files, in the format returned by
+ * the GitHub API (the patch starts at the first hunk header)
+ * @param diff - Output of git diff
+ * @returns Changed files in diff order
+ */
+export const parseGitDiff = (diff: string): ChangedFile[] =>
+	diff
+		.split(/^diff --git /m)
+		.filter((section) => section.trim() !== "")
+		.map((section) => {
+			const lines = section.replace(/\n$/, "").split("\n");
+			const firstHunk = lines.findIndex((line) => line.startsWith("@@ "));
+			const headerLines = firstHunk === -1 ? lines : lines.slice(0, firstHunk);
+			const patchLines = firstHunk === -1 ? [] : lines.slice(firstHunk);
+
+			const patch = patchLines.length > 0 ? patchLines.join("\n") : undefined;
+			const { additions, deletions } = countPatchChanges(patch);
+
+			return {
+				filename: getFilename(headerLines),
+				status: getFileStatus(headerLines),
+				additions,
+				deletions,
+				changes: additions + deletions,
+				patch,
+			};
+		});
+
+/**
+ * Get the files changed on the current branch of a local repository
+ * @param base - Branch or commit the changes are compared to
+ * @param head - Branch or commit with the changes; the working tree if omitted
+ * @param cwd - Directory of the repository
+ * @returns Changed files since the merge base of base and head
+ * @throws Error if git fails
+ */
+export const getLocalChangedFiles = async (
+	base: string,
+	head: string | undefined,
+	cwd: string,
+): Promise<ChangedFile[]> => {
+	// Compare with the merge base so that changes made on the base branch since
+	// the branch point are not reviewed
+	const mergeBase = (
+		await runGit(["merge-base", base, head ?? "HEAD"], cwd)
+	).trim();
+
+	const diff = await runGit(
+		[
+			"-c",
+			"core.quotePath=false",
+			"diff",
+			"--no-color",
+			"--no-ext-diff",
+			"--find-renames",
+			mergeBase,
+			...(head ? [head] : []),
+		],
+		cwd,
+	);
+	return parseGitDiff(diff);
+};
@@ -0,0 +1,161 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as core from "@actions/core";
+import { getProvider } from "../ai/providers";
+import {
+	type FileCommentator,
+	type FileContentGetter,
+	REVIEW_SIDES,
+} from "../types/constants";
+import { type FileFilter, filterChangedFiles } from "../utils/file-filter";
+import { type UsageLimits, UsageTracker } from "../utils/usage";
+import { getLocalChangedFiles } from "./git-diff";
+
+/**
+ * Settings of a review of local changes
+ */
+export interface LocalReviewOptions {
+	/** Branch or commit the changes are compared to */
+	base: string;
+	/** Branch or commit with the changes; the working tree if omitted */
+	head?: string;
+	/** Provider id, as accepted by the ai_provider input */
+	provider: string;
+	/** Model name; read from the provider's model variable if omitted */
+	model?: string;
+	/** Root directory of the repository */
+	rootDir: string;
+	filter: FileFilter;
+	verifyFindings: boolean;
+	usageLimits: UsageLimits;
+	/** Writes findings and the summary to the terminal or a file */
+	write: (text: string) => void;
+}
+
+/**
+ * Get the environment variable holding an action input, e.g. ANTHROPIC_API_KEY
+ * for the anthropic_api_key input
+ * @param inputName - Name of the action input
+ */
+export const getInputVariableName = (inputName: string): string =>
+	inputName.toUpperCase();
+
+/**
+ * Create a file content getter that reads files from the working tree
+ * @param rootDir - Root directory of the repository
+ * @returns File content getter
+ */
+export const createWorkingTreeContentGetter =
+	(rootDir: string): FileContentGetter =>
+	async (filePath) => {
+		const root = path.resolve(rootDir);
+		const resolvedPath = path.resolve(root, filePath);
+		if (!resolvedPath.startsWith(`${root}${path.sep}`)) {
+			core.warning(`Path ${filePath} is outside the repository`);
+			throw new Error(`Path ${filePath} is outside the repository`);
+		}
+
+		try {
+			return await fs.readFile(resolvedPath, "utf-8");
+		} catch (error) {
+			core.warning(
+				`Error reading ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			throw error;
+		}
+	};
+
+/**
+ * Create a file commentator that writes findings as markdown instead of
+ * posting them
+ * @param write - Writes text to the terminal or a file
+ * @returns File commentator
+ */
+export const createConsoleCommentator =
+	(write: (text: string) => void): FileCommentator =>
+	async (comment, filePath, side, startLineNumber, endLineNumber) => {
+		if (!comment || comment.trim() === "") {
+			throw new Error("Comment text cannot be empty");
+		}
+		if (startLineNumber < 1 || endLineNumber < startLineNumber) {
+			throw new Error(
+				`Invalid line numbers: ${startLineNumber}-${endLineNumber}`,
+			);
+		}
+
+		const location = `${filePath}:${startLineNumber}-${endLineNumber}${side === REVIEW_SIDES.LEFT ? " (removed lines)" : ""}`;
+		write(`## ${location}\n\n${comment.trim()}\n\n`);
+	};
+
+/**
+ * Review the changes of a local repository without GitHub
+ * @param options - Review settings
+ * @param env - Environment holding the provider's API key and settings
+ * @returns Review summary, or an empty string if there is nothing to review
+ * @throws Error if the provider settings are missing or the review fails
+ */
+export const runLocalReview = async (
+	options: LocalReviewOptions,
+	env: Record<string, string | undefined> = process.env,
+): Promise<string> => {
+	const provider = getProvider(options.provider);
+
+	// Provider settings come from the environment, named after the action inputs
+	const readInput = (
+		name: string,
+		required: boolean,
+		defaultValue?: string,
+	): string => {
+		const value = env[getInputVariableName(name)] || defaultValue || "";
+		if (required && !value) {
+			throw new Error(
+				`Set ${getInputVariableName(name)} to use the ${provider.displayName} provider`,
+			);
+		}
+		return value;
+	};
+	const apiKey = readInput(
+		provider.apiKeyInput.name,
+		provider.apiKeyInput.required,
+	);
+	const model =
+		options.model ||
+		readInput(
+			provider.modelInput.name,
+			provider.modelInput.required,
+			provider.modelInput.default,
+		);
+	const settings: Record<string, string> = {};
+	for (const input of provider.extraInputs ?? []) {
+		settings[input.name] = readInput(input.name, input.required, input.default);
+	}
+
+	const changedFiles = filterChangedFiles(
+		await getLocalChangedFiles(options.base, options.head, options.rootDir),
+		options.filter,
+	);
+	if (changedFiles.length === 0) {
+		core.info("No files to review.");
+		return "";
+	}
+
+	core.info(
+		`Reviewing ${changedFiles.length} files changed since ${options.base} with ${provider.displayName} (${model})`,
+	);
+	const usageTracker = new UsageTracker(options.usageLimits);
+	const agent = provider.create({
+		apiKey,
+		model,
+		fileContentGetter: createWorkingTreeContentGetter(options.rootDir),
+		fileCommentator: createConsoleCommentator(options.write),
+		settings,
+		options: {
+			usageTracker,
+			verifyFindings: options.verifyFindings,
+		},
+	});
+
+	const summary = await agent.review(changedFiles);
+	options.write(`${summary}\n\n---\n_${usageTracker.format()}._\n`);
+	return summary;
+};
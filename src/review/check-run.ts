@@ -0,0 +1,184 @@
+import * as core from "@actions/core";
+import type {
+	CheckAnnotation,
+	CheckConclusion,
+	GitHubAPI,
+} from "../github/github-api";
+import {
+	CONCLUSION_POLICIES,
+	type ConclusionPolicy,
+	REVIEW_SIDES,
+	type ReviewFinding,
+	SEVERITIES,
+	type Severity,
+} from "../types/constants";
+
+// Name of the check run the review results are published to
+export const CHECK_RUN_NAME = "Lone Code Guardian";
+
+// Annotation level of the findings of each severity
+const ANNOTATION_LEVELS: Record<Severity, CheckAnnotation["annotation_level"]> =
+	{
+		[SEVERITIES.HIGH]: "failure",
+		[SEVERITIES.MEDIUM]: "warning",
+		[SEVERITIES.LOW]: "notice",
+	};
+
+// Severities that fail the check under each conclusion policy
+const FAILING_SEVERITIES: Record<ConclusionPolicy, Severity[]> = {
+	[CONCLUSION_POLICIES.NEUTRAL]: [],
+	[CONCLUSION_POLICIES.FAIL_ON_HIGH]: [SEVERITIES.HIGH],
+	[CONCLUSION_POLICIES.FAIL_ON_MEDIUM]: [SEVERITIES.MEDIUM, SEVERITIES.HIGH],
+	[CONCLUSION_POLICIES.FAIL_ON_ANY]: [
+		SEVERITIES.LOW,
+		SEVERITIES.MEDIUM,
+		SEVERITIES.HIGH,
+	],
+};
+
+/**
+ * Convert findings into check run annotations. Annotations refer to lines of
+ * the new file version, so findings on deleted lines are left out.
+ * Findings without a severity are annotated as medium severity.
+ * @param findings - Findings to annotate
+ * @returns Check run annotations
+ */
+export const toCheckAnnotations = (
+	findings: ReviewFinding[],
+): CheckAnnotation[] =>
+	findings
+		.filter((finding) => finding.side === REVIEW_SIDES.RIGHT)
+		.map((finding) => {
+			const severity = finding.severity ?? SEVERITIES.MEDIUM;
+			return {
+				path: finding.filePath,
+				start_line: finding.startLineNumber,
+				end_line: finding.endLineNumber,
+				annotation_level: ANNOTATION_LEVELS[severity],
+				title: `${severity.charAt(0).toUpperCase()}${severity.slice(1)} severity finding`,
+				message: finding.comment,
+			};
+		});
+
+/**
+ * Decide the conclusion of the check run from the severities of the findings
+ * @param findings - Findings posted by the review
+ * @param policy - Conclusion policy
+ * @returns Success without findings, failure if a finding fails the policy,
+ * neutral otherwise
+ */
+export const getCheckConclusion = (
+	findings: ReviewFinding[],
+	policy: ConclusionPolicy,
+): CheckConclusion => {
+	if (findings.length === 0) return "success";
+	const failing = FAILING_SEVERITIES[policy];
+	return findings.some((finding) =>
+		failing.includes(finding.severity ?? SEVERITIES.MEDIUM),
+	)
+		? "failure"
+		: "neutral";
+};
+
+/**
+ * Check run publishing the results of a review on the head commit. Check run
+ * errors never fail the review, they are only logged.
+ */
+export class ReviewCheckRun {
+	private constructor(
+		private githubAPI: GitHubAPI,
+		private owner: string,
+		private repo: string,
+		private checkRunId: number,
+	) {}
+
+	/**
+	 * Start an in-progress check run
+	 * @param githubAPI - GitHub API client
+	 * @param owner - Repository owner
+	 * @param repo - Repository name
+	 * @param headSha - Commit under review
+	 * @returns The check run, or undefined if it could not be created (for
+	 * example without the checks: write permission)
+	 */
+	static async start(
+		githubAPI: GitHubAPI,
+		owner: string,
+		repo: string,
+		headSha: string,
+	): Promise<ReviewCheckRun | undefined> {
+		try {
+			const checkRunId = await githubAPI.createCheckRun(
+				owner,
+				repo,
+				headSha,
+				CHECK_RUN_NAME,
+			);
+			return new ReviewCheckRun(githubAPI, owner, repo, checkRunId);
+		} catch (error) {
+			core.warning(
+				`Could not create the check run, results are only posted as a review (does the job have the checks: write permission?): ${error instanceof Error ? error.message : String(error)}`,
+			);
+			return undefined;
+		}
+	}
+
+	/**
+	 * Complete the check run with the findings and summary of the review
+	 * @param findings - Findings posted by the review
+	 * @param summary - Review summary
+	 * @param policy - Conclusion policy
+	 */
+	async complete(
+		findings: ReviewFinding[],
+		summary: string,
+		policy: ConclusionPolicy,
+	): Promise<void> {
+		await this.finish(
+			getCheckConclusion(findings, policy),
+			findings.length === 1 ? "1 finding" : `${findings.length} findings`,
+			summary,
+			toCheckAnnotations(findings),
+		);
+	}
+
+	/**
+	 * Complete the check run of a review that failed
+	 * @param message - Error message of the review
+	 * @param failCheck - Whether the check fails, otherwise it is neutral
+	 */
+	async fail(message: string, failCheck: boolean): Promise<void> {
+		await this.finish(
+			failCheck ? "failure" : "neutral",
+			"Review failed",
+			`The AI review did not complete: ${message}`,
+			[],
+		);
+	}
+
+	/**
+	 * Complete the check run, logging errors
+	 */
+	private async finish(
+		conclusion: CheckConclusion,
+		title: string,
+		summary: string,
+		annotations: CheckAnnotation[],
+	): Promise<void> {
+		try {
+			await this.githubAPI.completeCheckRun(
+				this.owner,
+				this.repo,
+				this.checkRunId,
+				conclusion,
+				title,
+				summary,
+				annotations,
+			);
+		} catch (error) {
+			core.warning(
+				`Could not complete the check run: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+}
@@ -0,0 +1,265 @@
+import * as core from "@actions/core";
+import type { AIAgent } from "../ai/ai-agent";
+import type {
+	ChangedFile,
+	FileCommentator,
+	ReviewFinding,
+} from "../types/constants";
+
+// Findings whose line ranges are this many lines apart still count as overlapping
+const LINE_TOLERANCE = 3;
+
+// Minimum word overlap (Jaccard index) for two descriptions to match
+const MIN_DESCRIPTION_SIMILARITY = 0.2;
+
+// Words that carry no meaning when comparing descriptions, including the
+// severity and category labels added by the agents
+const STOP_WORDS = new Set([
+	"the",
+	"and",
+	"for",
+	"this",
+	"that",
+	"with",
+	"are",
+	"was",
+	"not",
+	"can",
+	"should",
+	"could",
+	"would",
+	"may",
+	"might",
+	"will",
+	"from",
+	"into",
+	"when",
+	"which",
+	"there",
+	"here",
+	"its",
+	"has",
+	"have",
+	"been",
+	"being",
+	"issue",
+	"severity",
+	"low",
+	"medium",
+	"high",
+	"suggested",
+	"fix",
+	"consider",
+]);
+
+/**
+ * Agent taking part in a consensus review, with the findings it reported
+ */
+export interface ConsensusAgent {
+	label: string;
+	agent: AIAgent;
+	findings: ReviewFinding[];
+}
+
+/**
+ * Group of matching findings reported by different agents
+ */
+export interface ConsensusFinding {
+	/** Finding of the first agent that reported it, used for the comment */
+	finding: ReviewFinding;
+	/** Labels of the agents that reported the finding */
+	agents: string[];
+}
+
+/**
+ * Create a file commentator that collects findings instead of posting them
+ * @param findings - Array the findings are added to
+ * @returns File commentator
+ */
+export const createFindingCollector =
+	(findings: ReviewFinding[]): FileCommentator =>
+	async (comment, filePath, side, startLineNumber, endLineNumber, details) => {
+		if (!comment || comment.trim() === "") {
+			throw new Error("Comment text cannot be empty");
+		}
+		if (startLineNumber < 1 || endLineNumber < startLineNumber) {
+			throw new Error(
+				`Invalid line numbers: ${startLineNumber}-${endLineNumber}`,
+			);
+		}
+		findings.push({
+			comment,
+			filePath,
+			side,
+			startLineNumber,
+			endLineNumber,
+			...details,
+		});
+	};
+
+/**
+ * Split a description into the set of meaningful lowercase words
+ */
+const toWordSet = (text: string): Set<string> =>
+	new Set(
+		text
+			.toLowerCase()
+			.split(/[^a-z0-9_]+/)
+			.filter((word) => word.length > 2 && !STOP_WORDS.has(word)),
+	);
+
+/**
+ * Compute the similarity of two finding descriptions
+ * @param a - First description
+ * @param b - Second description
+ * @returns Jaccard index of their words, between 0 and 1
+ */
+export const descriptionSimilarity = (a: string, b: string): number => {
+	const wordsA = toWordSet(a);
+	const wordsB = toWordSet(b);
+	if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+	let shared = 0;
+	for (const word of wordsA) {
+		if (wordsB.has(word)) shared++;
+	}
+	return shared / (wordsA.size + wordsB.size - shared);
+};
+
+/**
+ * Check whether two findings point at the same code
+ * @param a - First finding
+ * @param b - Second finding
+ */
+export const findingsOverlap = (a: ReviewFinding, b: ReviewFinding): boolean =>
+	a.filePath === b.filePath &&
+	a.side === b.side &&
+	a.startLineNumber <= b.endLineNumber + LINE_TOLERANCE &&
+	b.startLineNumber <= a.endLineNumber + LINE_TOLERANCE;
+
+/**
+ * Group the findings of several agents into matching findings
+ * @param agents - Agents with their findings, in order of preference
+ * @returns Groups of matching findings, in the order they were first reported
+ */
+export const groupFindings = (
+	agents: Array<Pick<ConsensusAgent, "label" | "findings">>,
+): ConsensusFinding[] => {
+	const groups: Array<ConsensusFinding & { members: ReviewFinding[] }> = [];
+
+	for (const { label, findings } of agents) {
+		for (const finding of findings) {
+			// Join the most similar group that this agent has not joined yet
+			let bestGroup: (typeof groups)[number] | undefined;
+			let bestSimilarity = MIN_DESCRIPTION_SIMILARITY;
+			for (const group of groups) {
+				if (group.agents.includes(label)) continue;
+				for (const member of group.members) {
+					if (!findingsOverlap(member, finding)) continue;
+					const similarity = descriptionSimilarity(
+						member.comment,
+						finding.comment,
+					);
+					if (similarity >= bestSimilarity) {
+						bestGroup = group;
+						bestSimilarity = similarity;
+					}
+				}
+			}
+
+			if (bestGroup) {
+				bestGroup.agents.push(label);
+				bestGroup.members.push(finding);
+			} else {
+				groups.push({ finding, agents: [label], members: [finding] });
+			}
+		}
+	}
+
+	return groups.map(({ finding, agents }) => ({ finding, agents }));
+};
+
+/**
+ * Run a review with several agents and post only the findings that at least
+ * a minimum number of them agree on
+ * @param agents - Agents whose file commentators collect their findings
+ * @param changedFiles - Files to review
+ * @param fileCommentator - File commentator used to post the agreed findings
+ * @param minAgreement - Minimum number of agents that must report a finding
+ * @returns Review summary
+ * @throws Error if fewer agents than minAgreement complete their review
+ */
+export const runConsensusReview = async (
+	agents: ConsensusAgent[],
+	changedFiles: ChangedFile[],
+	fileCommentator: FileCommentator,
+	minAgreement: number,
+): Promise<string> => {
+	const summaries: Array<{ label: string; summary: string }> = [];
+	const completedAgents: ConsensusAgent[] = [];
+
+	for (const reviewAgent of agents) {
+		try {
+			core.info(`Reviewing with ${reviewAgent.label}...`);
+			const summary = await reviewAgent.agent.review(changedFiles);
+			summaries.push({ label: reviewAgent.label, summary });
+			completedAgents.push(reviewAgent);
+			core.info(
+				`${reviewAgent.label} reported ${reviewAgent.findings.length} findings`,
+			);
+		} catch (error) {
+			core.warning(
+				`Review with ${reviewAgent.label} failed: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+
+	if (completedAgents.length < minAgreement) {
+		throw new Error(
+			`Only ${completedAgents.length} of ${agents.length} agents completed their review, at least ${minAgreement} are required for consensus`,
+		);
+	}
+
+	const groups = groupFindings(completedAgents);
+	const agreed = groups.filter((group) => group.agents.length >= minAgreement);
+	core.info(
+		`${agreed.length} of ${groups.length} findings were reported by at least ${minAgreement} agents`,
+	);
+
+	let postedFindings = 0;
+	for (const { finding, agents: reportedBy } of agreed) {
+		const {
+			comment,
+			filePath,
+			side,
+			startLineNumber,
+			endLineNumber,
+			...details
+		} = finding;
+		try {
+			await fileCommentator(
+				`${comment}\n\n_Reported by ${reportedBy.join(", ")}_`,
+				filePath,
+				side,
+				startLineNumber,
+				endLineNumber,
+				details,
+			);
+			postedFindings++;
+		} catch (error) {
+			core.warning(
+				`Failed to post finding for ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+
+	// Nest the headings of each agent's summary under the agent's heading
+	const agentSummaries = summaries
+		.map(
+			({ label, summary }) =>
+				`## ${label}\n\n${summary.replace(/^(#+) /gm, "$1## ")}`,
+		)
+		.join("\n\n");
+
+	return `# Consensus Review Summary\n\nPosted ${postedFindings} findings reported by at least ${minAgreement} of ${completedAgents.length} models; ${groups.length - agreed.length} findings reported by fewer models were discarded.\n\n${agentSummaries}`;
+};
@@ -0,0 +1,171 @@
+import * as core from "@actions/core";
+import {
+	FINDING_CATEGORIES,
+	type ReviewFinding,
+	SEVERITIES,
+	SKIP_REASONS,
+	type Severity,
+	type SkipReason,
+} from "../types/constants";
+import type { UsageTracker } from "../utils/usage";
+import type { ReviewProgress } from "./review-progress";
+
+type Summary = typeof core.summary;
+
+// Badge shown for the findings of each severity
+const SEVERITY_BADGES: Record<Severity, string> = {
+	[SEVERITIES.HIGH]: "🔴 High",
+	[SEVERITIES.MEDIUM]: "🟠 Medium",
+	[SEVERITIES.LOW]: "🟡 Low",
+};
+
+// Description of each reason for skipping a file
+const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+	[SKIP_REASONS.FILTERED]: "excluded by the file filters",
+	[SKIP_REASONS.CONTENT_UNAVAILABLE]: "content unavailable",
+	[SKIP_REASONS.STEP_LIMIT]: "step limit hit",
+	[SKIP_REASONS.USAGE_LIMIT]: "usage cap reached",
+};
+
+/**
+ * Results of a run shown in the job summary
+ */
+export interface JobSummaryData {
+	reviewedCommit: string;
+	filesReviewed: string[];
+	findings: ReviewFinding[];
+	progress: ReviewProgress;
+	usageTracker: UsageTracker;
+	configuration: Array<[name: string, value: string]>;
+	durationMs: number;
+}
+
+/**
+ * Escape text for the HTML of the job summary
+ */
+const escapeHtml = (text: string): string =>
+	text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+
+/**
+ * Format a duration in seconds with one decimal
+ */
+const formatDuration = (durationMs: number): string =>
+	`${(durationMs / 1000).toFixed(1)}s`;
+
+/**
+ * Add the results of a run to a job summary: the findings per file, the
+ * skipped files, the time spent on each file, the token usage and the
+ * configuration. Findings without a severity are shown as medium severity.
+ * @param summary - Job summary to add to
+ * @param data - Results of the run
+ * @returns The job summary
+ */
+export const buildJobSummary = (
+	summary: Summary,
+	data: JobSummaryData,
+): Summary => {
+	const severityOf = (finding: ReviewFinding): Severity =>
+		finding.severity ?? SEVERITIES.MEDIUM;
+	const countOf = (severity: Severity): number =>
+		data.findings.filter((finding) => severityOf(finding) === severity).length;
+
+	summary
+		.addHeading("AI Code Review", 2)
+		.addRaw(
+			`Reviewed ${data.filesReviewed.length} files up to commit <code>${escapeHtml(data.reviewedCommit)}</code> in ${formatDuration(data.durationMs)}: ${data.findings.length} findings (${countOf(SEVERITIES.HIGH)} high, ${countOf(SEVERITIES.MEDIUM)} medium, ${countOf(SEVERITIES.LOW)} low).`,
+			true,
+		);
+
+	summary.addHeading("Findings", 3);
+	if (data.findings.length === 0) {
+		summary.addRaw("No findings.", true);
+	} else {
+		const findings = [...data.findings].sort(
+			(a, b) =>
+				a.filePath.localeCompare(b.filePath) ||
+				a.startLineNumber - b.startLineNumber,
+		);
+		summary.addTable([
+			[
+				{ data: "File", header: true },
+				{ data: "Lines", header: true },
+				{ data: "Severity", header: true },
+				{ data: "Category", header: true },
+				{ data: "Finding", header: true },
+			],
+			...findings.map((finding) => [
+				`<code>${escapeHtml(finding.filePath)}</code>`,
+				finding.startLineNumber === finding.endLineNumber
+					? String(finding.startLineNumber)
+					: `${finding.startLineNumber}-${finding.endLineNumber}`,
+				SEVERITY_BADGES[severityOf(finding)],
+				finding.category ?? FINDING_CATEGORIES.OTHER,
+				// Only the first line of the comment, without markdown emphasis
+				escapeHtml(finding.comment.split("\n")[0].replace(/\*\*/g, "").trim()),
+			]),
+		]);
+	}
+
+	const skipped = data.progress.skipped;
+	if (skipped.length > 0) {
+		summary
+			.addHeading("Skipped Files", 3)
+			.addList(
+				skipped.map(
+					({ filename, reason, detail }) =>
+						`<code>${escapeHtml(filename)}</code>: ${SKIP_REASON_LABELS[reason]}${detail ? ` (${escapeHtml(detail)})` : ""}`,
+				),
+			);
+	}
+
+	const timings = data.progress.fileTimings;
+	if (timings.length > 0) {
+		summary.addHeading("Timings", 3).addTable([
+			[
+				{ data: "File", header: true },
+				{ data: "Duration", header: true },
+				{ data: "Steps", header: true },
+			],
+			...timings.map((timing) => [
+				`<code>${escapeHtml(timing.filename)}</code>`,
+				formatDuration(timing.durationMs),
+				timing.stepLimitReached
+					? `${timing.steps} (step limit hit)`
+					: String(timing.steps),
+			]),
+		]);
+	}
+
+	return summary
+		.addHeading("Token Usage", 3)
+		.addRaw(`${escapeHtml(data.usageTracker.format())}.`, true)
+		.addDetails(
+			"Configuration",
+			`<ul>${data.configuration.map(([name, value]) => `<li>${escapeHtml(name)}: ${escapeHtml(value)}</li>`).join("")}</ul>`,
+		);
+};
+
+/**
+ * Write the results of a run to the job summary of the workflow run. Outside
+ * of GitHub Actions there is no job summary and nothing is written.
+ * @param data - Results of the run
+ */
+export const writeJobSummary = async (data: JobSummaryData): Promise<void> => {
+	if (!process.env.GITHUB_STEP_SUMMARY) {
+		core.info("No job summary available, skipping it");
+		return;
+	}
+
+	try {
+		await buildJobSummary(core.summary.emptyBuffer(), data).write();
+		core.info("Job summary written");
+	} catch (error) {
+		core.warning(
+			`Could not write the job summary: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+};
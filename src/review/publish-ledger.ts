@@ -0,0 +1,59 @@
+import { createHash } from "node:crypto";
+import * as core from "@actions/core";
+import type { ReviewFinding } from "../types/constants";
+
+/**
+ * Ledger of the findings published in a run, used to post each finding at
+ * most once even when a review is retried or handed to a fallback agent
+ */
+export class PublishLedger {
+	private keys = new Set<string>();
+
+	/**
+	 * Build the ledger key of a finding from its location and a hash of its
+	 * whitespace-normalized description
+	 * @param finding - Finding to identify
+	 * @returns Ledger key
+	 */
+	static getKey(finding: ReviewFinding): string {
+		const descriptionHash = createHash("sha256")
+			.update(finding.comment.trim().replace(/\s+/g, " "))
+			.digest("hex")
+			.slice(0, 16);
+		return `${finding.filePath}:${finding.side}:${finding.startLineNumber}-${finding.endLineNumber}:${descriptionHash}`;
+	}
+
+	/**
+	 * Check whether a finding was already published
+	 * @param finding - Finding to check
+	 */
+	has(finding: ReviewFinding): boolean {
+		return this.keys.has(PublishLedger.getKey(finding));
+	}
+
+	/**
+	 * Record a published finding
+	 * @param finding - Finding that was published
+	 */
+	record(finding: ReviewFinding): void {
+		const key = PublishLedger.getKey(finding);
+		this.keys.add(key);
+		core.debug(`Recorded published finding ${key}`);
+	}
+
+	/**
+	 * Forget a finding whose comment was discarded, so that it can be
+	 * published again
+	 * @param finding - Finding to forget
+	 */
+	forget(finding: ReviewFinding): void {
+		this.keys.delete(PublishLedger.getKey(finding));
+	}
+
+	/**
+	 * Number of findings published in the run
+	 */
+	get size(): number {
+		return this.keys.size;
+	}
+}
@@ -0,0 +1,129 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as core from "@actions/core";
+import {
+	FINDING_CATEGORIES,
+	type FindingCategory,
+	type ReviewFinding,
+	type ReviewSide,
+	SEVERITIES,
+	type Severity,
+} from "../types/constants";
+
+// File name of the report, written to the runner's temporary directory
+const REPORT_FILE_NAME = "ai-review-report.json";
+
+// Severities from lowest to highest
+const SEVERITY_ORDER: Severity[] = Object.values(SEVERITIES);
+
+/**
+ * Finding of the review report
+ */
+export interface ReportFinding {
+	file: string;
+	side: ReviewSide;
+	startLine: number;
+	endLine: number;
+	severity: Severity;
+	category: FindingCategory;
+	comment: string;
+	suggestedFix?: string;
+	posted: boolean;
+}
+
+/**
+ * Report of a review, written as JSON and exposed as action outputs
+ */
+export interface ReviewReport {
+	reviewedCommit: string;
+	filesReviewed: string[];
+	issuesCount: number;
+	severityCounts: Record<Severity, number>;
+	// Highest severity of the findings, "none" without findings
+	overallSeverity: Severity | "none";
+	findings: ReportFinding[];
+}
+
+/**
+ * Build the report of a review. Findings without a severity count as medium
+ * severity, findings without a category as "other".
+ * @param reviewedCommit - Commit under review
+ * @param filesReviewed - Names of the reviewed files
+ * @param findings - Findings submitted with the review
+ * @param failedFindings - Findings that could not be posted
+ * @returns Review report
+ */
+export const buildReviewReport = (
+	reviewedCommit: string,
+	filesReviewed: string[],
+	findings: ReviewFinding[],
+	failedFindings: ReviewFinding[] = [],
+): ReviewReport => {
+	const failed = new Set(failedFindings);
+	const reportFindings = findings.map(
+		(finding): ReportFinding => ({
+			file: finding.filePath,
+			side: finding.side,
+			startLine: finding.startLineNumber,
+			endLine: finding.endLineNumber,
+			severity: finding.severity ?? SEVERITIES.MEDIUM,
+			category: finding.category ?? FINDING_CATEGORIES.OTHER,
+			comment: finding.comment,
+			...(finding.suggestedFix ? { suggestedFix: finding.suggestedFix } : {}),
+			posted: !failed.has(finding),
+		}),
+	);
+
+	const severityCounts = Object.fromEntries(
+		SEVERITY_ORDER.map((severity) => [
+			severity,
+			reportFindings.filter((finding) => finding.severity === severity).length,
+		]),
+	) as Record<Severity, number>;
+	const overallSeverity =
+		[...SEVERITY_ORDER]
+			.reverse()
+			.find((severity) => severityCounts[severity]) ?? "none";
+
+	return {
+		reviewedCommit,
+		filesReviewed,
+		issuesCount: reportFindings.length,
+		severityCounts,
+		overallSeverity,
+		findings: reportFindings,
+	};
+};
+
+/**
+ * Write the report to the runner's temporary directory and expose it as
+ * action outputs
+ * @param report - Review report
+ * @returns Path of the written report
+ * @throws Error if the report cannot be written
+ */
+export const publishReviewReport = (report: ReviewReport): string => {
+	const reportPath = path.join(
+		process.env.RUNNER_TEMP || os.tmpdir(),
+		REPORT_FILE_NAME,
+	);
+	try {
+		fs.writeFileSync(reportPath, `${JSON.stringify(report, null, 2)}\n`);
+		core.info(`Review report written to ${reportPath}`);
+	} catch (error) {
+		throw new Error(
+			`Error writing review report: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+
+	core.setOutput("issues_count", report.issuesCount);
+	core.setOutput("high_count", report.severityCounts[SEVERITIES.HIGH]);
+	core.setOutput("medium_count", report.severityCounts[SEVERITIES.MEDIUM]);
+	core.setOutput("low_count", report.severityCounts[SEVERITIES.LOW]);
+	core.setOutput("overall_severity", report.overallSeverity);
+	core.setOutput("files_reviewed", report.filesReviewed.length);
+	core.setOutput("reviewed_commit", report.reviewedCommit);
+	core.setOutput("report_path", reportPath);
+	return reportPath;
+};
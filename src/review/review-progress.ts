@@ -0,0 +1,73 @@
+import type { SkipReason } from "../types/constants";
+
+/**
+ * Changed file that was not reviewed
+ */
+export interface SkippedFile {
+	filename: string;
+	reason: SkipReason;
+	detail?: string;
+}
+
+/**
+ * Time and steps an agent spent reviewing a file
+ */
+export interface FileTiming {
+	filename: string;
+	durationMs: number;
+	steps: number;
+	stepLimitReached: boolean;
+}
+
+/**
+ * Records which files were reviewed, how long that took and which files were
+ * skipped, across all agents of a run
+ */
+export class ReviewProgress {
+	private skippedFiles = new Map<string, SkippedFile>();
+	private timings = new Map<string, FileTiming>();
+
+	/**
+	 * Record a file that was not reviewed. Files that were already reviewed,
+	 * for example by an agent before a fallback, are not recorded.
+	 * @param filename - Name of the file
+	 * @param reason - Reason the file was skipped
+	 * @param detail - Optional explanation, such as the reached limit
+	 */
+	skipFile(filename: string, reason: SkipReason, detail?: string): void {
+		if (this.timings.has(filename) || this.skippedFiles.has(filename)) return;
+		this.skippedFiles.set(filename, { filename, reason, detail });
+	}
+
+	/**
+	 * Record the review of a file. Time and steps of repeated reviews, such as
+	 * retries and fallback reviews, are added up.
+	 * @param filename - Name of the file
+	 * @param durationMs - Time spent reviewing the file
+	 * @param steps - Number of model steps spent on the file
+	 * @param stepLimitReached - Whether the review stopped at the step limit
+	 */
+	recordFile(
+		filename: string,
+		durationMs: number,
+		steps: number,
+		stepLimitReached = false,
+	): void {
+		this.skippedFiles.delete(filename);
+		const timing = this.timings.get(filename);
+		this.timings.set(filename, {
+			filename,
+			durationMs: (timing?.durationMs ?? 0) + durationMs,
+			steps: (timing?.steps ?? 0) + steps,
+			stepLimitReached: (timing?.stepLimitReached ?? false) || stepLimitReached,
+		});
+	}
+
+	get skipped(): SkippedFile[] {
+		return [...this.skippedFiles.values()];
+	}
+
+	get fileTimings(): FileTiming[] {
+		return [...this.timings.values()];
+	}
+}
@@ -0,0 +1,103 @@
+import { createHash } from "node:crypto";
+import type { PullRequestCommit } from "../code-host/code-host";
+import { REVIEW_STATE_MARKER } from "../types/constants";
+
+/**
+ * State of a review run, recorded in a hidden marker of its summary so that
+ * the next run only reviews the commits pushed since
+ */
+export interface ReviewState {
+	// Last commit covered by the review
+	headSha: string;
+	// Commit the review compared against
+	baseSha: string;
+	actionVersion: string;
+	// Hash of the settings that decide which files are reviewed and how
+	configHash: string;
+}
+
+/**
+ * Get the version of the action, the ref it was run at
+ * @returns Version of the action, or "unknown" outside of GitHub Actions
+ */
+export const getActionVersion = (): string =>
+	process.env.GITHUB_ACTION_REF || "unknown";
+
+/**
+ * Hash the settings of a review, so that a later run can tell whether the
+ * previous review was made with the same settings
+ * @param settings - Settings that decide which files are reviewed and how
+ * @returns Hash of the settings
+ */
+export const getConfigHash = (settings: Record<string, unknown>): string =>
+	createHash("sha256")
+		.update(JSON.stringify(settings))
+		.digest("hex")
+		.slice(0, 16);
+
+/**
+ * Format the state of a review as a hidden marker
+ * @param state - State of the review
+ * @returns HTML comment holding the state
+ */
+export const formatReviewState = (state: ReviewState): string =>
+	`${REVIEW_STATE_MARKER} ${JSON.stringify(state)} -->`;
+
+/**
+ * Read the state of a review from the hidden marker of its summary
+ * @param body - Body of the summary
+ * @returns State of the review, or undefined if the marker is missing or
+ * invalid
+ */
+export const parseReviewState = (body: string): ReviewState | undefined => {
+	const markerStart = body.lastIndexOf(REVIEW_STATE_MARKER);
+	if (markerStart === -1) return undefined;
+
+	const markerEnd = body.indexOf("-->", markerStart);
+	if (markerEnd === -1) return undefined;
+
+	try {
+		const state = JSON.parse(
+			body.slice(markerStart + REVIEW_STATE_MARKER.length, markerEnd),
+		);
+		const isValid = ["headSha", "baseSha", "actionVersion", "configHash"].every(
+			(key) => typeof state?.[key] === "string",
+		);
+		// Commit SHAs end up in API paths, so only hexadecimal ones are accepted
+		return isValid && /^[0-9a-f]{7,64}$/.test(state.headSha)
+			? {
+					headSha: state.headSha,
+					baseSha: state.baseSha,
+					actionVersion: state.actionVersion,
+					configHash: state.configHash,
+				}
+			: undefined;
+	} catch {
+		return undefined;
+	}
+};
+
+/**
+ * Find the version of a reviewed commit that a rebase or force-push put in
+ * the history of the pull request. Commits are matched by what a rebase
+ * keeps: the commit message and the author date.
+ * @param reviewedCommit - Reviewed commit that is no longer in the history
+ * @param commits - Commits of the pull request, oldest first
+ * @returns SHA of the rebased version of the commit, or undefined if the pull
+ * request has none
+ */
+export const findRebasedCommit = (
+	reviewedCommit: PullRequestCommit,
+	commits: PullRequestCommit[],
+): string | undefined => {
+	if (!reviewedCommit.authorDate) return undefined;
+
+	return [...commits]
+		.reverse()
+		.find(
+			(commit) =>
+				commit.sha !== reviewedCommit.sha &&
+				commit.message === reviewedCommit.message &&
+				commit.authorDate === reviewedCommit.authorDate,
+		)?.sha;
+};
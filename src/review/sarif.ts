@@ -0,0 +1,238 @@
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as core from "@actions/core";
+import {
+	FINDING_CATEGORIES,
+	type FindingCategory,
+	REVIEW_SIDES,
+	type ReviewFinding,
+	SEVERITIES,
+	type Severity,
+} from "../types/constants";
+import { CHECK_RUN_NAME } from "./check-run";
+
+// Location of the published SARIF 2.1.0 schema
+const SARIF_SCHEMA_URI = "https://json.schemastore.org/sarif-2.1.0.json";
+
+// SARIF level of the findings of each severity
+const SARIF_LEVELS: Record<Severity, SarifLevel> = {
+	[SEVERITIES.HIGH]: "error",
+	[SEVERITIES.MEDIUM]: "warning",
+	[SEVERITIES.LOW]: "note",
+};
+
+// Description of the rule of each finding category
+const RULE_DESCRIPTIONS: Record<FindingCategory, string> = {
+	[FINDING_CATEGORIES.SECURITY]: "Security vulnerability",
+	[FINDING_CATEGORIES.PERFORMANCE]: "Performance problem",
+	[FINDING_CATEGORIES.BUG]: "Bug or logic error",
+	[FINDING_CATEGORIES.TYPE_SAFETY]: "Type safety issue",
+	[FINDING_CATEGORIES.ERROR_HANDLING]: "Missing or incorrect error handling",
+	[FINDING_CATEGORIES.MAINTAINABILITY]: "Maintainability issue",
+	[FINDING_CATEGORIES.BEST_PRACTICE]: "Deviation from best practices",
+	[FINDING_CATEGORIES.OTHER]: "Other issue",
+};
+
+type SarifLevel = "error" | "warning" | "note";
+
+/**
+ * Region of lines in a file
+ */
+interface SarifRegion {
+	startLine: number;
+	endLine: number;
+}
+
+/**
+ * Result of a SARIF run, describing one finding
+ */
+interface SarifResult {
+	ruleId: string;
+	ruleIndex: number;
+	level: SarifLevel;
+	message: { text: string };
+	locations: Array<{
+		physicalLocation: {
+			artifactLocation: { uri: string; uriBaseId: string };
+			region: SarifRegion;
+		};
+	}>;
+	partialFingerprints: Record<string, string>;
+	fixes?: Array<{
+		description: { text: string };
+		artifactChanges: Array<{
+			artifactLocation: { uri: string; uriBaseId: string };
+			replacements: Array<{
+				deletedRegion: SarifRegion;
+				insertedContent: { text: string };
+			}>;
+		}>;
+	}>;
+	properties: { severity: Severity };
+}
+
+/**
+ * SARIF 2.1.0 log with a single run
+ */
+export interface SarifLog {
+	$schema: string;
+	version: "2.1.0";
+	runs: Array<{
+		tool: {
+			driver: {
+				name: string;
+				rules: Array<{
+					id: string;
+					name: string;
+					shortDescription: { text: string };
+					properties: { tags: string[] };
+				}>;
+			};
+		};
+		results: SarifResult[];
+	}>;
+}
+
+/**
+ * Convert a file path into a relative URI
+ */
+const toUri = (filePath: string): string =>
+	filePath.split("/").map(encodeURIComponent).join("/");
+
+/**
+ * Convert a rule id such as "type-safety" into a rule name such as "TypeSafety"
+ */
+const toRuleName = (ruleId: string): string =>
+	ruleId
+		.split("-")
+		.map((word) => `${word.charAt(0).toUpperCase()}${word.slice(1)}`)
+		.join("");
+
+/**
+ * Build the fingerprint of a finding from its file, category and
+ * whitespace-normalized description. Lines are left out so that the finding
+ * keeps its fingerprint when code above it changes.
+ */
+const getFingerprint = (
+	finding: ReviewFinding,
+	category: FindingCategory,
+): string =>
+	createHash("sha256")
+		.update(
+			[
+				finding.filePath,
+				category,
+				finding.comment.trim().replace(/\s+/g, " "),
+			].join("\n"),
+		)
+		.digest("hex")
+		.slice(0, 32);
+
+/**
+ * Build a SARIF 2.1.0 log of the findings of a review. Every finding category
+ * is a rule. Locations refer to lines of the new file version, so findings on
+ * deleted lines are left out. Findings without a severity are reported as
+ * medium severity, findings without a category as "other".
+ * @param findings - Findings posted by the review
+ * @returns SARIF log
+ */
+export const buildSarifLog = (findings: ReviewFinding[]): SarifLog => {
+	const ruleIds: FindingCategory[] = Object.values(FINDING_CATEGORIES);
+
+	const results = findings
+		.filter((finding) => finding.side === REVIEW_SIDES.RIGHT)
+		.map((finding): SarifResult => {
+			const category = finding.category ?? FINDING_CATEGORIES.OTHER;
+			const severity = finding.severity ?? SEVERITIES.MEDIUM;
+			const artifactLocation = {
+				uri: toUri(finding.filePath),
+				uriBaseId: "%SRCROOT%",
+			};
+			const region = {
+				startLine: finding.startLineNumber,
+				endLine: finding.endLineNumber,
+			};
+
+			return {
+				ruleId: category,
+				ruleIndex: ruleIds.indexOf(category),
+				level: SARIF_LEVELS[severity],
+				message: { text: finding.comment },
+				locations: [{ physicalLocation: { artifactLocation, region } }],
+				// Lets code scanning track a finding across runs
+				partialFingerprints: {
+					"lcgFindingHash/v1": getFingerprint(finding, category),
+				},
+				...(finding.suggestedFix
+					? {
+							fixes: [
+								{
+									description: { text: "Suggested fix" },
+									artifactChanges: [
+										{
+											artifactLocation,
+											replacements: [
+												{
+													deletedRegion: region,
+													insertedContent: { text: finding.suggestedFix },
+												},
+											],
+										},
+									],
+								},
+							],
+						}
+					: {}),
+				properties: { severity },
+			};
+		});
+
+	return {
+		$schema: SARIF_SCHEMA_URI,
+		version: "2.1.0",
+		runs: [
+			{
+				tool: {
+					driver: {
+						name: CHECK_RUN_NAME,
+						rules: ruleIds.map((ruleId) => ({
+							id: ruleId,
+							name: toRuleName(ruleId),
+							shortDescription: { text: RULE_DESCRIPTIONS[ruleId] },
+							properties: {
+								tags:
+									ruleId === FINDING_CATEGORIES.SECURITY
+										? ["ai-review", "security"]
+										: ["ai-review"],
+							},
+						})),
+					},
+				},
+				results,
+			},
+		],
+	};
+};
+
+/**
+ * Write the findings of a review to a SARIF file
+ * @param filePath - Path of the SARIF file
+ * @param findings - Findings posted by the review
+ * @throws Error if the file cannot be written
+ */
+export const writeSarifReport = (
+	filePath: string,
+	findings: ReviewFinding[],
+): void => {
+	try {
+		const log = buildSarifLog(findings);
+		fs.writeFileSync(filePath, `${JSON.stringify(log, null, 2)}\n`);
+		core.info(
+			`SARIF report with ${log.runs[0].results.length} results written to ${filePath}`,
+		);
+	} catch (error) {
+		throw new Error(
+			`Error writing SARIF report: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+};
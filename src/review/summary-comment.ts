@@ -0,0 +1,148 @@
+import * as core from "@actions/core";
+import { z } from "zod";
+import type { CodeHostAPI } from "../code-host/code-host";
+import {
+	SEVERITIES,
+	SUMMARY_COMMENT_MARKER,
+	type Severity,
+} from "../types/constants";
+
+// Number of runs kept in the history of the summary comment
+const MAX_HISTORY_RUNS = 20;
+
+/**
+ * Review run listed in the history of the summary comment
+ */
+export interface SummaryRun {
+	baseCommit: string;
+	headCommit: string;
+	issuesCount: number;
+	severityCounts: Record<Severity, number>;
+}
+
+// Schema of a recorded run, the marker can be edited by anyone who can edit
+// the comment
+const SummaryRunSchema: z.ZodType<SummaryRun> = z.object({
+	baseCommit: z.string(),
+	headCommit: z.string(),
+	issuesCount: z.number(),
+	severityCounts: z.object({
+		[SEVERITIES.HIGH]: z.number(),
+		[SEVERITIES.MEDIUM]: z.number(),
+		[SEVERITIES.LOW]: z.number(),
+	}),
+});
+
+/**
+ * Read the runs recorded in the hidden marker of a summary comment
+ * @param body - Body of the summary comment
+ * @returns Recorded runs, oldest first; empty if the marker is missing or
+ * invalid. Invalid runs are left out.
+ */
+export const parseSummaryRuns = (body: string): SummaryRun[] => {
+	const markerStart = body.lastIndexOf(SUMMARY_COMMENT_MARKER);
+	if (markerStart === -1) return [];
+
+	const markerEnd = body.indexOf("-->", markerStart);
+	if (markerEnd === -1) return [];
+
+	try {
+		const state = JSON.parse(
+			body.slice(markerStart + SUMMARY_COMMENT_MARKER.length, markerEnd),
+		);
+		if (!Array.isArray(state?.runs)) return [];
+
+		return state.runs.flatMap((run: unknown) => {
+			const result = SummaryRunSchema.safeParse(run);
+			return result.success ? [result.data] : [];
+		});
+	} catch {
+		return [];
+	}
+};
+
+/**
+ * Describe a run in the history of the summary comment
+ */
+const formatRun = (run: SummaryRun): string =>
+	`- \`${run.baseCommit.substring(0, 7)}..${run.headCommit.substring(0, 7)}\`: ${run.issuesCount} findings (${run.severityCounts[SEVERITIES.HIGH]} high, ${run.severityCounts[SEVERITIES.MEDIUM]} medium, ${run.severityCounts[SEVERITIES.LOW]} low)`;
+
+/**
+ * Build the body of the summary comment: the summary of the latest run, a
+ * collapsed history of the earlier runs and a hidden marker recording the
+ * runs for the next update
+ * @param summary - Summary of the latest run
+ * @param runs - All runs, oldest first, the latest run last
+ * @returns Comment body
+ */
+export const buildSummaryComment = (
+	summary: string,
+	runs: SummaryRun[],
+): string => {
+	const earlierRuns = runs.slice(0, -1).reverse();
+	const history =
+		earlierRuns.length > 0
+			? `\n\n<details>\n<summary>Earlier reviews (${earlierRuns.length})</summary>\n\n${earlierRuns.map(formatRun).join("\n")}\n\n</details>`
+			: "";
+	return `${summary}${history}\n\n${SUMMARY_COMMENT_MARKER} ${JSON.stringify({ runs })} -->`;
+};
+
+/**
+ * Publish the summary of a run in the summary comment of the pull request,
+ * updating the previous summary comment if there is one. Only comments posted
+ * by the action's own user are updated, others could forge the run history.
+ * @param codeHostAPI - Code host API
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param prNumber - Pull request number
+ * @param summary - Summary of the run
+ * @param run - The run
+ */
+export const publishSummaryComment = async (
+	codeHostAPI: CodeHostAPI,
+	owner: string,
+	repo: string,
+	prNumber: number,
+	summary: string,
+	run: SummaryRun,
+): Promise<void> => {
+	const comments = await codeHostAPI.listPRComments(owner, repo, prNumber);
+
+	let ownUser: string | undefined;
+	try {
+		ownUser = await codeHostAPI.getAuthenticatedUser();
+	} catch (error) {
+		core.warning(
+			`Could not identify the code host user, creating a new summary comment: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+
+	const previous = [...comments].reverse().find((comment) => {
+		if (
+			comment.id === undefined ||
+			!comment.body?.includes(SUMMARY_COMMENT_MARKER)
+		) {
+			return false;
+		}
+		if (comment.author !== ownUser) {
+			core.warning(
+				`Ignoring summary comment posted by ${comment.author ?? "an unknown user"} instead of ${ownUser}`,
+			);
+			return false;
+		}
+		return true;
+	});
+
+	const runs = [...parseSummaryRuns(previous?.body ?? ""), run].slice(
+		-MAX_HISTORY_RUNS,
+	);
+	const body = buildSummaryComment(summary, runs);
+
+	if (previous?.id !== undefined) {
+		core.info("Updating the summary comment");
+		await codeHostAPI.updatePRComment(owner, repo, prNumber, previous.id, body);
+	} else {
+		core.info("Creating the summary comment");
+		await codeHostAPI.createPRComment(owner, repo, prNumber, body);
+	}
+};
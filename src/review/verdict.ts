@@ -0,0 +1,40 @@
+import {
+	REVIEW_EVENTS,
+	type ReviewEvent,
+	type ReviewFinding,
+	SEVERITIES,
+	type Severity,
+	VERDICT_MODES,
+	type VerdictMode,
+} from "../types/constants";
+
+// Severities from lowest to highest
+const SEVERITY_ORDER: Severity[] = Object.values(SEVERITIES);
+
+/**
+ * Decide the event a review is submitted with from the severities of its
+ * findings. Findings without a severity count as medium severity.
+ * @param findings - Findings submitted with the review
+ * @param mode - Verdict mode
+ * @param requestChangesOn - Lowest severity that requests changes
+ * @returns Review event
+ */
+export const getReviewEvent = (
+	findings: ReviewFinding[],
+	mode: VerdictMode,
+	requestChangesOn: Severity,
+): ReviewEvent => {
+	if (mode === VERDICT_MODES.COMMENT) return REVIEW_EVENTS.COMMENT;
+
+	const threshold = SEVERITY_ORDER.indexOf(requestChangesOn);
+	const requestsChanges = findings.some(
+		(finding) =>
+			SEVERITY_ORDER.indexOf(finding.severity ?? SEVERITIES.MEDIUM) >=
+			threshold,
+	);
+	if (requestsChanges) return REVIEW_EVENTS.REQUEST_CHANGES;
+
+	return mode === VERDICT_MODES.APPROVE
+		? REVIEW_EVENTS.APPROVE
+		: REVIEW_EVENTS.COMMENT;
+};
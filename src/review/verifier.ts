@@ -0,0 +1,97 @@
+import { z } from "zod";
+import type { ReviewFinding } from "../types/constants";
+import { formatWithLineNumbers } from "../utils/diff";
+
+// Lines of code shown to the verifier around the finding
+const VERIFICATION_CONTEXT_LINES = 15;
+
+/**
+ * Schema for the verifier's verdict on a single finding
+ */
+export const FindingVerdictSchema = z.object({
+	confirmed: z
+		.boolean()
+		.describe(
+			"True only if the finding describes a real problem in the shown code",
+		),
+	reason: z.string().describe("One or two sentences explaining the verdict"),
+});
+
+export type FindingVerdict = z.infer<typeof FindingVerdictSchema>;
+
+/**
+ * Finding rejected by the verifier, with the verifier's reason
+ */
+export interface DiscardedFinding {
+	finding: ReviewFinding;
+	reason: string;
+}
+
+/**
+ * Build the prompt asking a model to confirm or reject a finding
+ * @param finding - Finding to verify
+ * @param fileContent - Content of the file the finding refers to
+ * @param hunks - Diff hunks touching the finding's lines
+ * @returns Verification prompt
+ */
+export const buildVerificationPrompt = (
+	finding: ReviewFinding,
+	fileContent: string,
+	hunks: string,
+): string => {
+	const lines = fileContent.split("\n");
+	const startLine = Math.max(
+		1,
+		finding.startLineNumber - VERIFICATION_CONTEXT_LINES,
+	);
+	const endLine = Math.min(
+		lines.length,
+		finding.endLineNumber + VERIFICATION_CONTEXT_LINES,
+	);
+	const code = formatWithLineNumbers(
+		lines.slice(startLine - 1, endLine).join("\n"),
+		startLine,
+	);
+
+	return `You are verifying a finding of an automated code review before it is posted on a pull request. False positives erode the developers' trust in the review, so reject the finding unless the code clearly shows the problem.
+
+Reject the finding if:
+- The described problem does not exist in the shown code, or the code already handles it
+- It refers to code other than lines ${finding.startLineNumber}-${finding.endLineNumber}
+- It is a style preference, a speculative concern or a request for more information
+
+Finding on ${finding.filePath}, lines ${finding.startLineNumber}-${finding.endLineNumber} (${finding.side === "LEFT" ? "removed code" : "new code"}):
+${finding.comment}
+
+Code of ${finding.filePath} (lines ${startLine}-${endLine}, each line is prefixed with its line number):
+\`\`\`
+${code}
+\`\`\`
+
+Diff hunk:
+\`\`\`diff
+${hunks || "(the lines are not part of the diff)"}
+\`\`\``;
+};
+
+/**
+ * Format the discarded findings as a collapsed section of the summary
+ * @param discarded - Findings rejected by the verifier
+ * @returns Markdown section, or an empty string if nothing was discarded
+ */
+export const formatDiscardedFindings = (
+	discarded: DiscardedFinding[],
+): string => {
+	if (discarded.length === 0) return "";
+
+	const items = discarded.map(({ finding, reason }) => {
+		// Only the first line of the comment, without markdown emphasis
+		const description = finding.comment
+			.split("\n")[0]
+			.replace(/\*\*/g, "")
+			.trim();
+		return `- \`${finding.filePath}:${finding.startLineNumber}-${finding.endLineNumber}\`: ${description}\n  - _Rejected_: ${reason}`;
+	});
+
+	return `<details>\n<summary>Discarded findings (${discarded.length})</summary>\n\n${items.join("\n")}\n\n</details>`;
+};
@@ -8,9 +8,11 @@ export const AI_REVIEW_COMMENT_PREFIX = "AI review done up to commit: ";
 // Separator for the summary section in review comments
 export const SUMMARY_SEPARATOR = "\n\n### AI Review Summary:\n";
 
-// Supported AI providers
-export const SUPPORTED_PROVIDERS = ["anthropic", "google"] as const;
-export type AIProvider = (typeof SUPPORTED_PROVIDERS)[number];
+// Hidden marker identifying the summary comment that is updated in place
+export const SUMMARY_COMMENT_MARKER = "<!-- lone-code-guardian:summary";
+
+// Hidden marker recording the state of a review for incremental reviews
+export const REVIEW_STATE_MARKER = "<!-- lone-code-guardian:state";
 
 // Tool names used in the application
 export const TOOL_NAMES = {
@@ -42,6 +44,117 @@ export const FILE_STATUSES = {
 
 export type FileStatus = (typeof FILE_STATUSES)[keyof typeof FILE_STATUSES];
 
+// Code hosts the review comments are posted to
+export const CODE_HOSTS = {
+	GITHUB: "github",
+	GITLAB: "gitlab",
+} as const;
+
+export type CodeHost = (typeof CODE_HOSTS)[keyof typeof CODE_HOSTS];
+
+// Review modes (a single agent with fallbacks, or several agents that must agree)
+export const REVIEW_MODES = {
+	SINGLE: "single",
+	CONSENSUS: "consensus",
+} as const;
+
+export type ReviewMode = (typeof REVIEW_MODES)[keyof typeof REVIEW_MODES];
+
+// Severities of findings, from lowest to highest
+export const SEVERITIES = {
+	LOW: "low",
+	MEDIUM: "medium",
+	HIGH: "high",
+} as const;
+
+export type Severity = (typeof SEVERITIES)[keyof typeof SEVERITIES];
+
+// Categories of findings, used as rule ids in reports
+export const FINDING_CATEGORIES = {
+	SECURITY: "security",
+	PERFORMANCE: "performance",
+	BUG: "bug",
+	TYPE_SAFETY: "type-safety",
+	ERROR_HANDLING: "error-handling",
+	MAINTAINABILITY: "maintainability",
+	BEST_PRACTICE: "best-practice",
+	OTHER: "other",
+} as const;
+
+export type FindingCategory =
+	(typeof FINDING_CATEGORIES)[keyof typeof FINDING_CATEGORIES];
+
+// Events a pull request review is submitted with
+export const REVIEW_EVENTS = {
+	COMMENT: "COMMENT",
+	APPROVE: "APPROVE",
+	REQUEST_CHANGES: "REQUEST_CHANGES",
+} as const;
+
+export type ReviewEvent = (typeof REVIEW_EVENTS)[keyof typeof REVIEW_EVENTS];
+
+// Verdict modes of the review_event input: always comment, or request changes
+// for severe findings and otherwise comment or approve
+export const VERDICT_MODES = {
+	COMMENT: "comment",
+	REQUEST_CHANGES: "request_changes",
+	APPROVE: "approve",
+} as const;
+
+export type VerdictMode = (typeof VERDICT_MODES)[keyof typeof VERDICT_MODES];
+
+// Conclusion policies of the check run: neutral never fails the check, the
+// others fail it when a finding of at least the given severity was posted
+export const CONCLUSION_POLICIES = {
+	NEUTRAL: "neutral",
+	FAIL_ON_HIGH: "fail_on_high",
+	FAIL_ON_MEDIUM: "fail_on_medium",
+	FAIL_ON_ANY: "fail_on_any",
+} as const;
+
+export type ConclusionPolicy =
+	(typeof CONCLUSION_POLICIES)[keyof typeof CONCLUSION_POLICIES];
+
+// Outcomes of publishing a finding
+export const PUBLISH_OUTCOMES = {
+	PUBLISHED: "published",
+	DUPLICATE: "duplicate",
+	REJECTED: "rejected",
+} as const;
+
+export type PublishOutcome =
+	(typeof PUBLISH_OUTCOMES)[keyof typeof PUBLISH_OUTCOMES];
+
+// Reasons for a changed file not being reviewed
+export const SKIP_REASONS = {
+	FILTERED: "filtered",
+	CONTENT_UNAVAILABLE: "content_unavailable",
+	STEP_LIMIT: "step_limit",
+	USAGE_LIMIT: "usage_limit",
+} as const;
+
+export type SkipReason = (typeof SKIP_REASONS)[keyof typeof SKIP_REASONS];
+
+// Relation of a head commit to a base commit, as reported by a comparison
+export const COMPARISON_STATUSES = {
+	AHEAD: "ahead",
+	BEHIND: "behind",
+	IDENTICAL: "identical",
+	DIVERGED: "diverged",
+} as const;
+
+export type ComparisonStatus =
+	(typeof COMPARISON_STATUSES)[keyof typeof COMPARISON_STATUSES];
+
+// Ways of publishing the review summary on later runs
+export const SUMMARY_COMMENT_MODES = {
+	UPDATE: "update",
+	APPEND: "append",
+} as const;
+
+export type SummaryCommentMode =
+	(typeof SUMMARY_COMMENT_MODES)[keyof typeof SUMMARY_COMMENT_MODES];
+
 // ChangedFile interface representing a file that was changed in a PR
 export interface ChangedFile {
 	filename: string;
@@ -52,9 +165,18 @@ export interface ChangedFile {
 	patch?: string;
 }
 
-// Type for the function that gets file content
+// Type for the function that gets file content, rejecting if the content is
+// unavailable
 export type FileContentGetter = (filePath: string) => Promise<string>;
 
+// Classification of a finding, used for verdicts and reports
+export interface FindingDetails {
+	severity?: Severity;
+	category?: FindingCategory;
+	// Code replacing the commented lines
+	suggestedFix?: string;
+}
+
 // Type for the function that adds a review comment
 export type FileCommentator = (
 	comment: string,
@@ -62,8 +184,18 @@ export type FileCommentator = (
 	side: ReviewSide,
 	startLineNumber: number,
 	endLineNumber: number,
+	details?: FindingDetails,
 ) => Promise<void>;
 
+// Review comment reported by an AI agent
+export interface ReviewFinding extends FindingDetails {
+	comment: string;
+	filePath: string;
+	side: ReviewSide;
+	startLineNumber: number;
+	endLineNumber: number;
+}
+
 // Tool call interfaces
 export interface GetFileContentArgs {
 	path_to_file: string;
@@ -77,6 +209,8 @@ export interface AddReviewCommentArgs {
 	end_line_number: number;
 	found_error_description: string;
 	side?: ReviewSide;
+	severity?: Severity;
+	category?: FindingCategory;
 }
 
 export interface MarkAsDoneArgs {
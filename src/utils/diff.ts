@@ -0,0 +1,317 @@
+import { REVIEW_SIDES, type ReviewSide } from "../types/constants";
+import { estimateTokens } from "./tokens";
+
+// Lines of unchanged code kept around each diff hunk in a window
+const DEFAULT_WINDOW_CONTEXT_LINES = 30;
+
+// Header of a hunk: old start and line count, new start and line count
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Hunk of a unified diff
+ */
+export interface DiffHunk {
+	oldStart: number;
+	oldLines: number;
+	newStart: number;
+	newLines: number;
+}
+
+/**
+ * Hunk of a unified diff with the lines review comments can be placed on
+ */
+export interface ParsedDiffHunk extends DiffHunk {
+	/** Lines of the old file shown in the hunk: removed and unchanged lines */
+	leftLines: Set<number>;
+	/** Lines of the new file shown in the hunk: added and unchanged lines */
+	rightLines: Set<number>;
+}
+
+/**
+ * Range of lines of one side of a diff
+ */
+export interface LineRange {
+	startLine: number;
+	endLine: number;
+}
+
+/**
+ * Range of lines of a file sent to the model
+ */
+export interface FileWindow {
+	/** First line of the window (1-indexed) */
+	startLine: number;
+	/** Last line of the window (inclusive) */
+	endLine: number;
+	content: string;
+}
+
+/**
+ * Read the line numbers of a hunk header
+ */
+const toDiffHunk = (match: RegExpMatchArray): DiffHunk => ({
+	oldStart: Number(match[1]),
+	oldLines: match[2] === undefined ? 1 : Number(match[2]),
+	newStart: Number(match[3]),
+	newLines: match[4] === undefined ? 1 : Number(match[4]),
+});
+
+/**
+ * Parse the hunk headers of a unified diff patch
+ * @param patch - Patch as returned by the GitHub API
+ * @returns Hunks in the order they appear in the patch
+ */
+export const parseDiffHunks = (patch?: string): DiffHunk[] => {
+	if (!patch) return [];
+
+	return [...patch.matchAll(new RegExp(HUNK_HEADER, "gm"))].map(toDiffHunk);
+};
+
+/**
+ * Parse a unified diff patch into its hunks and the lines of each hunk that
+ * review comments can be placed on. File headers (such as `diff --git` and
+ * `+++ b/file`) and "No newline at end of file" markers are skipped.
+ * @param patch - Patch of a file, with or without file headers
+ * @returns Hunks in the order they appear in the patch
+ */
+export const parseUnifiedDiff = (patch?: string): ParsedDiffHunk[] => {
+	if (!patch) return [];
+
+	const hunks: ParsedDiffHunk[] = [];
+	let hunk: ParsedDiffHunk | undefined;
+	let oldLine = 0;
+	let newLine = 0;
+	for (const line of patch.split("\n")) {
+		const header = line.match(HUNK_HEADER);
+		if (header) {
+			hunk = {
+				...toDiffHunk(header),
+				leftLines: new Set(),
+				rightLines: new Set(),
+			};
+			hunks.push(hunk);
+			oldLine = hunk.oldStart;
+			newLine = hunk.newStart;
+			continue;
+		}
+
+		// Lines before the first hunk or past the line counts of a hunk are
+		// file headers
+		if (
+			!hunk ||
+			(oldLine >= hunk.oldStart + hunk.oldLines &&
+				newLine >= hunk.newStart + hunk.newLines)
+		) {
+			continue;
+		}
+
+		if (line.startsWith("+")) {
+			hunk.rightLines.add(newLine++);
+		} else if (line.startsWith("-")) {
+			hunk.leftLines.add(oldLine++);
+		} else if (!line.startsWith("\\")) {
+			hunk.leftLines.add(oldLine++);
+			hunk.rightLines.add(newLine++);
+		}
+	}
+	return hunks;
+};
+
+/**
+ * Get the lines of a hunk on one side of the diff
+ */
+const getSideLines = (hunk: ParsedDiffHunk, side: ReviewSide): number[] =>
+	[...(side === REVIEW_SIDES.LEFT ? hunk.leftLines : hunk.rightLines)].sort(
+		(a, b) => a - b,
+	);
+
+/**
+ * Snap a range of lines to the lines of one hunk that review comments can be
+ * placed on, trimming the parts of the range outside the hunk. Code hosts
+ * place a comment on the last line of its range, so the hunk holding the end
+ * line is preferred over the other hunks the range overlaps.
+ * @param hunks - Parsed hunks of the patch
+ * @param side - Side of the diff the lines refer to (LEFT for the old file)
+ * @param startLine - First line of the range
+ * @param endLine - Last line of the range
+ * @returns Range within one hunk, or undefined if no line of the range is
+ * part of the diff
+ */
+export const snapToDiff = (
+	hunks: ParsedDiffHunk[],
+	side: ReviewSide,
+	startLine: number,
+	endLine: number,
+): LineRange | undefined => {
+	const overlapping = hunks
+		.map((hunk) =>
+			getSideLines(hunk, side).filter(
+				(line) => line >= startLine && line <= endLine,
+			),
+		)
+		.filter((lines) => lines.length > 0);
+	const lines =
+		overlapping.find((hunkLines) => hunkLines.includes(endLine)) ??
+		overlapping.at(-1);
+	if (!lines) return undefined;
+
+	return { startLine: lines[0], endLine: lines[lines.length - 1] };
+};
+
+/**
+ * Describe the lines of a diff that review comments can be placed on
+ * @param hunks - Parsed hunks of the patch
+ * @param side - Side of the diff
+ * @returns Line ranges of the hunks, such as "3-9, 40-52"
+ */
+export const formatDiffLines = (
+	hunks: ParsedDiffHunk[],
+	side: ReviewSide,
+): string =>
+	hunks
+		.map((hunk) => getSideLines(hunk, side))
+		.filter((lines) => lines.length > 0)
+		.map((lines) => `${lines[0]}-${lines[lines.length - 1]}`)
+		.join(", ");
+
+/**
+ * Count the added and removed lines of a patch
+ * @param patch - Patch starting at the first hunk header
+ * @returns Number of added and removed lines
+ */
+export const countPatchChanges = (
+	patch?: string,
+): { additions: number; deletions: number } => {
+	const lines = patch ? patch.split("\n") : [];
+	return {
+		additions: lines.filter((line) => line.startsWith("+")).length,
+		deletions: lines.filter((line) => line.startsWith("-")).length,
+	};
+};
+
+/**
+ * Get the text of the hunks of a patch that touch a range of lines
+ * @param patch - Patch as returned by the GitHub API
+ * @param side - Side of the diff the lines refer to (LEFT for the old file)
+ * @param startLine - First line of the range
+ * @param endLine - Last line of the range
+ * @returns Matching hunks including their headers, or an empty string
+ */
+export const getHunksForLines = (
+	patch: string | undefined,
+	side: ReviewSide,
+	startLine: number,
+	endLine: number,
+): string => {
+	if (!patch) return "";
+
+	const hunkTexts = patch
+		.split(/^(?=@@ )/m)
+		.filter((text) => text.startsWith("@@ "));
+	return parseDiffHunks(patch)
+		.map((hunk, index) => ({ hunk, text: hunkTexts[index] ?? "" }))
+		.filter(({ hunk }) => {
+			const start = side === REVIEW_SIDES.LEFT ? hunk.oldStart : hunk.newStart;
+			const lines = side === REVIEW_SIDES.LEFT ? hunk.oldLines : hunk.newLines;
+			return start <= endLine && startLine <= start + Math.max(lines, 1) - 1;
+		})
+		.map(({ text }) => text.trimEnd())
+		.join("\n");
+};
+
+/**
+ * Prefix each line of a window with its line number
+ * @param content - Window content
+ * @param startLine - Line number of the first line
+ * @returns Numbered content
+ */
+export const formatWithLineNumbers = (
+	content: string,
+	startLine: number,
+): string =>
+	content
+		.split("\n")
+		.map((line, index) => `${startLine + index}: ${line}`)
+		.join("\n");
+
+/**
+ * Split a range of lines into consecutive windows that fit the token budget
+ */
+const chunkLines = (
+	lines: string[],
+	startLine: number,
+	endLine: number,
+	maxTokens: number,
+	model: string,
+): FileWindow[] => {
+	const windows: FileWindow[] = [];
+	let windowStart = startLine;
+	let windowTokens = 0;
+
+	for (let line = startLine; line <= endLine; line++) {
+		const tokens = estimateTokens(`${lines[line - 1]}\n`, model);
+		if (windowTokens + tokens > maxTokens && line > windowStart) {
+			windows.push({
+				startLine: windowStart,
+				endLine: line - 1,
+				content: lines.slice(windowStart - 1, line - 1).join("\n"),
+			});
+			windowStart = line;
+			windowTokens = 0;
+		}
+		windowTokens += tokens;
+	}
+
+	windows.push({
+		startLine: windowStart,
+		endLine,
+		content: lines.slice(windowStart - 1, endLine).join("\n"),
+	});
+	return windows;
+};
+
+/**
+ * Split a file that does not fit the token budget into windows around the
+ * changed lines. Files without a patch are split into consecutive windows.
+ * @param content - Full file content (new version)
+ * @param patch - Patch of the file
+ * @param maxTokens - Token budget for a single window
+ * @param model - Model name used to estimate tokens
+ * @param contextLines - Unchanged lines kept around each hunk
+ * @returns Windows in file order; a single window if the whole file fits
+ */
+export const splitIntoDiffWindows = (
+	content: string,
+	patch: string | undefined,
+	maxTokens: number,
+	model: string,
+	contextLines = DEFAULT_WINDOW_CONTEXT_LINES,
+): FileWindow[] => {
+	const lines = content.split("\n");
+	if (estimateTokens(content, model) <= maxTokens) {
+		return [{ startLine: 1, endLine: lines.length, content }];
+	}
+
+	// Pad every hunk with context lines and merge the ranges that overlap
+	const ranges: Array<[number, number]> = [];
+	for (const hunk of parseDiffHunks(patch)) {
+		const start = Math.max(1, hunk.newStart - contextLines);
+		const end = Math.min(
+			lines.length,
+			hunk.newStart + Math.max(hunk.newLines, 1) - 1 + contextLines,
+		);
+		const previous = ranges[ranges.length - 1];
+		if (previous && start <= previous[1] + 1) {
+			previous[1] = Math.max(previous[1], end);
+		} else {
+			ranges.push([start, end]);
+		}
+	}
+	if (ranges.length === 0) {
+		ranges.push([1, lines.length]);
+	}
+
+	return ranges.flatMap(([start, end]) =>
+		chunkLines(lines, start, end, maxTokens, model),
+	);
+};
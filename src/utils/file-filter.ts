@@ -0,0 +1,75 @@
+import type { ChangedFile } from "../types/constants";
+
+/**
+ * Comma-separated extension and path patterns selecting the files to review
+ */
+export interface FileFilter {
+	includeExtensions?: string;
+	excludeExtensions?: string;
+	includePaths?: string;
+	excludePaths?: string;
+}
+
+/**
+ * Filter changed files based on extension and path criteria
+ * @param changedFiles - List of changed files
+ * @param filter - Extensions and paths to include or exclude
+ * @returns Filtered list of changed files
+ */
+export const filterChangedFiles = (
+	changedFiles: ChangedFile[],
+	{
+		includeExtensions,
+		excludeExtensions,
+		includePaths,
+		excludePaths,
+	}: FileFilter,
+): ChangedFile[] => {
+	const stringToArray = (inputString?: string): string[] => {
+		if (!inputString) return [];
+		return inputString
+			.split(",")
+			.map((item) => {
+				const normalized = item.trim().replace(/\\/g, "/");
+				if (normalized.startsWith(".")) {
+					return normalized;
+				}
+				return normalized.endsWith("/") ? normalized : `${normalized}/`;
+			})
+			.filter(Boolean);
+	};
+
+	const includeExtensionsArray = stringToArray(includeExtensions);
+	const excludeExtensionsArray = stringToArray(excludeExtensions);
+	const includePathsArray = stringToArray(includePaths);
+	const excludePathsArray = stringToArray(excludePaths);
+
+	const isFileToReview = (filename: string): boolean => {
+		const normalizedFilename = filename.replace(/\\/g, "/");
+
+		const hasValidExtension =
+			includeExtensionsArray.length === 0 ||
+			includeExtensionsArray.some((ext) => normalizedFilename.endsWith(ext));
+		const hasExcludedExtension =
+			excludeExtensionsArray.length > 0 &&
+			excludeExtensionsArray.some((ext) => normalizedFilename.endsWith(ext));
+
+		const isInIncludedPath =
+			includePathsArray.length === 0 ||
+			includePathsArray.some((path) => normalizedFilename.startsWith(path));
+		const isInExcludedPath =
+			excludePathsArray.length > 0 &&
+			excludePathsArray.some((path) => normalizedFilename.startsWith(path));
+
+		return (
+			hasValidExtension &&
+			!hasExcludedExtension &&
+			isInIncludedPath &&
+			!isInExcludedPath
+		);
+	};
+
+	return changedFiles.filter((file) =>
+		isFileToReview(file.filename.replace(/\\/g, "/")),
+	);
+};
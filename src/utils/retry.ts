@@ -0,0 +1,299 @@
+import * as core from "@actions/core";
+
+/**
+ * Kinds of errors distinguished by the retry policy
+ */
+export const ERROR_KINDS = {
+	RATE_LIMIT: "rate-limit",
+	OVERLOADED: "overloaded",
+	AUTH: "auth",
+	CONTEXT_TOO_LONG: "context-too-long",
+	TRANSIENT: "transient",
+	FATAL: "fatal",
+} as const;
+
+export type ErrorKind = (typeof ERROR_KINDS)[keyof typeof ERROR_KINDS];
+
+// Errors that are never retried: retrying cannot fix them
+const NON_RETRYABLE_ERROR_KINDS: readonly ErrorKind[] = [
+	ERROR_KINDS.AUTH,
+	ERROR_KINDS.CONTEXT_TOO_LONG,
+	ERROR_KINDS.FATAL,
+];
+
+// Minimum wait after a rate limit error that carries no reset header
+const RATE_LIMIT_MIN_DELAY_MS = 10000;
+
+/**
+ * Settings for retrying failed API calls
+ */
+export interface RetryPolicy {
+	maxRetries: number;
+	initialBackoffMs: number;
+	maxBackoffMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxRetries: 3,
+	initialBackoffMs: 1000,
+	maxBackoffMs: 60000,
+};
+
+/**
+ * Shape shared by AI SDK (APICallError) and Octokit (RequestError) errors
+ */
+interface HttpErrorLike {
+	message?: string;
+	statusCode?: number;
+	status?: number;
+	responseHeaders?: Record<string, string | undefined>;
+	headers?: Record<string, string | number | undefined>;
+	response?: { headers?: Record<string, string | number | undefined> };
+	lastError?: unknown;
+	cause?: unknown;
+}
+
+/**
+ * Find the innermost error carrying HTTP information
+ * (the AI SDK wraps retried API errors in a RetryError with lastError)
+ */
+const unwrapError = (error: unknown): HttpErrorLike => {
+	let current = error as HttpErrorLike | undefined;
+	for (let depth = 0; current && depth < 5; depth++) {
+		if (current.statusCode !== undefined || current.status !== undefined) {
+			return current;
+		}
+		const inner = current.lastError ?? current.cause;
+		if (!inner || typeof inner !== "object") break;
+		current = inner as HttpErrorLike;
+	}
+	return (error ?? {}) as HttpErrorLike;
+};
+
+/**
+ * Get the HTTP status of an error, if any
+ */
+const getStatus = (error: HttpErrorLike): number | undefined =>
+	error.statusCode ?? error.status;
+
+/**
+ * Get a response header of an error (case-insensitive)
+ */
+const getHeader = (error: HttpErrorLike, name: string): string | undefined => {
+	const headers =
+		error.responseHeaders ?? error.response?.headers ?? error.headers ?? {};
+	for (const [key, value] of Object.entries(headers)) {
+		if (key.toLowerCase() === name && value !== undefined) {
+			return String(value);
+		}
+	}
+	return undefined;
+};
+
+/**
+ * Classify an error to decide whether and how it should be retried
+ * @param error - Error thrown by an AI provider or the GitHub API
+ * @returns Error kind
+ */
+export const classifyError = (error: unknown): ErrorKind => {
+	const httpError = unwrapError(error);
+	const status = getStatus(httpError);
+	const message = (
+		error instanceof Error ? error.message : String(error)
+	).toLowerCase();
+
+	if (
+		/context length|context window|too many tokens|prompt is too long|maximum context|input is too long|token limit|exceeds the maximum number of tokens/.test(
+			message,
+		)
+	) {
+		return ERROR_KINDS.CONTEXT_TOO_LONG;
+	}
+
+	if (
+		status === 429 ||
+		getHeader(httpError, "x-ratelimit-remaining") === "0" ||
+		/rate limit|quota/.test(message)
+	) {
+		return ERROR_KINDS.RATE_LIMIT;
+	}
+
+	if (status === 529 || status === 503 || message.includes("overloaded")) {
+		return ERROR_KINDS.OVERLOADED;
+	}
+
+	if (
+		status === 401 ||
+		status === 403 ||
+		/invalid api key|invalid x-api-key|unauthorized|api key not valid/.test(
+			message,
+		)
+	) {
+		return ERROR_KINDS.AUTH;
+	}
+
+	if (status === 413) {
+		return ERROR_KINDS.CONTEXT_TOO_LONG;
+	}
+
+	if (status === undefined || status === 408 || status >= 500) {
+		// Network failures and server errors are usually temporary
+		return ERROR_KINDS.TRANSIENT;
+	}
+
+	return ERROR_KINDS.FATAL;
+};
+
+/**
+ * Check whether an error of the given kind may be retried
+ * @param kind - Error kind
+ */
+export const isRetryableErrorKind = (kind: ErrorKind): boolean =>
+	!NON_RETRYABLE_ERROR_KINDS.includes(kind);
+
+/**
+ * Parse a duration such as "1s", "6m0s" or "250ms" into milliseconds
+ */
+const parseDuration = (value: string): number | undefined => {
+	const parts = [...value.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)];
+	if (parts.length === 0) return undefined;
+
+	const unitMs: Record<string, number> = {
+		ms: 1,
+		s: 1000,
+		m: 60000,
+		h: 3600000,
+	};
+	return parts.reduce(
+		(total, [, amount, unit]) => total + Number(amount) * unitMs[unit],
+		0,
+	);
+};
+
+/**
+ * Get the delay requested by the server before retrying, from the
+ * Retry-After or x-ratelimit-reset headers
+ * @param error - Error thrown by an AI provider or the GitHub API
+ * @param now - Current time in milliseconds
+ * @returns Delay in milliseconds, or undefined if the server sent no hint
+ */
+export const getRetryAfterMs = (
+	error: unknown,
+	now: number = Date.now(),
+): number | undefined => {
+	const httpError = unwrapError(error);
+
+	const retryAfterMs = getHeader(httpError, "retry-after-ms");
+	if (retryAfterMs && !Number.isNaN(Number(retryAfterMs))) {
+		return Math.max(0, Number(retryAfterMs));
+	}
+
+	const retryAfter = getHeader(httpError, "retry-after");
+	if (retryAfter) {
+		// Either a number of seconds or an HTTP date
+		if (!Number.isNaN(Number(retryAfter))) {
+			return Math.max(0, Number(retryAfter) * 1000);
+		}
+		const date = Date.parse(retryAfter);
+		if (!Number.isNaN(date)) {
+			return Math.max(0, date - now);
+		}
+	}
+
+	const reset = getHeader(httpError, "x-ratelimit-reset");
+	if (reset) {
+		// GitHub sends an epoch timestamp in seconds, OpenAI sends a duration
+		const resetNumber = Number(reset);
+		if (!Number.isNaN(resetNumber)) {
+			return resetNumber > 1e9
+				? Math.max(0, resetNumber * 1000 - now)
+				: Math.max(0, resetNumber * 1000);
+		}
+		return parseDuration(reset);
+	}
+
+	return undefined;
+};
+
+/**
+ * Compute the delay before the next attempt
+ * @param error - Error of the failed attempt
+ * @param kind - Error kind
+ * @param attempt - Zero-based index of the failed attempt
+ * @param policy - Retry policy
+ * @returns Delay in milliseconds
+ */
+export const getRetryDelayMs = (
+	error: unknown,
+	kind: ErrorKind,
+	attempt: number,
+	policy: RetryPolicy,
+): number => {
+	const retryAfter = getRetryAfterMs(error);
+	if (retryAfter !== undefined) {
+		return Math.min(retryAfter, policy.maxBackoffMs);
+	}
+
+	// Exponential backoff with jitter
+	let delay =
+		policy.initialBackoffMs * 2 ** attempt +
+		Math.random() * policy.initialBackoffMs;
+	if (kind === ERROR_KINDS.RATE_LIMIT) {
+		delay = Math.max(delay, RATE_LIMIT_MIN_DELAY_MS);
+	}
+	return Math.min(delay, policy.maxBackoffMs);
+};
+
+/**
+ * Wait for the given number of milliseconds
+ * @param ms - Delay in milliseconds
+ */
+export const sleep = (ms: number): Promise<void> =>
+	new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run an operation, retrying it according to the retry policy.
+ * Authentication, context-length and other non-retryable errors are thrown
+ * immediately.
+ * @param operation - Operation to run, receives the zero-based attempt number
+ * @param policy - Retry policy
+ * @param description - Description of the operation used in logs
+ * @returns Result of the operation
+ */
+export const withRetry = async <T>(
+	operation: (attempt: number) => Promise<T>,
+	policy: RetryPolicy,
+	description: string,
+): Promise<T> => {
+	const maxAttempts = policy.maxRetries + 1;
+
+	for (let attempt = 0; ; attempt++) {
+		try {
+			return await operation(attempt);
+		} catch (error) {
+			const kind = classifyError(error);
+			const errorMessage =
+				error instanceof Error ? error.message : String(error);
+
+			if (!isRetryableErrorKind(kind)) {
+				core.warning(
+					`${description} failed with a non-retryable ${kind} error: ${errorMessage}`,
+				);
+				throw error;
+			}
+
+			if (attempt + 1 >= maxAttempts) {
+				core.warning(
+					`${description} failed after ${maxAttempts} attempts (${kind}): ${errorMessage}`,
+				);
+				throw error;
+			}
+
+			const delay = getRetryDelayMs(error, kind, attempt, policy);
+			core.warning(
+				`${description} failed (attempt ${attempt + 1}/${maxAttempts}, ${kind}): ${errorMessage}. Retrying in ${Math.round(delay)}ms`,
+			);
+			await sleep(delay);
+		}
+	}
+};
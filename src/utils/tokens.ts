@@ -0,0 +1,180 @@
+import * as core from "@actions/core";
+
+/**
+ * Context window sizes in tokens, matched by model name prefix.
+ * More specific prefixes must come first.
+ */
+const MODEL_CONTEXT_WINDOWS: ReadonlyArray<[prefix: string, tokens: number]> = [
+	["claude", 200000],
+	["gpt-4.1", 1047576],
+	["gpt-4o", 128000],
+	["gpt-4-turbo", 128000],
+	["gpt-4", 8192],
+	["gpt-3.5", 16385],
+	["o1", 200000],
+	["o3", 200000],
+	["o4", 200000],
+	["gemini-1.5-pro", 2097152],
+	["gemini", 1048576],
+];
+
+// Conservative default for unknown (e.g. self-hosted) models
+const DEFAULT_CONTEXT_WINDOW = 32768;
+
+/**
+ * Average number of characters per token, matched by model name prefix.
+ * Source code tokenizes denser than prose, so these are on the low side.
+ */
+const MODEL_CHARS_PER_TOKEN: ReadonlyArray<[prefix: string, chars: number]> = [
+	["claude", 3.2],
+	["gpt", 3.5],
+	["o1", 3.5],
+	["o3", 3.5],
+	["o4", 3.5],
+	["gemini", 3.5],
+];
+
+const DEFAULT_CHARS_PER_TOKEN = 3;
+
+// Tokens kept free for the model's response and the tool definitions
+const RESERVED_OUTPUT_TOKENS = 8192;
+
+// Sections that would be truncated below this size are dropped instead
+const MIN_TRUNCATED_SECTION_TOKENS = 256;
+
+/**
+ * Piece of a prompt that can be trimmed when the prompt is too large
+ */
+export interface ContextSection {
+	name: string;
+	content: string;
+	/** Lower values are more important and are kept first */
+	priority: number;
+}
+
+/**
+ * Find the value of the first model name prefix matching the model
+ * @param model - Model name
+ * @param table - Values by model name prefix, more specific prefixes first
+ * @returns Matching value, or undefined for unknown models
+ */
+export const matchModelPrefix = <T>(
+	model: string,
+	table: ReadonlyArray<[string, T]>,
+): T | undefined => {
+	// Strip vendor prefixes such as "models/" or "openai/"
+	const name = model.toLowerCase().split("/").pop() ?? "";
+	return table.find(([prefix]) => name.startsWith(prefix))?.[1];
+};
+
+/**
+ * Get the context window of a model
+ * @param model - Model name
+ * @returns Context window size in tokens
+ */
+export const getContextWindow = (model: string): number =>
+	matchModelPrefix(model, MODEL_CONTEXT_WINDOWS) ?? DEFAULT_CONTEXT_WINDOW;
+
+/**
+ * Get the number of input tokens that can be sent to a model in one request
+ * @param model - Model name
+ * @returns Input token budget
+ */
+export const getInputTokenBudget = (model: string): number => {
+	const contextWindow = getContextWindow(model);
+	return Math.max(
+		contextWindow - RESERVED_OUTPUT_TOKENS,
+		Math.floor(contextWindow / 2),
+	);
+};
+
+/**
+ * Estimate the number of tokens of a text for a model
+ * @param text - Text to estimate
+ * @param model - Model name
+ * @returns Estimated number of tokens
+ */
+export const estimateTokens = (text: string, model: string): number =>
+	Math.ceil(
+		text.length /
+			(matchModelPrefix(model, MODEL_CHARS_PER_TOKEN) ??
+				DEFAULT_CHARS_PER_TOKEN),
+	);
+
+/**
+ * Truncate a text to an approximate number of tokens, cutting at a line break
+ * @param text - Text to truncate
+ * @param maxTokens - Maximum number of tokens
+ * @param model - Model name
+ * @returns Truncated text, or the original text if it fits
+ */
+export const truncateToTokens = (
+	text: string,
+	maxTokens: number,
+	model: string,
+): string => {
+	if (estimateTokens(text, model) <= maxTokens) {
+		return text;
+	}
+
+	const maxChars = Math.floor(
+		maxTokens *
+			(matchModelPrefix(model, MODEL_CHARS_PER_TOKEN) ??
+				DEFAULT_CHARS_PER_TOKEN),
+	);
+	let truncated = text.slice(0, maxChars);
+	const lastNewline = truncated.lastIndexOf("\n");
+	if (lastNewline > 0) {
+		truncated = truncated.slice(0, lastNewline);
+	}
+	const droppedLines = text.split("\n").length - truncated.split("\n").length;
+	return `${truncated}\n[... ${droppedLines} more lines truncated to fit the context window ...]`;
+};
+
+/**
+ * Fit prompt sections into a token budget. Sections are kept by priority;
+ * the first section that does not fit is truncated and the rest are dropped.
+ * @param sections - Prompt sections in the order they appear in the prompt
+ * @param maxTokens - Token budget for the whole prompt
+ * @param model - Model name
+ * @returns Prompt built from the sections that fit
+ */
+export const fitContextToBudget = (
+	sections: ContextSection[],
+	maxTokens: number,
+	model: string,
+): string => {
+	const byPriority = sections
+		.map((section, index) => ({ section, index }))
+		.sort((a, b) => a.section.priority - b.section.priority);
+
+	const kept = new Map<number, string>();
+	const truncated: string[] = [];
+	const dropped: string[] = [];
+	let remaining = maxTokens;
+
+	for (const { section, index } of byPriority) {
+		const tokens = estimateTokens(section.content, model);
+		if (tokens <= remaining) {
+			kept.set(index, section.content);
+			remaining -= tokens;
+		} else if (remaining >= MIN_TRUNCATED_SECTION_TOKENS) {
+			kept.set(index, truncateToTokens(section.content, remaining, model));
+			truncated.push(`${section.name} (${tokens} tokens)`);
+			remaining = 0;
+		} else {
+			dropped.push(`${section.name} (${tokens} tokens)`);
+		}
+	}
+
+	if (truncated.length > 0 || dropped.length > 0) {
+		core.info(
+			`Trimmed context to fit ${maxTokens} tokens: truncated [${truncated.join(", ")}], dropped [${dropped.join(", ")}]`,
+		);
+	}
+
+	return sections
+		.map((_, index) => kept.get(index))
+		.filter((content) => content !== undefined)
+		.join("\n\n");
+};
@@ -0,0 +1,157 @@
+import { matchModelPrefix } from "./tokens";
+
+/**
+ * Price of a model in US dollars per million tokens
+ */
+export interface ModelPrice {
+	input: number;
+	output: number;
+}
+
+/**
+ * Published list prices, matched by model name prefix.
+ * More specific prefixes must come first.
+ */
+const MODEL_PRICES: ReadonlyArray<[prefix: string, price: ModelPrice]> = [
+	["claude-opus-4", { input: 15, output: 75 }],
+	["claude-sonnet-4", { input: 3, output: 15 }],
+	["claude-3-7-sonnet", { input: 3, output: 15 }],
+	["claude-3-5-sonnet", { input: 3, output: 15 }],
+	["claude-3-5-haiku", { input: 0.8, output: 4 }],
+	["claude-3-opus", { input: 15, output: 75 }],
+	["claude-3-sonnet", { input: 3, output: 15 }],
+	["claude-3-haiku", { input: 0.25, output: 1.25 }],
+	["gpt-4o-mini", { input: 0.15, output: 0.6 }],
+	["gpt-4o", { input: 2.5, output: 10 }],
+	["gpt-4.1-nano", { input: 0.1, output: 0.4 }],
+	["gpt-4.1-mini", { input: 0.4, output: 1.6 }],
+	["gpt-4.1", { input: 2, output: 8 }],
+	["gpt-4-turbo", { input: 10, output: 30 }],
+	["gpt-3.5-turbo", { input: 0.5, output: 1.5 }],
+	["o1-mini", { input: 1.1, output: 4.4 }],
+	["o3-mini", { input: 1.1, output: 4.4 }],
+	["o4-mini", { input: 1.1, output: 4.4 }],
+	["o1", { input: 15, output: 60 }],
+	["o3", { input: 2, output: 8 }],
+	["gemini-2.5-pro", { input: 1.25, output: 10 }],
+	["gemini-2.5-flash", { input: 0.3, output: 2.5 }],
+	["gemini-2.0-flash-lite", { input: 0.075, output: 0.3 }],
+	["gemini-2.0-flash", { input: 0.1, output: 0.4 }],
+	["gemini-1.5-pro", { input: 1.25, output: 5 }],
+	["gemini-1.5-flash", { input: 0.075, output: 0.3 }],
+];
+
+/**
+ * Get the price of a model
+ * @param model - Model name
+ * @returns Price per million tokens, or undefined for unknown models
+ */
+export const getModelPrice = (model: string): ModelPrice | undefined =>
+	matchModelPrefix(model, MODEL_PRICES);
+
+/**
+ * Caps on the tokens and cost spent in a single run
+ */
+export interface UsageLimits {
+	maxTokens?: number;
+	maxCostUsd?: number;
+}
+
+/**
+ * Token usage reported by the AI SDK for a single call
+ */
+export interface CallUsage {
+	promptTokens: number;
+	completionTokens: number;
+}
+
+/**
+ * Accumulates token usage and estimated cost across all AI calls of a run
+ * and enforces the configured caps
+ */
+export class UsageTracker {
+	private inputTokens = 0;
+	private outputTokens = 0;
+	private requests = 0;
+	private costUsd = 0;
+	private unpricedModels = new Set<string>();
+
+	/**
+	 * Creates a new UsageTracker instance
+	 * @param limits - Caps on tokens and cost, unlimited when omitted
+	 */
+	constructor(private limits: UsageLimits = {}) {}
+
+	/**
+	 * Record the usage of an AI call
+	 * @param model - Model that served the call
+	 * @param usage - Token usage returned by the AI SDK
+	 */
+	record(model: string, usage: CallUsage): void {
+		// Providers may report NaN when usage is unavailable
+		const inputTokens = Number.isFinite(usage.promptTokens)
+			? usage.promptTokens
+			: 0;
+		const outputTokens = Number.isFinite(usage.completionTokens)
+			? usage.completionTokens
+			: 0;
+
+		this.inputTokens += inputTokens;
+		this.outputTokens += outputTokens;
+		this.requests++;
+
+		const price = getModelPrice(model);
+		if (price) {
+			this.costUsd +=
+				(inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+		} else {
+			this.unpricedModels.add(model);
+		}
+	}
+
+	get totalInputTokens(): number {
+		return this.inputTokens;
+	}
+
+	get totalOutputTokens(): number {
+		return this.outputTokens;
+	}
+
+	get estimatedCostUsd(): number {
+		return this.costUsd;
+	}
+
+	/**
+	 * Check whether a cap has been reached. Caps are checked between calls,
+	 * so the last call may overshoot them.
+	 * @returns Description of the reached cap, or null if within the limits
+	 */
+	getLimitReached(): string | null {
+		const totalTokens = this.inputTokens + this.outputTokens;
+		if (
+			this.limits.maxTokens !== undefined &&
+			totalTokens >= this.limits.maxTokens
+		) {
+			return `token limit of ${this.limits.maxTokens} reached (${totalTokens} tokens used)`;
+		}
+		if (
+			this.limits.maxCostUsd !== undefined &&
+			this.costUsd >= this.limits.maxCostUsd
+		) {
+			return `cost limit of $${this.limits.maxCostUsd} reached ($${this.costUsd.toFixed(4)} spent)`;
+		}
+		return null;
+	}
+
+	/**
+	 * Format the usage for the review summary
+	 * @returns Human-readable usage line
+	 */
+	format(): string {
+		let text = `Token usage: ${this.inputTokens.toLocaleString("en-US")} input / ${this.outputTokens.toLocaleString("en-US")} output tokens in ${this.requests} requests. Estimated cost: $${this.costUsd.toFixed(4)}`;
+		if (this.unpricedModels.size > 0) {
+			text += ` (excluding ${[...this.unpricedModels].join(", ")}, price unknown)`;
+		}
+		return text;
+	}
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it, mock } from "bun:test";
+import { mockCore } from "./mocks";
+
+mock.module("@actions/core", () => mockCore);
+
+const { AnthropicAgent } = await import("../src/ai/anthropic-agent");
+
+const agent = new AnthropicAgent(
+	"mock-anthropic-api-key",
+	mock(() => Promise.resolve("")),
+	mock(() => Promise.resolve()),
+	"claude-3-5-sonnet-20240620",
+);
+
+const fileReviews = [
+	{
+		filename: "src/app.ts",
+		issues: [
+			{
+				lineStart: 3,
+				lineEnd: 4,
+				description: "Token is logged in plain text",
+				severity: "high" as const,
+				category: "security" as const,
+				suggestDiff: false,
+			},
+			{
+				lineStart: 10,
+				lineEnd: 10,
+				description: "Promise is not awaited",
+				severity: "medium" as const,
+				category: "bug" as const,
+				suggestDiff: false,
+			},
+		],
+	},
+	{ filename: "src/util.ts", issues: [] },
+];
+
+describe("AnthropicAgent summary", () => {
+	it("should take counts, categories and severity from the posted findings", () => {
+		const summary = agent.generateReviewSummary(fileReviews, {
+			summary: "Two problems need attention.",
+			fileSummaries: [
+				{ filename: "src/app.ts", summary: "Logs secrets." },
+				{ filename: "src/other.ts", summary: "Not reviewed." },
+			],
+			recommendations: ["Remove the log statement"],
+		});
+
+		expect(summary).toContain("Two problems need attention.");
+		expect(summary).toContain("- **Issues Found**: 2");
+		expect(summary).toContain("- **Severity**: high");
+		expect(summary).toContain("### Bug (1)");
+		expect(summary).toContain(
+			"- **[HIGH]** src/app.ts: Token is logged in plain text",
+		);
+		expect(summary).toContain(
+			"### src/app.ts\n\nLogs secrets.\n\n**Issues**: 2",
+		);
+		expect(summary).toContain("### src/util.ts");
+		expect(summary).not.toContain("src/other.ts");
+	});
+
+	it("should build the summary without the model's overview", () => {
+		const summary = agent.generateReviewSummary([
+			{ filename: "src/util.ts", issues: [] },
+		]);
+
+		expect(summary).toContain("Reviewed 1 files and found 0 issues.");
+		expect(summary).toContain("- **Severity**: none");
+		expect(summary).not.toContain("## Issues by Category");
+		expect(summary).not.toContain("## File Summaries");
+	});
+
+	it("should list the posted findings in the summary prompt", () => {
+		expect(agent.formatFindingsForPrompt(fileReviews)).toBe(
+			"- src/app.ts:3-4 [HIGH, security] Token is logged in plain text\n- src/app.ts:10-10 [MEDIUM, bug] Promise is not awaited",
+		);
+		expect(agent.formatFindingsForPrompt([])).toBe("No issues were found.");
+	});
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it, mock } from "bun:test";
+import { mockCore, mockFinding } from "./mocks";
+
+mock.module("@actions/core", () => mockCore);
+
+const { getCheckConclusion, toCheckAnnotations } = await import(
+	"../src/review/check-run"
+);
+
+describe("toCheckAnnotations", () => {
+	it("should map severities to annotation levels", () => {
+		expect(
+			toCheckAnnotations([
+				mockFinding({ severity: "high" }),
+				mockFinding({ severity: "medium" }),
+				mockFinding({ severity: "low" }),
+				mockFinding(),
+			]).map((annotation) => annotation.annotation_level),
+		).toEqual(["failure", "warning", "notice", "warning"]);
+	});
+
+	it("should annotate the lines of the finding", () => {
+		expect(toCheckAnnotations([mockFinding({ severity: "high" })])).toEqual([
+			{
+				path: "src/app.ts",
+				start_line: 2,
+				end_line: 3,
+				annotation_level: "failure",
+				title: "High severity finding",
+				message: "Possible null dereference",
+			},
+		]);
+	});
+
+	it("should leave out findings on deleted lines", () => {
+		expect(
+			toCheckAnnotations([mockFinding({ severity: "high", side: "LEFT" })]),
+		).toEqual([]);
+	});
+});
+
+describe("getCheckConclusion", () => {
+	it("should succeed without findings", () => {
+		expect(getCheckConclusion([], "fail_on_any")).toBe("success");
+		expect(getCheckConclusion([], "neutral")).toBe("success");
+	});
+
+	it("should be neutral with findings under the neutral policy", () => {
+		expect(
+			getCheckConclusion([mockFinding({ severity: "high" })], "neutral"),
+		).toBe("neutral");
+	});
+
+	it("should fail for findings the policy fails on", () => {
+		const findings = [
+			mockFinding({ severity: "low" }),
+			mockFinding({ severity: "medium" }),
+		];
+
+		expect(getCheckConclusion(findings, "fail_on_high")).toBe("neutral");
+		expect(getCheckConclusion(findings, "fail_on_medium")).toBe("failure");
+		expect(
+			getCheckConclusion([mockFinding({ severity: "low" })], "fail_on_any"),
+		).toBe("failure");
+	});
+});
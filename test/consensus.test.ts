@@ -0,0 +1,155 @@
+import { describe, expect, it, mock } from "bun:test";
+import type { AIAgent } from "../src/ai/ai-agent";
+import type { FileCommentator, ReviewFinding } from "../src/types/constants";
+import { mockChangedFiles, mockCore, mockFinding } from "./mocks";
+
+mock.module("@actions/core", () => mockCore);
+
+const {
+	createFindingCollector,
+	descriptionSimilarity,
+	groupFindings,
+	runConsensusReview,
+} = await import("../src/review/consensus");
+
+/**
+ * Builds an agent that reports the given findings through its commentator
+ */
+const fakeAgent = (label: string, reported: ReviewFinding[]) => {
+	const findings: ReviewFinding[] = [];
+	const collect = createFindingCollector(findings);
+	const agent = {
+		review: mock(async () => {
+			for (const item of reported) {
+				await collect(
+					item.comment,
+					item.filePath,
+					item.side,
+					item.startLineNumber,
+					item.endLineNumber,
+				);
+			}
+			return `# Code Review Summary\n\n${label} summary`;
+		}),
+	} as unknown as AIAgent;
+	return { label, agent, findings };
+};
+
+describe("Consensus review", () => {
+	it("should score similar descriptions higher", () => {
+		const similar = descriptionSimilarity(
+			"Possible null dereference of user before accessing user.name",
+			"user may be null here, accessing user.name throws",
+		);
+		const unrelated = descriptionSimilarity(
+			"Possible null dereference of user before accessing user.name",
+			"Typo in the log message",
+		);
+		expect(similar).toBeGreaterThan(0.2);
+		expect(unrelated).toBe(0);
+	});
+
+	it("should group findings by file, line range and description", () => {
+		const groups = groupFindings([
+			{
+				label: "A",
+				findings: [
+					mockFinding({
+						comment: "SQL injection through the unescaped name parameter",
+						startLineNumber: 10,
+						endLineNumber: 12,
+					}),
+					mockFinding({
+						comment: "Typo in the error message",
+						startLineNumber: 40,
+						endLineNumber: 40,
+					}),
+				],
+			},
+			{
+				label: "B",
+				findings: [
+					mockFinding({
+						comment: "The name parameter is concatenated into SQL (injection)",
+						startLineNumber: 11,
+						endLineNumber: 11,
+					}),
+					mockFinding({
+						comment: "Typo in the error message",
+						startLineNumber: 90,
+						endLineNumber: 90,
+					}),
+				],
+			},
+		]);
+
+		expect(groups.map((group) => group.agents)).toEqual([
+			["A", "B"],
+			["A"],
+			["B"],
+		]);
+		expect(groups[0].finding.startLineNumber).toBe(10);
+	});
+
+	it("should only post findings reported by enough agents", async () => {
+		const fileCommentator = mock<FileCommentator>(() => Promise.resolve());
+		const agents = [
+			fakeAgent("Claude", [
+				mockFinding({
+					comment: "Division by zero when count is 0",
+					startLineNumber: 5,
+					endLineNumber: 5,
+				}),
+				mockFinding({
+					comment: "Unused variable total",
+					startLineNumber: 20,
+					endLineNumber: 20,
+				}),
+			]),
+			fakeAgent("Gemini", [
+				mockFinding({
+					comment: "count can be 0, division by zero",
+					startLineNumber: 6,
+					endLineNumber: 6,
+				}),
+			]),
+		];
+
+		const summary = await runConsensusReview(
+			agents,
+			mockChangedFiles,
+			fileCommentator,
+			2,
+		);
+
+		expect(fileCommentator.mock.calls).toEqual([
+			[
+				"Division by zero when count is 0\n\n_Reported by Claude, Gemini_",
+				"src/app.ts",
+				"RIGHT",
+				5,
+				5,
+				{},
+			],
+		]);
+		expect(summary).toContain("Posted 1 findings");
+		expect(summary).toContain("1 findings reported by fewer models");
+		expect(summary).toContain("## Claude\n\n### Code Review Summary");
+	});
+
+	it("should fail when too few agents complete their review", async () => {
+		const failing = fakeAgent("Gemini", []);
+		(failing.agent.review as ReturnType<typeof mock>).mockImplementation(() =>
+			Promise.reject(new Error("quota exceeded")),
+		);
+
+		await expect(
+			runConsensusReview(
+				[fakeAgent("Claude", []), failing],
+				mockChangedFiles,
+				mock(() => Promise.resolve()),
+				2,
+			),
+		).rejects.toThrow("Only 1 of 2 agents completed their review");
+	});
+});
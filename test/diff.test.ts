@@ -0,0 +1,116 @@
+import { describe, expect, it } from "bun:test";
+import {
+	formatDiffLines,
+	parseUnifiedDiff,
+	snapToDiff,
+} from "../src/utils/diff";
+
+const MULTI_HUNK_PATCH = [
+	"@@ -2,4 +2,5 @@ import { a } from './a';",
+	" const b = 1;",
+	"-const c = 2;",
+	"+const c = 3;",
+	"+const d = 4;",
+	" ",
+	" export { b };",
+	"@@ -40,3 +41,2 @@ function main() {",
+	" 	run();",
+	"-	stop();",
+	" }",
+].join("\n");
+
+const RENAME_PATCH = [
+	"diff --git a/src/old.ts b/src/new.ts",
+	"similarity index 90%",
+	"rename from src/old.ts",
+	"rename to src/new.ts",
+	"--- a/src/old.ts",
+	"+++ b/src/new.ts",
+	"@@ -1,2 +1,2 @@",
+	"-export const name = 'old';",
+	"+export const name = 'new';",
+	" export const version = 1;",
+].join("\n");
+
+const NO_NEWLINE_PATCH = [
+	"@@ -1,2 +1,2 @@",
+	" first",
+	"-last",
+	"\\ No newline at end of file",
+	"+last",
+	"\\ No newline at end of file",
+].join("\n");
+
+describe("parseUnifiedDiff", () => {
+	it("should map each hunk to its lines on both sides", () => {
+		const hunks = parseUnifiedDiff(MULTI_HUNK_PATCH);
+
+		expect(hunks.map((hunk) => [...hunk.leftLines])).toEqual([
+			[2, 3, 4, 5],
+			[40, 41, 42],
+		]);
+		expect(hunks.map((hunk) => [...hunk.rightLines])).toEqual([
+			[2, 3, 4, 5, 6],
+			[41, 42],
+		]);
+	});
+
+	it("should skip the file headers of renamed files", () => {
+		const [hunk] = parseUnifiedDiff(RENAME_PATCH);
+
+		expect([...hunk.leftLines]).toEqual([1, 2]);
+		expect([...hunk.rightLines]).toEqual([1, 2]);
+	});
+
+	it("should skip markers of missing newlines at the end of files", () => {
+		const [hunk] = parseUnifiedDiff(NO_NEWLINE_PATCH);
+
+		expect([...hunk.leftLines]).toEqual([1, 2]);
+		expect([...hunk.rightLines]).toEqual([1, 2]);
+	});
+
+	it("should return no hunks without a patch", () => {
+		expect(parseUnifiedDiff(undefined)).toEqual([]);
+		expect(parseUnifiedDiff("Binary files differ")).toEqual([]);
+	});
+});
+
+describe("snapToDiff", () => {
+	const hunks = parseUnifiedDiff(MULTI_HUNK_PATCH);
+
+	it("should keep ranges inside a hunk", () => {
+		expect(snapToDiff(hunks, "RIGHT", 3, 4)).toEqual({
+			startLine: 3,
+			endLine: 4,
+		});
+	});
+
+	it("should trim ranges to the hunk holding their last line", () => {
+		expect(snapToDiff(hunks, "RIGHT", 1, 3)).toEqual({
+			startLine: 2,
+			endLine: 3,
+		});
+		expect(snapToDiff(hunks, "RIGHT", 5, 41)).toEqual({
+			startLine: 41,
+			endLine: 41,
+		});
+		expect(snapToDiff(hunks, "LEFT", 38, 50)).toEqual({
+			startLine: 40,
+			endLine: 42,
+		});
+	});
+
+	it("should reject ranges outside of the diff", () => {
+		expect(snapToDiff(hunks, "RIGHT", 10, 20)).toBeUndefined();
+		expect(snapToDiff(hunks, "LEFT", 6, 6)).toBeUndefined();
+	});
+});
+
+describe("formatDiffLines", () => {
+	it("should list the line ranges of each hunk", () => {
+		const hunks = parseUnifiedDiff(MULTI_HUNK_PATCH);
+
+		expect(formatDiffLines(hunks, "RIGHT")).toBe("2-6, 41-42");
+		expect(formatDiffLines(hunks, "LEFT")).toBe("2-5, 40-42");
+	});
+});
@@ -0,0 +1,285 @@
+import { beforeEach, describe, expect, it, mock } from "bun:test";
+import { REVIEW_SIDES, type ReviewFinding } from "../src/types/constants";
+import { mockCore } from "./mocks";
+
+mock.module("@actions/core", () => mockCore);
+
+const { GitHubAPI } = await import("../src/github/github-api");
+
+const comments: ReviewFinding[] = [
+	{
+		comment: "Off-by-one error",
+		filePath: "src/index.ts",
+		side: REVIEW_SIDES.RIGHT,
+		startLineNumber: 4,
+		endLineNumber: 4,
+	},
+	{
+		comment: "Unhandled rejection",
+		filePath: "src/utils.ts",
+		side: REVIEW_SIDES.RIGHT,
+		startLineNumber: 10,
+		endLineNumber: 12,
+	},
+];
+
+/**
+ * Error thrown by Octokit for a rejected request
+ */
+const requestError = (status: number, message: string) =>
+	Object.assign(new Error(message), { status });
+
+/**
+ * Creates a GitHubAPI whose Octokit client is replaced by mocks
+ */
+const createAPI = (
+	pulls: Record<string, unknown>,
+	checks: Record<string, unknown> = {},
+) => {
+	const api = new GitHubAPI("mock-token", {
+		maxRetries: 0,
+		initialBackoffMs: 1,
+		maxBackoffMs: 1,
+	});
+	Object.assign(api, { octokit: { rest: { pulls, checks } } });
+	return api;
+};
+
+describe("GitHubAPI.createReview", () => {
+	beforeEach(() => {
+		mockCore.warning.mockClear();
+	});
+
+	it("submits all comments in a single review", async () => {
+		const createReview = mock(() => Promise.resolve({ data: {} }));
+		const createReviewComment = mock(() => Promise.resolve({ data: {} }));
+		const api = createAPI({ createReview, createReviewComment });
+
+		const failedComments = await api.createReview(
+			"owner",
+			"repo",
+			1,
+			"head-sha",
+			"Summary",
+			comments,
+		);
+
+		expect(failedComments).toEqual([]);
+		expect(createReview.mock.calls.length).toBe(1);
+		expect(createReview.mock.calls[0]).toEqual([
+			{
+				owner: "owner",
+				repo: "repo",
+				pull_number: 1,
+				commit_id: "head-sha",
+				body: "Summary",
+				event: "COMMENT",
+				comments: [
+					{
+						path: "src/index.ts",
+						body: "Off-by-one error",
+						side: "RIGHT",
+						line: 4,
+					},
+					{
+						path: "src/utils.ts",
+						body: "Unhandled rejection",
+						start_side: "RIGHT",
+						side: "RIGHT",
+						start_line: 10,
+						line: 12,
+					},
+				],
+			},
+		] as never);
+		expect(createReviewComment.mock.calls.length).toBe(0);
+	});
+
+	it("posts comments on their own if a comment position is rejected", async () => {
+		const createReview = mock((params: { comments: unknown[] }) =>
+			params.comments.length > 0
+				? Promise.reject(requestError(422, "Line could not be resolved"))
+				: Promise.resolve({ data: {} }),
+		);
+		const createReviewComment = mock((params: { path: string }) =>
+			params.path === "src/utils.ts"
+				? Promise.reject(requestError(422, "Line could not be resolved"))
+				: Promise.resolve({ data: {} }),
+		);
+		const api = createAPI({ createReview, createReviewComment });
+
+		const failedComments = await api.createReview(
+			"owner",
+			"repo",
+			1,
+			"head-sha",
+			"Summary",
+			comments,
+		);
+
+		expect(failedComments).toEqual([comments[1]]);
+		expect(createReviewComment.mock.calls.length).toBe(2);
+		expect(createReview.mock.calls.length).toBe(2);
+		expect(createReview.mock.calls[1][0].comments).toEqual([]);
+		expect(
+			mockCore.warning.mock.calls.some(([message]) =>
+				String(message).includes("rejected a comment position"),
+			),
+		).toBe(true);
+	});
+
+	it.each([
+		["APPROVE", "Review Can not approve your own pull request"],
+		[
+			"REQUEST_CHANGES",
+			"Review Can not request changes on your own pull request",
+		],
+		["APPROVE", "GitHub Actions is not permitted to approve pull requests."],
+	] as const)(
+		"submits a comment review if %s is not allowed: %s",
+		async (event, message) => {
+			const createReview = mock((params: { event: string }) =>
+				params.event === "COMMENT"
+					? Promise.resolve({ data: {} })
+					: Promise.reject(
+							requestError(422, `Unprocessable Entity: "${message}"`),
+						),
+			);
+			const createReviewComment = mock(() => Promise.resolve({ data: {} }));
+			const api = createAPI({ createReview, createReviewComment });
+
+			const failedComments = await api.createReview(
+				"owner",
+				"repo",
+				1,
+				"head-sha",
+				"Summary",
+				comments,
+				event,
+			);
+
+			expect(failedComments).toEqual([]);
+			expect(createReviewComment.mock.calls.length).toBe(0);
+			expect(createReview.mock.calls.length).toBe(2);
+			const { body, comments: reviewComments } = createReview.mock
+				.calls[1][0] as unknown as { body: string; comments: unknown[] };
+			expect(reviewComments.length).toBe(2);
+			expect(body.startsWith("Summary")).toBe(true);
+			expect(body).toContain(
+				`The review verdict (${event}) could not be applied`,
+			);
+		},
+	);
+
+	it("throws other errors", async () => {
+		const createReview = mock(() =>
+			Promise.reject(requestError(403, "Resource not accessible")),
+		);
+		const createReviewComment = mock(() => Promise.resolve({ data: {} }));
+		const api = createAPI({ createReview, createReviewComment });
+
+		await expect(
+			api.createReview("owner", "repo", 1, "head-sha", "Summary", comments),
+		).rejects.toThrow("Resource not accessible");
+		expect(createReviewComment.mock.calls.length).toBe(0);
+	});
+});
+
+describe("GitHubAPI.getContent", () => {
+	it("reads deleted files at the base commit", async () => {
+		const getContent = mock(({ ref }: { ref: string }) =>
+			ref === "merge-base-sha"
+				? Promise.resolve({
+						data: {
+							type: "file",
+							encoding: "base64",
+							content: Buffer.from("old content").toString("base64"),
+						},
+					})
+				: Promise.reject(requestError(404, "Not Found")),
+		);
+		const api = createAPI({});
+		Object.assign(api, { octokit: { rest: { repos: { getContent } } } });
+
+		const content = await api.getContent(
+			"owner",
+			"repo",
+			"merge-base-sha",
+			"head-sha",
+			"src/deleted.ts",
+		);
+
+		expect(content).toBe("old content");
+		expect(getContent.mock.calls.map(([{ ref }]) => ref)).toEqual([
+			"head-sha",
+			"merge-base-sha",
+		]);
+	});
+});
+
+describe("GitHubAPI.completeCheckRun", () => {
+	it("adds annotations in batches of 50 and completes with the last batch", async () => {
+		const update = mock(() => Promise.resolve({ data: {} }));
+		const api = createAPI({}, { update });
+		const annotations = Array.from({ length: 120 }, (_, index) => ({
+			path: "src/index.ts",
+			start_line: index + 1,
+			end_line: index + 1,
+			annotation_level: "warning" as const,
+			message: `Finding ${index + 1}`,
+		}));
+
+		await api.completeCheckRun(
+			"owner",
+			"repo",
+			42,
+			"failure",
+			"120 findings",
+			"Summary",
+			annotations,
+		);
+
+		const calls = update.mock.calls as unknown as Array<
+			[
+				{
+					check_run_id: number;
+					status?: string;
+					conclusion?: string;
+					output: { annotations: unknown[] };
+				},
+			]
+		>;
+		expect(calls.map(([params]) => params.output.annotations.length)).toEqual([
+			50, 50, 20,
+		]);
+		expect(calls.map(([params]) => params.conclusion)).toEqual([
+			undefined,
+			undefined,
+			"failure",
+		]);
+		expect(calls[2][0]).toMatchObject({
+			check_run_id: 42,
+			status: "completed",
+		});
+	});
+
+	it("completes a check run without annotations in one request", async () => {
+		const update = mock(() => Promise.resolve({ data: {} }));
+		const api = createAPI({}, { update });
+
+		await api.completeCheckRun(
+			"owner",
+			"repo",
+			42,
+			"success",
+			"0 findings",
+			"Summary",
+			[],
+		);
+
+		expect(update.mock.calls.length).toBe(1);
+		expect(update.mock.calls[0]).toMatchObject([
+			{ status: "completed", conclusion: "success" },
+		]);
+	});
+});
@@ -0,0 +1,401 @@
+import { afterAll, beforeAll, describe, expect, it, mock } from "bun:test";
+import type { Server } from "bun";
+import { REVIEW_EVENTS, REVIEW_SIDES } from "../src/types/constants";
+import { mockCore } from "./mocks";
+
+mock.module("@actions/core", () => mockCore);
+
+const { GitLabAPI } = await import("../src/gitlab/gitlab-api");
+
+const PROJECT_PATH = "/api/v4/projects/group%2Fsubgroup%2Fproject";
+
+const PATCH = [
+	"@@ -1,4 +1,5 @@",
+	" import { a } from './a';",
+	"-const b = 1;",
+	"+const b = 2;",
+	"+const c = 3;",
+	" ",
+	" export { a };",
+].join("\n");
+
+const FILE_DIFF = {
+	old_path: "src/old.ts",
+	new_path: "src/index.ts",
+	diff: `${PATCH}\n`,
+	new_file: false,
+	renamed_file: true,
+	deleted_file: false,
+};
+
+interface RecordedRequest {
+	method: string;
+	path: string;
+	token: string | null;
+	body?: Record<string, unknown>;
+}
+
+describe("GitLabAPI", () => {
+	let server: Server;
+	let api: InstanceType<typeof GitLabAPI>;
+	const requests: RecordedRequest[] = [];
+	let failuresLeft = 0;
+
+	beforeAll(() => {
+		server = Bun.serve({
+			port: 0,
+			async fetch(req) {
+				const url = new URL(req.url);
+				const path = `${url.pathname}${url.search}`;
+				requests.push({
+					method: req.method,
+					path,
+					token: req.headers.get("PRIVATE-TOKEN"),
+					body:
+						req.method === "POST"
+							? ((await req.json().catch(() => undefined)) as
+									| Record<string, unknown>
+									| undefined)
+							: undefined,
+				});
+
+				if (failuresLeft > 0) {
+					failuresLeft--;
+					return new Response("Bad Gateway", { status: 502 });
+				}
+
+				const mrPath = `${PROJECT_PATH}/merge_requests/7`;
+				// The token may not approve, as with a project access token
+				if (
+					url.pathname === `${mrPath}/approve` ||
+					url.pathname === `${mrPath}/unapprove`
+				) {
+					return new Response("403 Forbidden", { status: 403 });
+				}
+				if (url.pathname === mrPath) {
+					return Response.json({
+						iid: 7,
+						diff_refs: {
+							base_sha: "base-sha",
+							head_sha: "head-sha",
+							start_sha: "start-sha",
+						},
+					});
+				}
+				if (url.pathname === `${mrPath}/notes` && req.method === "GET") {
+					const page = url.searchParams.get("page");
+					return Response.json([{ body: `note ${page}` }], {
+						headers: { "x-next-page": page === "1" ? "2" : "" },
+					});
+				}
+				if (url.pathname === `${mrPath}/notes`) {
+					return Response.json({ id: 1 }, { status: 201 });
+				}
+				if (url.pathname === `${mrPath}/commits`) {
+					return Response.json([
+						{
+							id: "new-sha",
+							message: "Fix parser",
+							authored_date: "2024-05-02",
+						},
+						{
+							id: "old-sha",
+							message: "Add parser",
+							authored_date: "2024-05-01",
+						},
+					]);
+				}
+				if (url.pathname === `${mrPath}/diffs`) {
+					return Response.json([FILE_DIFF]);
+				}
+				if (url.pathname === `${mrPath}/discussions`) {
+					return Response.json({ id: "discussion" }, { status: 201 });
+				}
+				if (url.pathname === `${PROJECT_PATH}/repository/merge_base`) {
+					return Response.json({ id: "merge-base-sha" });
+				}
+				if (url.pathname === `${PROJECT_PATH}/repository/compare`) {
+					return Response.json({
+						diffs: [
+							FILE_DIFF,
+							{
+								old_path: "docs/new.md",
+								new_path: "docs/new.md",
+								diff: "@@ -0,0 +1 @@\n+# New\n",
+								new_file: true,
+								renamed_file: false,
+								deleted_file: false,
+							},
+						],
+					});
+				}
+				if (
+					url.pathname === `${PROJECT_PATH}/repository/files/src%2Findex.ts/raw`
+				) {
+					return new Response(`content at ${url.searchParams.get("ref")}`);
+				}
+				if (
+					url.pathname ===
+						`${PROJECT_PATH}/repository/files/src%2Fdeleted.ts/raw` &&
+					url.searchParams.get("ref") === "merge-base-sha"
+				) {
+					return new Response("old content");
+				}
+				return new Response("Not Found", { status: 404 });
+			},
+		});
+
+		api = new GitLabAPI("gitlab-token", `http://localhost:${server.port}/`, {
+			maxRetries: 2,
+			initialBackoffMs: 1,
+			maxBackoffMs: 1,
+		});
+	});
+
+	afterAll(() => {
+		server.stop(true);
+	});
+
+	it("returns the diff refs of a merge request as base and head commits", async () => {
+		const pullRequest = await api.getPullRequest(
+			"group/subgroup",
+			"project",
+			7,
+		);
+
+		expect(pullRequest).toEqual({
+			base: { sha: "base-sha" },
+			head: { sha: "head-sha" },
+		});
+		expect(requests.at(-1)?.token).toBe("gitlab-token");
+	});
+
+	it("lists the notes of all pages, least recently updated first", async () => {
+		const notes = await api.listPRComments("group/subgroup", "project", 7);
+
+		expect(notes).toEqual([{ body: "note 1" }, { body: "note 2" }]);
+		expect(requests.at(-1)?.path).toContain("sort=asc&order_by=updated_at");
+		expect(requests.at(-1)?.path).toContain("page=2");
+	});
+
+	it("lists the commits of a merge request oldest first", async () => {
+		const commits = await api.listPRCommits("group/subgroup", "project", 7);
+
+		expect(commits).toEqual([
+			{ sha: "old-sha", message: "Add parser", authorDate: "2024-05-01" },
+			{ sha: "new-sha", message: "Fix parser", authorDate: "2024-05-02" },
+		]);
+	});
+
+	it("finds the merge base and compares commits through it", async () => {
+		expect(
+			await api.getMergeBase(
+				"group/subgroup",
+				"project",
+				"base-sha",
+				"head-sha",
+			),
+		).toBe("merge-base-sha");
+		expect(requests.at(-1)?.path).toContain(
+			"merge_base?refs[]=base-sha&refs[]=head-sha",
+		);
+		expect(
+			await api.getComparisonStatus(
+				"group/subgroup",
+				"project",
+				"merge-base-sha",
+				"head-sha",
+			),
+		).toBe("ahead");
+		expect(
+			await api.getComparisonStatus(
+				"group/subgroup",
+				"project",
+				"base-sha",
+				"head-sha",
+			),
+		).toBe("diverged");
+	});
+
+	it("converts compared diffs into changed files", async () => {
+		const files = await api.getFilesBetweenCommits(
+			"group/subgroup",
+			"project",
+			"base-sha",
+			"head-sha",
+		);
+
+		expect(files).toEqual([
+			{
+				filename: "src/index.ts",
+				status: "renamed",
+				additions: 2,
+				deletions: 1,
+				changes: 3,
+				patch: PATCH,
+			},
+			{
+				filename: "docs/new.md",
+				status: "added",
+				additions: 1,
+				deletions: 0,
+				changes: 1,
+				patch: "@@ -0,0 +1 @@\n+# New",
+			},
+		]);
+		expect(requests.at(-1)?.path).toContain("from=base-sha&to=head-sha");
+	});
+
+	it("reads file content at the head commit and retries server errors", async () => {
+		failuresLeft = 1;
+		const content = await api.getContent(
+			"group/subgroup",
+			"project",
+			"base-sha",
+			"head-sha",
+			"src/index.ts",
+		);
+
+		expect(content).toBe("content at head-sha");
+	});
+
+	it("reads deleted files at the base commit", async () => {
+		const content = await api.getContent(
+			"group/subgroup",
+			"project",
+			"merge-base-sha",
+			"head-sha",
+			"src/deleted.ts",
+		);
+
+		expect(content).toBe("old content");
+	});
+
+	it("returns a placeholder for missing files", async () => {
+		const content = await api.getContent(
+			"group/subgroup",
+			"project",
+			"base-sha",
+			"head-sha",
+			"missing.ts",
+		);
+
+		expect(content).toBe("[File content unavailable]");
+	});
+
+	it("creates merge request notes", async () => {
+		await api.createPRComment("group/subgroup", "project", 7, "Summary");
+
+		expect(requests.at(-1)).toMatchObject({
+			method: "POST",
+			path: `${PROJECT_PATH}/merge_requests/7/notes`,
+			body: { body: "Summary" },
+		});
+	});
+
+	it("creates discussions positioned on the last line of the range", async () => {
+		await api.createReviewComment(
+			"group/subgroup",
+			"project",
+			7,
+			"head-sha",
+			"Finding",
+			"src/index.ts",
+			REVIEW_SIDES.RIGHT,
+			2,
+			3,
+		);
+
+		expect(requests.at(-1)).toMatchObject({
+			method: "POST",
+			path: `${PROJECT_PATH}/merge_requests/7/discussions`,
+			body: {
+				body: "_Lines 2-3_\n\nFinding",
+				position: {
+					position_type: "text",
+					base_sha: "base-sha",
+					start_sha: "start-sha",
+					head_sha: "head-sha",
+					old_path: "src/old.ts",
+					new_path: "src/index.ts",
+					new_line: 3,
+				},
+			},
+		});
+	});
+
+	it.each(["APPROVE", "REQUEST_CHANGES"] as const)(
+		"posts the review when the %s verdict is not permitted",
+		async (event) => {
+			requests.length = 0;
+
+			const failedComments = await api.createReview(
+				"group/subgroup",
+				"project",
+				7,
+				"head-sha",
+				"Summary",
+				[
+					{
+						comment: "Finding",
+						filePath: "src/index.ts",
+						side: REVIEW_SIDES.RIGHT,
+						startLineNumber: 2,
+						endLineNumber: 3,
+					},
+				],
+				event,
+			);
+
+			expect(failedComments).toEqual([]);
+			expect(
+				requests
+					.filter((request) => request.method === "POST")
+					.map((request) => request.path.split("/").at(-1)),
+			).toEqual([
+				"discussions",
+				"notes",
+				event === REVIEW_EVENTS.APPROVE ? "approve" : "unapprove",
+			]);
+		},
+	);
+
+	it("fails after exhausting the retries", async () => {
+		failuresLeft = 3;
+
+		await expect(
+			api.createPRComment("group/subgroup", "project", 7, "Summary"),
+		).rejects.toThrow("502");
+	});
+});
+
+describe("GitLabAPI.getLinePosition", () => {
+	it("returns only the new line of added lines", () => {
+		expect(GitLabAPI.getLinePosition(PATCH, REVIEW_SIDES.RIGHT, 3)).toEqual({
+			new_line: 3,
+		});
+	});
+
+	it("returns only the old line of removed lines", () => {
+		expect(GitLabAPI.getLinePosition(PATCH, REVIEW_SIDES.LEFT, 2)).toEqual({
+			old_line: 2,
+		});
+	});
+
+	it("returns both lines of unchanged lines", () => {
+		expect(GitLabAPI.getLinePosition(PATCH, REVIEW_SIDES.RIGHT, 5)).toEqual({
+			old_line: 4,
+			new_line: 5,
+		});
+		expect(GitLabAPI.getLinePosition(PATCH, REVIEW_SIDES.LEFT, 1)).toEqual({
+			old_line: 1,
+			new_line: 1,
+		});
+	});
+
+	it("returns the given line if it is outside the patch", () => {
+		expect(GitLabAPI.getLinePosition(PATCH, REVIEW_SIDES.RIGHT, 40)).toEqual({
+			new_line: 40,
+		});
+	});
+});
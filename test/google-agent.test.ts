@@ -0,0 +1,187 @@
+import {
+	afterAll,
+	afterEach,
+	beforeAll,
+	describe,
+	expect,
+	it,
+	mock,
+} from "bun:test";
+import type { Server } from "bun";
+import type { ChangedFile } from "../src/types/constants";
+import { mockChangedFiles, mockCore, mockFileContent } from "./mocks";
+
+mock.module("@actions/core", () => mockCore);
+
+const { GoogleAgent } = await import("../src/ai/google-agent");
+const { ReviewProgress } = await import("../src/review/review-progress");
+
+/**
+ * Builds a Gemini generateContent response that calls a single tool
+ */
+const functionCallResponse = (name: string, args: Record<string, unknown>) => ({
+	candidates: [
+		{
+			content: { role: "model", parts: [{ functionCall: { name, args } }] },
+			finishReason: "STOP",
+			index: 0,
+		},
+	],
+	usageMetadata: {
+		promptTokenCount: 10,
+		candidatesTokenCount: 5,
+		totalTokenCount: 15,
+	},
+});
+
+/**
+ * Builds a Gemini generateContent response with plain text
+ */
+const textResponse = (text: string) => ({
+	candidates: [
+		{
+			content: { role: "model", parts: [{ text }] },
+			finishReason: "STOP",
+			index: 0,
+		},
+	],
+	usageMetadata: {
+		promptTokenCount: 10,
+		candidatesTokenCount: 5,
+		totalTokenCount: 15,
+	},
+});
+
+const addReviewComment = functionCallResponse("add_review_comment", {
+	file_name: mockChangedFiles[0].filename,
+	start_line_number: 2,
+	end_line_number: 3,
+	found_error_description: "Unused import of zod",
+	side: "RIGHT",
+});
+
+describe("GoogleAgent", () => {
+	let server: Server;
+	const originalFetch = globalThis.fetch;
+	const requests: unknown[] = [];
+	// Responses returned by the mock server, by the number of the request
+	let respond: (request: number) => unknown = () => textResponse("");
+
+	beforeAll(() => {
+		server = Bun.serve({
+			port: 0,
+			async fetch(request) {
+				requests.push(await request.json());
+				return Response.json(respond(requests.length - 1));
+			},
+		});
+		// The Google provider has no base URL setting in the agent, so its
+		// requests are sent to the mock server
+		globalThis.fetch = ((input: RequestInfo | URL, init?: RequestInit) => {
+			const url = new URL(input instanceof Request ? input.url : input);
+			return originalFetch(
+				`http://localhost:${server.port}${url.pathname}${url.search}`,
+				init,
+			);
+		}) as typeof fetch;
+	});
+
+	afterEach(() => {
+		requests.length = 0;
+	});
+
+	afterAll(() => {
+		globalThis.fetch = originalFetch;
+		server.stop(true);
+	});
+
+	it("should review each file in a tool loop and count only published comments", async () => {
+		const responses = [
+			functionCallResponse("get_file_content", {
+				path_to_file: mockChangedFiles[0].filename,
+				start_line_number: 1,
+				end_line_number: 20,
+			}),
+			addReviewComment,
+			// The same finding again is not published a second time
+			addReviewComment,
+			functionCallResponse("mark_as_done", {
+				brief_summary: "Found one unused import",
+			}),
+			textResponse("Review finished"),
+		];
+		respond = (request) => responses[request] ?? textResponse("Looks good");
+		const fileContentGetter = mock(() => Promise.resolve(mockFileContent));
+		const fileCommentator = mock(() => Promise.resolve());
+		const reviewProgress = new ReviewProgress();
+
+		const agent = new GoogleAgent(
+			"mock-google-api-key",
+			fileContentGetter,
+			fileCommentator,
+			"gemini-2.0-flash",
+			{ reviewProgress },
+		);
+
+		const summary = await agent.review(mockChangedFiles);
+
+		expect(requests.length).toBe(6);
+		expect(fileContentGetter.mock.calls.length).toBe(2);
+		expect(fileCommentator.mock.calls.length).toBe(1);
+		expect(summary).toContain("Reviewed 2 files with 1 comments.");
+		expect(summary).toContain(
+			`### ${mockChangedFiles[0].filename}\n\nFound one unused import`,
+		);
+		expect(summary).toContain(
+			`### ${mockChangedFiles[1].filename}\n\nLooks good`,
+		);
+		expect(
+			reviewProgress.fileTimings.map(({ filename, steps }) => [
+				filename,
+				steps,
+			]),
+		).toEqual([
+			[mockChangedFiles[0].filename, 5],
+			[mockChangedFiles[1].filename, 1],
+		]);
+	});
+
+	it("should report the files left out by the step limit as skipped", async () => {
+		// The model never finishes, so every file uses up its step limit
+		respond = () =>
+			functionCallResponse("get_file_content", {
+				path_to_file: mockChangedFiles[0].filename,
+				start_line_number: 1,
+				end_line_number: 20,
+			});
+		const files: ChangedFile[] = Array.from({ length: 6 }, (_, index) => ({
+			...mockChangedFiles[0],
+			filename: `src/file-${index}.ts`,
+		}));
+		const reviewProgress = new ReviewProgress();
+
+		const agent = new GoogleAgent(
+			"mock-google-api-key",
+			mock(() => Promise.resolve(mockFileContent)),
+			mock(() => Promise.resolve()),
+			"gemini-2.0-flash",
+			{ reviewProgress },
+		);
+
+		await agent.review(files);
+
+		expect(requests.length).toBe(50);
+		expect(
+			reviewProgress.fileTimings.every(
+				({ steps, stepLimitReached }) => steps === 10 && stepLimitReached,
+			),
+		).toBe(true);
+		expect(reviewProgress.skipped).toEqual([
+			{
+				filename: "src/file-5.ts",
+				reason: "step_limit",
+				detail: "Reached maximum total steps (50)",
+			},
+		]);
+	});
+});
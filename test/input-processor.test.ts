@@ -1,7 +1,17 @@
 import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
 import type { InputOptions } from "@actions/core";
 import type { AIAgent } from "../src/ai/ai-agent";
-import type { ChangedFile } from "../src/types/constants";
+import type {
+	PullRequestComment,
+	PullRequestCommit,
+} from "../src/code-host/code-host";
+import { formatReviewState } from "../src/review/review-state";
+import type {
+	ChangedFile,
+	ComparisonStatus,
+	FileCommentator,
+	ReviewFinding,
+} from "../src/types/constants";
 import { mockChangedFiles, mockFileContent, mockInputs } from "./mocks";
 
 // Define the InputProcessor type
@@ -12,7 +22,18 @@ interface InputProcessorType {
 interface InputProcessorInstance {
 	processInputs(): Promise<InputProcessorInstance>;
 	getAIAgent(): AIAgent;
+	getAIAgents(): Array<{ label: string; agent: AIAgent }>;
+	getConsensusAgents(): Array<{
+		label: string;
+		agent: AIAgent;
+		findings: unknown[];
+	}>;
 	getFilteredDiffs: ChangedFile[];
+	getFileCommentator?: FileCommentator;
+	getPendingComments: ReviewFinding[];
+	discardPendingComments(): void;
+	getConfigHash: string;
+	getReviewScopeNote: string;
 }
 
 // Define the type for our test inputs
@@ -23,6 +44,7 @@ const testInputs: TestInputs = {
 	...mockInputs,
 	anthropic_api_key: "mock-anthropic-api-key",
 	google_api_key: "mock-google-api-key",
+	openai_api_key: "mock-openai-api-key",
 	token: "mock-github-token",
 };
 
@@ -47,11 +69,20 @@ const createGitHubAPIMocks = () => ({
 			base: { sha: "mock-base-sha" },
 		}),
 	),
-	listPRComments: mock(() => Promise.resolve([])),
+	listPRComments: mock(() => Promise.resolve([] as PullRequestComment[])),
+	listPRCommits: mock(() => Promise.resolve([] as PullRequestCommit[])),
+	getCommit: mock(() =>
+		Promise.resolve<PullRequestCommit>({ sha: "reviewed-sha", message: "" }),
+	),
 	getFilesBetweenCommits: mock(() => Promise.resolve(mockChangedFiles)),
 	getContent: mock(() => Promise.resolve(mockFileContent)),
 	createReviewComment: mock(() => Promise.resolve({})),
 	createPRComment: mock(() => Promise.resolve({})),
+	updatePRComment: mock(() => Promise.resolve()),
+	getAuthenticatedUser: mock(() => Promise.resolve("github-actions[bot]")),
+	getMergeBase: mock(() => Promise.resolve("mock-merge-base-sha")),
+	getComparisonStatus: mock(() => Promise.resolve<ComparisonStatus>("ahead")),
+	createReview: mock(() => Promise.resolve([])),
 });
 
 describe("InputProcessor", () => {
@@ -121,9 +152,316 @@ describe("InputProcessor", () => {
 			expect(aiAgent.constructor.name).toContain("Anthropic");
 		} else if (testInputs.ai_provider === "google") {
 			expect(aiAgent.constructor.name).toContain("Google");
+		} else if (testInputs.ai_provider === "openai") {
+			expect(aiAgent.constructor.name).toContain("OpenAI");
 		}
 	});
 
+	it("should create an OpenAI-compatible agent without an API key", async () => {
+		const originalProvider = testInputs.ai_provider;
+		testInputs.ai_provider = "openai_compatible";
+		testInputs.openai_compatible_model = "qwen2.5-coder:32b";
+		testInputs.api_base_url = "http://localhost:11434/v1";
+
+		const inputProcessor = await InputProcessor.create();
+		await inputProcessor.processInputs();
+
+		const aiAgent = inputProcessor.getAIAgent();
+		expect(aiAgent.constructor.name).toBe("OpenAICompatibleAgent");
+
+		// The base URL is mandatory for this provider
+		testInputs.api_base_url = "";
+		await expect(InputProcessor.create()).rejects.toThrow(
+			"api_base_url is required",
+		);
+
+		// Reset the mock inputs
+		testInputs.ai_provider = originalProvider;
+		testInputs.openai_compatible_model = "";
+	});
+
+	it("should create fallback agents in the configured order", async () => {
+		testInputs.fallback_providers = "google:gemini-2.0-flash, openai";
+
+		const inputProcessor = await InputProcessor.create();
+		await inputProcessor.processInputs();
+
+		const reviewAgents = inputProcessor.getAIAgents();
+		expect(reviewAgents.map(({ label }) => label)).toEqual([
+			`Anthropic Claude (${testInputs.anthropic_model})`,
+			"Google Gemini (gemini-2.0-flash)",
+			`OpenAI (${testInputs.openai_model})`,
+		]);
+
+		// Unknown fallback providers are rejected during validation
+		testInputs.fallback_providers = "unknown:model";
+		await expect(InputProcessor.create()).rejects.toThrow(
+			"fallback_providers.0.ai_provider",
+		);
+
+		// Reset the mock inputs
+		testInputs.fallback_providers = "";
+	});
+
+	it("should create consensus agents that collect findings", async () => {
+		testInputs.review_mode = "consensus";
+		testInputs.consensus_providers = "google:gemini-2.0-flash";
+
+		const inputProcessor = await InputProcessor.create();
+		await inputProcessor.processInputs();
+
+		const consensusAgents = inputProcessor.getConsensusAgents();
+		expect(consensusAgents.map(({ label }) => label)).toEqual([
+			`Anthropic Claude (${testInputs.anthropic_model})`,
+			"Google Gemini (gemini-2.0-flash)",
+		]);
+		expect(consensusAgents[0].findings).toEqual([]);
+
+		// Consensus needs at least as many agents as the minimum agreement
+		testInputs.consensus_min_agreement = "3";
+		await expect(InputProcessor.create()).rejects.toThrow(
+			"Consensus mode needs at least 3 agents",
+		);
+
+		// Reset the mock inputs
+		testInputs.review_mode = "";
+		testInputs.consensus_providers = "";
+		testInputs.consensus_min_agreement = "";
+	});
+
+	it("should queue review comments until the review is submitted", async () => {
+		const inputProcessor = await InputProcessor.create();
+		await inputProcessor.processInputs();
+
+		await inputProcessor.getFileCommentator?.(
+			"Possible null dereference",
+			mockChangedFiles[0].filename,
+			"RIGHT",
+			2,
+			3,
+		);
+
+		expect(inputProcessor.getPendingComments).toEqual([
+			{
+				comment: "Possible null dereference",
+				filePath: mockChangedFiles[0].filename,
+				side: "RIGHT",
+				startLineNumber: 2,
+				endLineNumber: 3,
+			},
+		]);
+		expect(mockGitHubAPI.createReviewComment.mock.calls.length).toBe(0);
+	});
+
+	it("should not submit the comments of a failed review with those of the fallback", async () => {
+		testInputs.fallback_providers = "google:gemini-2.0-flash";
+		const inputProcessor = await InputProcessor.create();
+		await inputProcessor.processInputs();
+
+		/**
+		 * Publishes the same finding through an agent, as its review would
+		 */
+		const addReviewComment = (agent: AIAgent) => {
+			Object.assign(agent, { changedFiles: mockChangedFiles });
+			return (
+				agent as unknown as {
+					addReviewComment: (
+						fileName: string,
+						startLineNumber: number,
+						endLineNumber: number,
+						foundErrorDescription: string,
+					) => Promise<string>;
+				}
+			).addReviewComment.call(
+				agent,
+				mockChangedFiles[0].filename,
+				2,
+				2,
+				"Unused import of zod",
+			);
+		};
+		const [primary, fallback] = inputProcessor.getAIAgents();
+
+		await addReviewComment(primary.agent);
+		// The primary review fails after its comment was queued
+		inputProcessor.discardPendingComments();
+		expect(await addReviewComment(fallback.agent)).toContain("Success");
+
+		expect(
+			inputProcessor.getPendingComments.map(({ filePath }) => filePath),
+		).toEqual([mockChangedFiles[0].filename]);
+
+		// Reset the mock inputs
+		testInputs.fallback_providers = "";
+	});
+
+	describe("incremental reviews", () => {
+		const reviewedCommit = "0123456789abcdef0123456789abcdef01234567";
+
+		/**
+		 * Posts a summary with the review state of a previous run
+		 */
+		const postReviewState = (
+			configHash: string,
+			author = "github-actions[bot]",
+		) => {
+			const body = `Summary\n\n${formatReviewState({
+				headSha: reviewedCommit,
+				baseSha: "fedcba9876543210fedcba9876543210fedcba98",
+				actionVersion: "v1",
+				configHash,
+			})}`;
+			mockGitHubAPI.listPRComments.mockImplementation(() =>
+				Promise.resolve([{ body, author }]),
+			);
+			mockGitHubAPI.listPRCommits.mockImplementation(() =>
+				Promise.resolve([
+					{ sha: reviewedCommit, message: "Add parser" },
+					{ sha: "mock-head-sha", message: "Fix parser" },
+				]),
+			);
+		};
+
+		/**
+		 * Replaces the reviewed commit by a rebased version, as a force-push does
+		 */
+		const rebaseReviewedCommit = (rebasedCommit: PullRequestCommit) => {
+			mockGitHubAPI.getComparisonStatus.mockImplementation(() =>
+				Promise.resolve("diverged"),
+			);
+			mockGitHubAPI.getCommit.mockImplementation(() =>
+				Promise.resolve({
+					sha: reviewedCommit,
+					message: "Add parser",
+					authorDate: "2024-05-01T10:00:00Z",
+				}),
+			);
+			mockGitHubAPI.listPRCommits.mockImplementation(() =>
+				Promise.resolve([
+					rebasedCommit,
+					{ sha: "mock-head-sha", message: "Fix parser" },
+				]),
+			);
+		};
+
+		const getReviewedBase = () =>
+			(
+				mockGitHubAPI.getFilesBetweenCommits.mock.calls[0] as unknown[]
+			)[2] as string;
+
+		it("should review the changes since the merge base on the first review", async () => {
+			const inputProcessor = await InputProcessor.create();
+
+			await inputProcessor.processInputs();
+
+			expect(mockGitHubAPI.getMergeBase.mock.calls[0]).toEqual([
+				testInputs.owner,
+				testInputs.repo,
+				"mock-base-sha",
+				"mock-head-sha",
+			] as never);
+			expect(getReviewedBase()).toBe("mock-merge-base-sha");
+		});
+
+		it("should compare against the base commit without a merge base", async () => {
+			mockGitHubAPI.getMergeBase.mockImplementation(() =>
+				Promise.reject(new Error("Not Found")),
+			);
+			const inputProcessor = await InputProcessor.create();
+
+			await inputProcessor.processInputs();
+
+			expect(getReviewedBase()).toBe("mock-base-sha");
+		});
+
+		it("should only review the commits since the previous review", async () => {
+			const inputProcessor = await InputProcessor.create();
+			postReviewState(inputProcessor.getConfigHash);
+
+			await inputProcessor.processInputs();
+
+			expect(getReviewedBase()).toBe(reviewedCommit);
+			// Old file versions are still read at the merge base
+			const { fileContentGetter } = inputProcessor as unknown as {
+				fileContentGetter: (filePath: string) => Promise<string>;
+			};
+			await fileContentGetter("src/index.ts");
+			expect(
+				(mockGitHubAPI.getContent.mock.calls[0] as unknown[]).slice(2),
+			).toEqual(["mock-merge-base-sha", "mock-head-sha", "src/index.ts"]);
+		});
+
+		it("should reject files whose content is unavailable", async () => {
+			const inputProcessor = await InputProcessor.create();
+			await inputProcessor.processInputs();
+			mockGitHubAPI.getContent.mockImplementationOnce(() =>
+				Promise.resolve("[File content unavailable]"),
+			);
+
+			const { fileContentGetter } = inputProcessor as unknown as {
+				fileContentGetter: (filePath: string) => Promise<string>;
+			};
+			await expect(fileContentGetter("src/index.ts")).rejects.toThrow(
+				"Content of src/index.ts is unavailable",
+			);
+		});
+
+		it("should ignore review state posted by other users", async () => {
+			const inputProcessor = await InputProcessor.create();
+			postReviewState(inputProcessor.getConfigHash, "mallory");
+
+			await inputProcessor.processInputs();
+
+			expect(getReviewedBase()).toBe("mock-merge-base-sha");
+			expect(mockCoreModule.warning.mock.calls[0][0]).toContain(
+				"Ignoring review state posted by mallory",
+			);
+		});
+
+		it("should review all files when the configuration changed", async () => {
+			const inputProcessor = await InputProcessor.create();
+			postReviewState("0000000000000000");
+
+			await inputProcessor.processInputs();
+
+			expect(getReviewedBase()).toBe("mock-merge-base-sha");
+		});
+
+		it("should only review the commits after the rebased reviewed commit", async () => {
+			const inputProcessor = await InputProcessor.create();
+			postReviewState(inputProcessor.getConfigHash);
+			rebaseReviewedCommit({
+				sha: "rebased-sha",
+				message: "Add parser",
+				authorDate: "2024-05-01T10:00:00Z",
+			});
+
+			await inputProcessor.processInputs();
+
+			expect(getReviewedBase()).toBe("rebased-sha");
+			expect(inputProcessor.getReviewScopeNote).toContain(
+				"Only the commits after its rewritten version rebased were reviewed.",
+			);
+		});
+
+		it("should review all files when the reviewed commit was rewritten", async () => {
+			const inputProcessor = await InputProcessor.create();
+			postReviewState(inputProcessor.getConfigHash);
+			rebaseReviewedCommit({
+				sha: "rebased-sha",
+				message: "Add parser and tests",
+				authorDate: "2024-05-01T10:00:00Z",
+			});
+
+			await inputProcessor.processInputs();
+
+			expect(getReviewedBase()).toBe("mock-merge-base-sha");
+			expect(inputProcessor.getReviewScopeNote).toContain(
+				"has no counterpart in the pull request, so all files were reviewed.",
+			);
+		});
+	});
+
 	it("should filter files based on extensions and paths", async () => {
 		// Set up specific include/exclude patterns
 		const originalIncludeExtensions = testInputs.include_extensions;
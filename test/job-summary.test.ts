@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, mock } from "bun:test";
+import { summary } from "@actions/core/lib/summary";
+import { ReviewProgress } from "../src/review/review-progress";
+import type { ReviewFinding } from "../src/types/constants";
+import { UsageTracker } from "../src/utils/usage";
+import { mockCore } from "./mocks";
+
+mock.module("@actions/core", () => mockCore);
+
+const { buildJobSummary } = await import("../src/review/job-summary");
+
+const findings: ReviewFinding[] = [
+	{
+		comment: "**Unescaped** `<input>` reaches the query\nMore details",
+		filePath: "src/db.ts",
+		side: "RIGHT",
+		startLineNumber: 12,
+		endLineNumber: 14,
+		severity: "high",
+		category: "security",
+	},
+	{
+		comment: "Possible null dereference",
+		filePath: "src/app.ts",
+		side: "RIGHT",
+		startLineNumber: 3,
+		endLineNumber: 3,
+	},
+];
+
+describe("ReviewProgress", () => {
+	it("should add up the reviews of a file", () => {
+		const progress = new ReviewProgress();
+
+		progress.recordFile("src/app.ts", 1000, 3);
+		progress.recordFile("src/app.ts", 500, 10, true);
+
+		expect(progress.fileTimings).toEqual([
+			{
+				filename: "src/app.ts",
+				durationMs: 1500,
+				steps: 13,
+				stepLimitReached: true,
+			},
+		]);
+	});
+
+	it("should not report reviewed files as skipped", () => {
+		const progress = new ReviewProgress();
+
+		progress.recordFile("src/app.ts", 1000, 3);
+		progress.skipFile("src/app.ts", "usage_limit", "token cap reached");
+		progress.skipFile("src/db.ts", "step_limit");
+		progress.skipFile("src/db.ts", "usage_limit");
+		progress.skipFile("src/utils.ts", "usage_limit");
+		progress.recordFile("src/utils.ts", 200, 2);
+
+		expect(progress.skipped).toEqual([
+			{ filename: "src/db.ts", reason: "step_limit", detail: undefined },
+		]);
+	});
+});
+
+describe("buildJobSummary", () => {
+	let progress: ReviewProgress;
+
+	beforeEach(() => {
+		progress = new ReviewProgress();
+	});
+
+	const build = (reviewFindings: ReviewFinding[]) =>
+		buildJobSummary(summary.emptyBuffer(), {
+			reviewedCommit: "head-sha",
+			filesReviewed: ["src/app.ts", "src/db.ts"],
+			findings: reviewFindings,
+			progress,
+			usageTracker: new UsageTracker(),
+			configuration: [
+				["AI Provider", "anthropic"],
+				["Exclude Paths", "dist/"],
+			],
+			durationMs: 12_345,
+		}).stringify();
+
+	it("should list the findings sorted by file with severity badges", () => {
+		const html = build(findings);
+
+		expect(html).toContain(
+			"Reviewed 2 files up to commit <code>head-sha</code> in 12.3s: 2 findings (1 high, 1 medium, 0 low)",
+		);
+		expect(html.indexOf("src/app.ts")).toBeLessThan(html.indexOf("src/db.ts"));
+		expect(html).toContain("<td>🔴 High</td>");
+		expect(html).toContain("<td>🟠 Medium</td><td>other</td>");
+		expect(html).toContain(
+			"<td>Unescaped `&lt;input&gt;` reaches the query</td>",
+		);
+		expect(html).toContain("<td>12-14</td>");
+	});
+
+	it("should list the skipped files with their reason and the timings", () => {
+		progress.skipFile("dist/app.js", "filtered");
+		progress.skipFile("src/big.ts", "usage_limit", "token cap reached");
+		progress.recordFile("src/app.ts", 2500, 10, true);
+
+		const html = build([]);
+
+		expect(html).toContain("No findings.");
+		expect(html).toContain(
+			"<li><code>dist/app.js</code>: excluded by the file filters</li>",
+		);
+		expect(html).toContain(
+			"<li><code>src/big.ts</code>: usage cap reached (token cap reached)</li>",
+		);
+		expect(html).toContain(
+			"<td><code>src/app.ts</code></td><td>2.5s</td><td>10 (step limit hit)</td>",
+		);
+	});
+
+	it("should show the token usage and the configuration", () => {
+		const html = build([]);
+
+		expect(html).toContain("Token usage: 0 input / 0 output tokens");
+		expect(html).toContain(
+			"<details><summary>Configuration</summary><ul><li>AI Provider: anthropic</li><li>Exclude Paths: dist/</li></ul></details>",
+		);
+		expect(html).not.toContain("Skipped Files");
+		expect(html).not.toContain("Timings");
+	});
+});
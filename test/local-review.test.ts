@@ -0,0 +1,170 @@
+import { afterAll, beforeAll, describe, expect, it, mock } from "bun:test";
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { mockCore } from "./mocks";
+
+mock.module("@actions/core", () => mockCore);
+
+const { getLocalChangedFiles, parseGitDiff } = await import(
+	"../src/local/git-diff"
+);
+const { createConsoleCommentator, createWorkingTreeContentGetter } =
+	await import("../src/local/local-review");
+
+const sampleDiff = `diff --git a/src/app.ts b/src/app.ts
+index 1111111..2222222 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,3 +1,4 @@
+ import a from "a";
++import b from "b";
+-run(a);
++run(a, b);
+diff --git a/src/new.ts b/src/new.ts
+new file mode 100644
+index 0000000..3333333
+--- /dev/null
++++ b/src/new.ts
+@@ -0,0 +1 @@
++export const x = 1;
+diff --git a/src/old.ts b/src/old.ts
+deleted file mode 100644
+index 4444444..0000000
+--- a/src/old.ts
++++ /dev/null
+@@ -1 +0,0 @@
+-export const y = 2;
+diff --git a/src/a.ts b/src/b.ts
+similarity index 100%
+rename from src/a.ts
+rename to src/b.ts
+diff --git a/logo.png b/logo.png
+index 5555555..6666666 100644
+Binary files a/logo.png and b/logo.png differ
+`;
+
+describe("parseGitDiff", () => {
+	it("should convert git diff output into changed files", () => {
+		const files = parseGitDiff(sampleDiff);
+
+		expect(
+			files.map(({ filename, status, additions, deletions, changes }) => ({
+				filename,
+				status,
+				additions,
+				deletions,
+				changes,
+			})),
+		).toEqual([
+			{
+				filename: "src/app.ts",
+				status: "modified",
+				additions: 2,
+				deletions: 1,
+				changes: 3,
+			},
+			{
+				filename: "src/new.ts",
+				status: "added",
+				additions: 1,
+				deletions: 0,
+				changes: 1,
+			},
+			{
+				filename: "src/old.ts",
+				status: "removed",
+				additions: 0,
+				deletions: 1,
+				changes: 1,
+			},
+			{
+				filename: "src/b.ts",
+				status: "renamed",
+				additions: 0,
+				deletions: 0,
+				changes: 0,
+			},
+			{
+				filename: "logo.png",
+				status: "modified",
+				additions: 0,
+				deletions: 0,
+				changes: 0,
+			},
+		]);
+		expect(files[0].patch).toBe(
+			'@@ -1,3 +1,4 @@\n import a from "a";\n+import b from "b";\n-run(a);\n+run(a, b);',
+		);
+		expect(files[3].patch).toBeUndefined();
+	});
+});
+
+describe("Local review", () => {
+	let repoDir: string;
+	const git = (...args: string[]) =>
+		execFileSync("git", args, { cwd: repoDir, stdio: "pipe" });
+
+	beforeAll(() => {
+		repoDir = fs.mkdtempSync(path.join(os.tmpdir(), "lcg-local-review-"));
+		git("init", "--quiet", "--initial-branch=main");
+		git("config", "user.email", "dev@example.com");
+		git("config", "user.name", "Dev");
+		fs.writeFileSync(path.join(repoDir, "app.ts"), "const a = 1;\n");
+		git("add", ".");
+		git("commit", "--quiet", "-m", "Initial commit");
+		git("checkout", "--quiet", "-b", "feature");
+		fs.writeFileSync(
+			path.join(repoDir, "app.ts"),
+			"const a = 1;\nconst b = 2;\n",
+		);
+		git("commit", "--quiet", "-am", "Add b");
+	});
+
+	afterAll(() => {
+		fs.rmSync(repoDir, { recursive: true, force: true });
+	});
+
+	it("should list the files changed since the base branch", async () => {
+		// Uncommitted changes are part of the working tree review only
+		fs.writeFileSync(path.join(repoDir, "notes.md"), "draft\n");
+		git("add", "notes.md");
+
+		const committed = await getLocalChangedFiles("main", "feature", repoDir);
+		expect(committed.map((file) => file.filename)).toEqual(["app.ts"]);
+		expect(committed[0].patch).toContain("+const b = 2;");
+
+		const workingTree = await getLocalChangedFiles("main", undefined, repoDir);
+		expect(workingTree.map((file) => file.filename)).toEqual([
+			"app.ts",
+			"notes.md",
+		]);
+	});
+
+	it("should read files from the working tree only", async () => {
+		const getContent = createWorkingTreeContentGetter(repoDir);
+
+		expect(await getContent("app.ts")).toBe("const a = 1;\nconst b = 2;\n");
+		await expect(getContent("../outside.ts")).rejects.toThrow(
+			"Path ../outside.ts is outside the repository",
+		);
+		await expect(getContent("missing.ts")).rejects.toThrow();
+	});
+
+	it("should write findings as markdown", async () => {
+		const output: string[] = [];
+		const commentator = createConsoleCommentator((text) => output.push(text));
+
+		await commentator("Unused variable b", "app.ts", "RIGHT", 2, 2);
+		await commentator("Removed check", "app.ts", "LEFT", 1, 3);
+
+		expect(output).toEqual([
+			"## app.ts:2-2\n\nUnused variable b\n\n",
+			"## app.ts:1-3 (removed lines)\n\nRemoved check\n\n",
+		]);
+		await expect(commentator("", "app.ts", "RIGHT", 1, 1)).rejects.toThrow(
+			"Comment text cannot be empty",
+		);
+	});
+});
@@ -62,9 +62,7 @@ async function runTest() {
 		console.log("🔍 Starting code review...");
 		console.log(`📄 Reviewing ${inputProcessor.getFilteredDiffs.length} files`);
 
-		const reviewSummary = await aiAgent.doReview(
-			inputProcessor.getFilteredDiffs,
-		);
+		const reviewSummary = await aiAgent.review(inputProcessor.getFilteredDiffs);
 
 		console.log("\n📊 Review Summary:");
 		console.log("=================");
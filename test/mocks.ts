@@ -1,5 +1,6 @@
 import { mock } from "bun:test";
-import type { ChangedFile } from "../src/types/constants";
+import type { PullRequestCommit } from "../src/code-host/code-host";
+import type { ChangedFile, ReviewFinding } from "../src/types/constants";
 
 /**
  * Mock GitHub Action inputs
@@ -13,6 +14,8 @@ export const mockInputs: Record<string, string> = {
 	anthropic_model: "claude-3-sonnet-20240229",
 	google_api_key: process.env.GOOGLE_API_KEY || "",
 	google_model: "gemini-1.5-pro-latest",
+	openai_api_key: process.env.OPENAI_API_KEY || "",
+	openai_model: "gpt-4o",
 	fail_action_if_review_failed: "false",
 	include_extensions: ".ts,.tsx,.js,.jsx",
 	exclude_extensions: ".test.ts,.spec.ts",
@@ -44,6 +47,20 @@ export const mockChangedFiles: ChangedFile[] = [
 	},
 ];
 
+/**
+ * Builds a review finding, with the given properties replacing the defaults
+ */
+export const mockFinding = (
+	overrides: Partial<ReviewFinding> = {},
+): ReviewFinding => ({
+	comment: "Possible null dereference",
+	filePath: "src/app.ts",
+	side: "RIGHT",
+	startLineNumber: 2,
+	endLineNumber: 3,
+	...overrides,
+});
+
 /**
  * Mock file content
  */
@@ -81,10 +98,19 @@ export const mockGitHubAPI = {
 		}),
 	),
 	listPRComments: mock(() => Promise.resolve([])),
+	listPRCommits: mock(() => Promise.resolve([] as PullRequestCommit[])),
+	getCommit: mock(() =>
+		Promise.resolve<PullRequestCommit>({ sha: "reviewed-sha", message: "" }),
+	),
 	getFilesBetweenCommits: mock(() => Promise.resolve(mockChangedFiles)),
 	getContent: mock(() => Promise.resolve(mockFileContent)),
 	createReviewComment: mock(() => Promise.resolve({})),
 	createPRComment: mock(() => Promise.resolve({})),
+	updatePRComment: mock(() => Promise.resolve()),
+	getAuthenticatedUser: mock(() => Promise.resolve("github-actions[bot]")),
+	getMergeBase: mock(() => Promise.resolve("mock-merge-base-sha")),
+	getComparisonStatus: mock(() => Promise.resolve("ahead")),
+	createReview: mock(() => Promise.resolve([])),
 };
 
 // Mock GitHubAPI class constructor
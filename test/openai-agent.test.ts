@@ -0,0 +1,411 @@
+import { afterAll, beforeAll, describe, expect, it, mock } from "bun:test";
+import type { Server } from "bun";
+import type { FindingDetails, ReviewSide } from "../src/types/constants";
+import { mockChangedFiles, mockCore, mockFileContent } from "./mocks";
+
+mock.module("@actions/core", () => mockCore);
+
+const { OpenAIAgent } = await import("../src/ai/openai-agent");
+const { UsageTracker } = await import("../src/utils/usage");
+const { PublishLedger } = await import("../src/review/publish-ledger");
+const { ReviewProgress } = await import("../src/review/review-progress");
+
+interface ChatCompletionRequest {
+	model: string;
+	messages: Array<{ role: string; content?: string | null }>;
+	tools?: Array<{ function: { name: string } }>;
+}
+
+/**
+ * Builds an OpenAI chat completion response that calls a single tool
+ */
+const toolCallResponse = (name: string, args: Record<string, unknown>) => ({
+	id: `chatcmpl-${name}`,
+	object: "chat.completion",
+	created: 0,
+	model: "gpt-4o",
+	choices: [
+		{
+			index: 0,
+			message: {
+				role: "assistant",
+				content: null,
+				tool_calls: [
+					{
+						id: `call_${name}`,
+						type: "function",
+						function: { name, arguments: JSON.stringify(args) },
+					},
+				],
+			},
+			finish_reason: "tool_calls",
+		},
+	],
+	usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+});
+
+/**
+ * Builds an OpenAI chat completion response with plain text
+ */
+const textResponse = (content: string) => ({
+	id: "chatcmpl-text",
+	object: "chat.completion",
+	created: 0,
+	model: "gpt-4o",
+	choices: [
+		{
+			index: 0,
+			message: { role: "assistant", content },
+			finish_reason: "stop",
+		},
+	],
+	usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+});
+
+describe("OpenAIAgent", () => {
+	let server: Server;
+	const requests: ChatCompletionRequest[] = [];
+	const verificationRequests: ChatCompletionRequest[] = [];
+	// Number of the recorded request before which the server fails once
+	let failBeforeRequest: number | undefined;
+
+	// Scripted responses returned by the mock server, in order
+	const responses = [
+		toolCallResponse("get_file_content", {
+			path_to_file: mockChangedFiles[0].filename,
+			start_line_number: 1,
+			end_line_number: 20,
+		}),
+		toolCallResponse("add_review_comment", {
+			file_name: mockChangedFiles[0].filename,
+			start_line_number: 2,
+			end_line_number: 3,
+			found_error_description: "Unused import of zod",
+			side: "RIGHT",
+		}),
+		toolCallResponse("mark_as_done", {
+			brief_summary: "Found one unused import",
+		}),
+		textResponse("Review finished"),
+	];
+
+	beforeAll(() => {
+		server = Bun.serve({
+			port: 0,
+			async fetch(request) {
+				const url = new URL(request.url);
+				if (url.pathname !== "/v1/chat/completions") {
+					return new Response("Not found", { status: 404 });
+				}
+
+				const body = (await request.json()) as ChatCompletionRequest;
+
+				// The finding verifier requests its verdict through the "json" tool
+				if (body.tools?.[0]?.function.name === "json") {
+					verificationRequests.push(body);
+					return Response.json(
+						toolCallResponse("json", {
+							confirmed: false,
+							reason: "zod is used on line 5",
+						}),
+					);
+				}
+
+				if (failBeforeRequest === requests.length) {
+					failBeforeRequest = undefined;
+					return new Response("Internal server error", { status: 500 });
+				}
+
+				requests.push(body);
+
+				const response = responses[requests.length - 1] ?? textResponse("");
+				return Response.json(response);
+			},
+		});
+	});
+
+	afterAll(() => {
+		server.stop(true);
+	});
+
+	it("should run the tool loop against an OpenAI-compatible server", async () => {
+		const fileContentGetter = mock(() => Promise.resolve(mockFileContent));
+		const fileCommentator = mock(
+			(
+				comment: string,
+				filePath: string,
+				side: ReviewSide,
+				startLineNumber: number,
+				endLineNumber: number,
+				details?: FindingDetails,
+			) => Promise.resolve(),
+		);
+
+		const agent = new OpenAIAgent(
+			"mock-openai-api-key",
+			fileContentGetter,
+			fileCommentator,
+			"gpt-4o",
+			`http://localhost:${server.port}/v1`,
+		);
+
+		const summary = await agent.review(mockChangedFiles);
+
+		// Each file is reviewed in its own conversation
+		expect(summary).toContain("Reviewed 2 files with 1 comments.");
+		expect(summary).toContain(
+			`### ${mockChangedFiles[0].filename}\n\nFound one unused import`,
+		);
+		expect(requests.length).toBe(5);
+		expect(requests[0].model).toBe("gpt-4o");
+		expect(requests[0].tools?.map((tool) => tool.function.name)).toEqual([
+			"get_file_content",
+			"add_review_comment",
+			"mark_as_done",
+		]);
+
+		// Tool results must be sent back to the model on the next step
+		expect(
+			requests[1].messages.some((message) => message.role === "tool"),
+		).toBe(true);
+
+		// Each file is read once before its review, later reads use the cache
+		expect(fileContentGetter.mock.calls.length).toBe(2);
+		expect(fileCommentator.mock.calls.length).toBe(1);
+		expect(fileCommentator.mock.calls[0]).toEqual([
+			"Unused import of zod",
+			mockChangedFiles[0].filename,
+			"RIGHT",
+			2,
+			3,
+			{ severity: "medium" },
+		]);
+	});
+
+	it("should resume with the next file when a retry follows a failure", async () => {
+		requests.length = 0;
+		// Fail the first request for the second file
+		failBeforeRequest = 4;
+		const fileContentGetter = mock(() => Promise.resolve(mockFileContent));
+		const fileCommentator = mock(() => Promise.resolve());
+
+		const agent = new OpenAIAgent(
+			"mock-openai-api-key",
+			fileContentGetter,
+			fileCommentator,
+			"gpt-4o",
+			`http://localhost:${server.port}/v1`,
+			{ retryPolicy: { maxRetries: 1, initialBackoffMs: 1, maxBackoffMs: 1 } },
+		);
+
+		const summary = await agent.review(mockChangedFiles);
+
+		expect(summary).toContain("Reviewed 2 files with 1 comments.");
+		expect(requests.length).toBe(5);
+		expect(fileContentGetter.mock.calls.length).toBe(2);
+		expect(fileCommentator.mock.calls.length).toBe(1);
+	});
+
+	it("should skip files whose content is unavailable", async () => {
+		requests.length = 0;
+		const fileContentGetter = mock((filePath: string) =>
+			filePath === mockChangedFiles[0].filename
+				? Promise.reject(new Error(`Content of ${filePath} is unavailable`))
+				: Promise.resolve(mockFileContent),
+		);
+		const reviewProgress = new ReviewProgress();
+
+		const agent = new OpenAIAgent(
+			"mock-openai-api-key",
+			fileContentGetter,
+			mock(() => Promise.resolve()),
+			"gpt-4o",
+			`http://localhost:${server.port}/v1`,
+			{ reviewProgress },
+		);
+
+		const summary = await agent.review(mockChangedFiles);
+
+		// Only the second file is sent to the model, numbered by its position
+		expect(requests.length).toBe(4);
+		expect(JSON.stringify(requests[0].messages)).toContain(
+			`needs review (file 2 of ${mockChangedFiles.length})`,
+		);
+		expect(summary).toContain("Reviewed 1 files with 1 comments.");
+		expect(reviewProgress.skipped).toEqual([
+			{
+				filename: mockChangedFiles[0].filename,
+				reason: "content_unavailable",
+				detail: `Content of ${mockChangedFiles[0].filename} is unavailable`,
+			},
+		]);
+	});
+
+	it("should stop with partial results when the token cap is reached", async () => {
+		requests.length = 0;
+		const fileCommentator = mock(() => Promise.resolve());
+		const usageTracker = new UsageTracker({ maxTokens: 30 });
+
+		const agent = new OpenAIAgent(
+			"mock-openai-api-key",
+			mock(() => Promise.resolve(mockFileContent)),
+			fileCommentator,
+			"gpt-4o",
+			`http://localhost:${server.port}/v1`,
+			{ usageTracker },
+		);
+
+		const summary = await agent.review(mockChangedFiles);
+
+		// Each mock response uses 15 tokens, so the cap is reached after two steps
+		expect(requests.length).toBe(2);
+		expect(fileCommentator.mock.calls.length).toBe(1);
+		expect(summary).toContain("token limit of 30 reached");
+		expect(usageTracker.totalInputTokens).toBe(20);
+		expect(usageTracker.totalOutputTokens).toBe(10);
+	});
+
+	it("should not post findings rejected by the verifier", async () => {
+		requests.length = 0;
+		const fileCommentator = mock(() => Promise.resolve());
+
+		const agent = new OpenAIAgent(
+			"mock-openai-api-key",
+			mock(() => Promise.resolve(mockFileContent)),
+			fileCommentator,
+			"gpt-4o",
+			`http://localhost:${server.port}/v1`,
+			{ verifyFindings: true },
+		);
+
+		const summary = await agent.review(mockChangedFiles);
+
+		expect(verificationRequests.length).toBe(1);
+		expect(verificationRequests[0].messages[0].content).toContain(
+			"Unused import of zod",
+		);
+		expect(fileCommentator.mock.calls.length).toBe(0);
+
+		// The model is told that the comment was rejected
+		const toolResult = requests[2].messages.find(
+			(message) =>
+				message.role === "tool" &&
+				message.content?.includes("verification rejected it"),
+		);
+		expect(toolResult).toBeDefined();
+
+		expect(summary).toContain("Discarded findings (1)");
+		expect(summary).toContain("zod is used on line 5");
+	});
+
+	it("should not post a finding that was already published in the run", async () => {
+		requests.length = 0;
+		const fileCommentator = mock(() => Promise.resolve());
+		const publishLedger = new PublishLedger();
+		publishLedger.record({
+			comment: "Unused import of zod",
+			filePath: mockChangedFiles[0].filename,
+			side: "RIGHT",
+			startLineNumber: 2,
+			endLineNumber: 3,
+		});
+
+		const agent = new OpenAIAgent(
+			"mock-openai-api-key",
+			mock(() => Promise.resolve(mockFileContent)),
+			fileCommentator,
+			"gpt-4o",
+			`http://localhost:${server.port}/v1`,
+			{ publishLedger },
+		);
+
+		await agent.review(mockChangedFiles);
+
+		expect(fileCommentator.mock.calls.length).toBe(0);
+		expect(
+			requests[2].messages.some(
+				(message) =>
+					message.role === "tool" &&
+					message.content?.includes("already been published"),
+			),
+		).toBe(true);
+	});
+
+	it("should not verify findings once the usage cap is reached", async () => {
+		verificationRequests.length = 0;
+		const fileCommentator = mock(() => Promise.resolve());
+		const usageTracker = new UsageTracker({ maxTokens: 30 });
+		usageTracker.record("gpt-4o", { promptTokens: 20, completionTokens: 10 });
+		const agent = new OpenAIAgent(
+			"mock-openai-api-key",
+			mock(() => Promise.resolve(mockFileContent)),
+			fileCommentator,
+			"gpt-4o",
+			`http://localhost:${server.port}/v1`,
+			{ usageTracker, verifyFindings: true },
+		);
+		Object.assign(agent, { changedFiles: mockChangedFiles });
+		const { addReviewComment } = agent as unknown as {
+			addReviewComment: (
+				fileName: string,
+				startLineNumber: number,
+				endLineNumber: number,
+				foundErrorDescription: string,
+			) => Promise<string>;
+		};
+
+		const result = await addReviewComment.call(
+			agent,
+			mockChangedFiles[0].filename,
+			2,
+			3,
+			"Unused import of zod",
+		);
+
+		expect(result).toContain("Success");
+		expect(verificationRequests.length).toBe(0);
+		expect(fileCommentator.mock.calls.length).toBe(1);
+	});
+
+	it("should place review comments on the diff before publishing them", async () => {
+		const fileCommentator = mock(() => Promise.resolve());
+		const agent = new OpenAIAgent(
+			"mock-openai-api-key",
+			mock(() => Promise.resolve(mockFileContent)),
+			fileCommentator,
+			"gpt-4o",
+			`http://localhost:${server.port}/v1`,
+		);
+		Object.assign(agent, { changedFiles: mockChangedFiles });
+		const { addReviewComment } = agent as unknown as {
+			addReviewComment: (
+				fileName: string,
+				startLineNumber: number,
+				endLineNumber: number,
+				foundErrorDescription: string,
+			) => Promise<string>;
+		};
+
+		const outside = await addReviewComment.call(
+			agent,
+			mockChangedFiles[0].filename,
+			10,
+			12,
+			"Missing error handling",
+		);
+		const overlapping = await addReviewComment.call(
+			agent,
+			mockChangedFiles[0].filename,
+			2,
+			8,
+			"Unused import of zod",
+		);
+
+		expect(outside).toContain(
+			"Lines 10-12 on the RIGHT side are not part of the diff of src/config/input-processor.ts. Lines on the RIGHT side of the diff: 1-3",
+		);
+		expect(fileCommentator.mock.calls as unknown[]).toEqual([
+			["Unused import of zod", mockChangedFiles[0].filename, "RIGHT", 2, 3, {}],
+		]);
+	});
+});
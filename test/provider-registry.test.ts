@@ -0,0 +1,61 @@
+import { describe, expect, it, mock } from "bun:test";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { registerProvider } from "../src/ai/provider-registry";
+import {
+	getProvider,
+	getProviderInputs,
+	getSupportedProviders,
+	renderActionInputs,
+} from "../src/ai/providers";
+import { mockFileContent } from "./mocks";
+
+describe("Provider registry", () => {
+	it("should register every built-in provider", () => {
+		expect(getSupportedProviders()).toEqual([
+			"anthropic",
+			"google",
+			"openai",
+			"openai_compatible",
+		]);
+	});
+
+	it("should describe the inputs of each provider", () => {
+		const provider = getProvider("openai_compatible");
+		expect(getProviderInputs(provider).map((input) => input.name)).toEqual([
+			"openai_compatible_api_key",
+			"openai_compatible_model",
+			"api_base_url",
+		]);
+		expect(provider.apiKeyInput.required).toBe(false);
+		expect(getProvider("anthropic").modelInput.default).toBeDefined();
+	});
+
+	it("should create agents through the provider factory", () => {
+		const agent = getProvider("google").create({
+			apiKey: "mock-google-api-key",
+			model: "gemini-2.0-flash",
+			fileContentGetter: mock(() => Promise.resolve(mockFileContent)),
+			fileCommentator: mock(() => Promise.resolve()),
+			settings: {},
+			options: {},
+		});
+		expect(agent.constructor.name).toBe("GoogleAgent");
+	});
+
+	it("should reject unknown and duplicate providers", () => {
+		expect(() => getProvider("unknown")).toThrow("Unsupported AI provider");
+		expect(() => registerProvider(getProvider("openai"))).toThrow(
+			"already registered",
+		);
+	});
+
+	it("should keep action.yml in sync with the registry", () => {
+		const actionYml = fs.readFileSync(
+			path.join(import.meta.dir, "..", "action.yml"),
+			"utf-8",
+		);
+		// Run `bun run sync:action-inputs` if this fails
+		expect(actionYml).toContain(renderActionInputs());
+	});
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it, mock } from "bun:test";
+import type { ReviewFinding } from "../src/types/constants";
+import { mockCore } from "./mocks";
+
+mock.module("@actions/core", () => mockCore);
+
+const { PublishLedger } = await import("../src/review/publish-ledger");
+
+const finding: ReviewFinding = {
+	comment: "Unused import of zod",
+	filePath: "src/app.ts",
+	side: "RIGHT",
+	startLineNumber: 2,
+	endLineNumber: 3,
+};
+
+describe("PublishLedger", () => {
+	it("should recognize a finding that was already published", () => {
+		const ledger = new PublishLedger();
+		expect(ledger.has(finding)).toBe(false);
+
+		ledger.record(finding);
+		expect(ledger.has(finding)).toBe(true);
+		expect(
+			ledger.has({ ...finding, comment: "  Unused import\n of   zod " }),
+		).toBe(true);
+		expect(ledger.size).toBe(1);
+	});
+
+	it("should treat other locations and descriptions as new findings", () => {
+		const ledger = new PublishLedger();
+		ledger.record(finding);
+
+		expect(ledger.has({ ...finding, endLineNumber: 4 })).toBe(false);
+		expect(ledger.has({ ...finding, side: "LEFT" })).toBe(false);
+		expect(ledger.has({ ...finding, filePath: "src/util.ts" })).toBe(false);
+		expect(ledger.has({ ...finding, comment: "Unused import of lodash" })).toBe(
+			false,
+		);
+	});
+});
@@ -0,0 +1,119 @@
+import { afterAll, beforeEach, describe, expect, it, mock } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { mockCore, mockFinding } from "./mocks";
+
+mock.module("@actions/core", () => mockCore);
+
+const { buildReviewReport, publishReviewReport } = await import(
+	"../src/review/report"
+);
+
+describe("buildReviewReport", () => {
+	it("should count the findings per severity", () => {
+		const report = buildReviewReport(
+			"head-sha",
+			["src/app.ts", "src/db.ts"],
+			[
+				mockFinding({ severity: "high" }),
+				mockFinding({ severity: "low" }),
+				mockFinding({ severity: "high" }),
+				mockFinding(),
+			],
+		);
+
+		expect(report.issuesCount).toBe(4);
+		expect(report.severityCounts).toEqual({ low: 1, medium: 1, high: 2 });
+		expect(report.overallSeverity).toBe("high");
+		expect(report.filesReviewed).toEqual(["src/app.ts", "src/db.ts"]);
+	});
+
+	it("should report the highest severity, or none without findings", () => {
+		expect(
+			buildReviewReport(
+				"head-sha",
+				[],
+				[mockFinding({ severity: "low" }), mockFinding({ severity: "medium" })],
+			).overallSeverity,
+		).toBe("medium");
+		expect(buildReviewReport("head-sha", [], []).overallSeverity).toBe("none");
+	});
+
+	it("should describe every finding and whether it was posted", () => {
+		const posted = mockFinding({
+			severity: "high",
+			category: "security",
+			suggestedFix: "escape(input)",
+		});
+		const failed = mockFinding();
+		const report = buildReviewReport(
+			"head-sha",
+			["src/app.ts"],
+			[posted, failed],
+			[failed],
+		);
+
+		expect(report.findings).toEqual([
+			{
+				file: "src/app.ts",
+				side: "RIGHT",
+				startLine: 2,
+				endLine: 3,
+				severity: "high",
+				category: "security",
+				comment: "Possible null dereference",
+				suggestedFix: "escape(input)",
+				posted: true,
+			},
+			{
+				file: "src/app.ts",
+				side: "RIGHT",
+				startLine: 2,
+				endLine: 3,
+				severity: "medium",
+				category: "other",
+				comment: "Possible null dereference",
+				posted: false,
+			},
+		]);
+	});
+});
+
+describe("publishReviewReport", () => {
+	const directory = fs.mkdtempSync(path.join(os.tmpdir(), "report-"));
+	const runnerTemp = process.env.RUNNER_TEMP;
+
+	beforeEach(() => {
+		process.env.RUNNER_TEMP = directory;
+		mockCore.setOutput.mockClear();
+	});
+
+	afterAll(() => {
+		process.env.RUNNER_TEMP = runnerTemp;
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it("should write the report and set the action outputs", () => {
+		const report = buildReviewReport(
+			"head-sha",
+			["src/app.ts"],
+			[mockFinding({ severity: "high" }), mockFinding({ severity: "low" })],
+		);
+
+		const reportPath = publishReviewReport(report);
+
+		expect(reportPath).toBe(path.join(directory, "ai-review-report.json"));
+		expect(JSON.parse(fs.readFileSync(reportPath, "utf8"))).toEqual(report);
+		expect(Object.fromEntries(mockCore.setOutput.mock.calls)).toEqual({
+			issues_count: 2,
+			high_count: 1,
+			medium_count: 0,
+			low_count: 1,
+			overall_severity: "high",
+			files_reviewed: 1,
+			reviewed_commit: "head-sha",
+			report_path: reportPath,
+		});
+	});
+});
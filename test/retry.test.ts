@@ -0,0 +1,135 @@
+import { describe, expect, it, mock } from "bun:test";
+import { APICallError } from "ai";
+import { mockCore } from "./mocks";
+
+mock.module("@actions/core", () => mockCore);
+
+const {
+	ERROR_KINDS,
+	classifyError,
+	getRetryAfterMs,
+	getRetryDelayMs,
+	isRetryableErrorKind,
+	withRetry,
+} = await import("../src/utils/retry");
+
+/**
+ * Builds an AI SDK API error with the given status and response headers
+ */
+const apiError = (
+	statusCode: number,
+	message = "Request failed",
+	responseHeaders: Record<string, string> = {},
+) =>
+	new APICallError({
+		message,
+		url: "https://api.example.com/v1/messages",
+		requestBodyValues: {},
+		statusCode,
+		responseHeaders,
+	});
+
+/**
+ * Builds an Octokit-style request error
+ */
+const octokitError = (status: number, headers: Record<string, string> = {}) =>
+	Object.assign(new Error("GitHub request failed"), {
+		status,
+		response: { headers },
+	});
+
+const fastPolicy = { maxRetries: 2, initialBackoffMs: 1, maxBackoffMs: 5 };
+
+describe("Retry policy", () => {
+	it("should classify errors by status and message", () => {
+		expect(classifyError(apiError(429))).toBe(ERROR_KINDS.RATE_LIMIT);
+		expect(classifyError(apiError(529, "Overloaded"))).toBe(
+			ERROR_KINDS.OVERLOADED,
+		);
+		expect(classifyError(apiError(401, "invalid x-api-key"))).toBe(
+			ERROR_KINDS.AUTH,
+		);
+		expect(
+			classifyError(apiError(400, "prompt is too long: 210000 tokens")),
+		).toBe(ERROR_KINDS.CONTEXT_TOO_LONG);
+		expect(classifyError(apiError(500))).toBe(ERROR_KINDS.TRANSIENT);
+		expect(classifyError(new Error("fetch failed"))).toBe(
+			ERROR_KINDS.TRANSIENT,
+		);
+		expect(classifyError(octokitError(422))).toBe(ERROR_KINDS.FATAL);
+		expect(
+			classifyError(octokitError(403, { "x-ratelimit-remaining": "0" })),
+		).toBe(ERROR_KINDS.RATE_LIMIT);
+	});
+
+	it("should never retry auth and context-length errors", () => {
+		expect(isRetryableErrorKind(ERROR_KINDS.AUTH)).toBe(false);
+		expect(isRetryableErrorKind(ERROR_KINDS.CONTEXT_TOO_LONG)).toBe(false);
+		expect(isRetryableErrorKind(ERROR_KINDS.RATE_LIMIT)).toBe(true);
+		expect(isRetryableErrorKind(ERROR_KINDS.OVERLOADED)).toBe(true);
+	});
+
+	it("should honor Retry-After and x-ratelimit-reset headers", () => {
+		const now = Date.parse("2025-01-01T00:00:00Z");
+		expect(getRetryAfterMs(apiError(429, "", { "retry-after": "7" }))).toBe(
+			7000,
+		);
+		expect(
+			getRetryAfterMs(
+				apiError(429, "", { "retry-after": "Wed, 01 Jan 2025 00:00:30 GMT" }),
+				now,
+			),
+		).toBe(30000);
+		expect(
+			getRetryAfterMs(
+				octokitError(403, { "x-ratelimit-reset": String(now / 1000 + 60) }),
+				now,
+			),
+		).toBe(60000);
+		expect(
+			getRetryAfterMs(apiError(429, "", { "x-ratelimit-reset": "1m30s" })),
+		).toBe(90000);
+		expect(getRetryAfterMs(apiError(500))).toBeUndefined();
+	});
+
+	it("should cap delays at the maximum backoff", () => {
+		const error = apiError(429, "", { "retry-after": "120" });
+		expect(
+			getRetryDelayMs(error, ERROR_KINDS.RATE_LIMIT, 0, {
+				maxRetries: 3,
+				initialBackoffMs: 1000,
+				maxBackoffMs: 60000,
+			}),
+		).toBe(60000);
+	});
+
+	it("should retry transient errors until the operation succeeds", async () => {
+		const operation = mock(async (attempt: number) => {
+			if (attempt < 2) throw apiError(503);
+			return "done";
+		});
+
+		expect(await withRetry(operation, fastPolicy, "Test call")).toBe("done");
+		expect(operation).toHaveBeenCalledTimes(3);
+	});
+
+	it("should give up after the maximum number of retries", async () => {
+		const operation = mock(() => Promise.reject(apiError(500)));
+
+		await expect(withRetry(operation, fastPolicy, "Test call")).rejects.toThrow(
+			"Request failed",
+		);
+		expect(operation).toHaveBeenCalledTimes(3);
+	});
+
+	it("should not retry auth errors", async () => {
+		const operation = mock(() =>
+			Promise.reject(apiError(401, "invalid x-api-key")),
+		);
+
+		await expect(withRetry(operation, fastPolicy, "Test call")).rejects.toThrow(
+			"invalid x-api-key",
+		);
+		expect(operation).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "bun:test";
+import {
+	findRebasedCommit,
+	formatReviewState,
+	getConfigHash,
+	parseReviewState,
+} from "../src/review/review-state";
+
+const state = {
+	headSha: "0123456789abcdef0123456789abcdef01234567",
+	baseSha: "fedcba9876543210fedcba9876543210fedcba98",
+	actionVersion: "v1",
+	configHash: "0011223344556677",
+};
+
+describe("parseReviewState", () => {
+	it("should read the state recorded by formatReviewState", () => {
+		expect(parseReviewState(`Summary\n\n${formatReviewState(state)}`)).toEqual(
+			state,
+		);
+	});
+
+	it("should ignore comments without a valid marker", () => {
+		expect(
+			parseReviewState("AI review done up to commit: abc"),
+		).toBeUndefined();
+		expect(
+			parseReviewState("<!-- lone-code-guardian:state {headSha: -->"),
+		).toBeUndefined();
+		expect(
+			parseReviewState(
+				`<!-- lone-code-guardian:state ${JSON.stringify({ headSha: state.headSha })} -->`,
+			),
+		).toBeUndefined();
+	});
+
+	it("should reject commits that are not hexadecimal SHAs", () => {
+		expect(
+			parseReviewState(
+				formatReviewState({ ...state, headSha: "../../branches/main" }),
+			),
+		).toBeUndefined();
+	});
+});
+
+describe("getConfigHash", () => {
+	it("should only change when the settings change", () => {
+		const settings = { providers: ["anthropic:claude"], reviewMode: "full" };
+
+		expect(getConfigHash(settings)).toBe(getConfigHash({ ...settings }));
+		expect(getConfigHash(settings)).not.toBe(
+			getConfigHash({ ...settings, reviewMode: "quick" }),
+		);
+	});
+});
+
+describe("findRebasedCommit", () => {
+	const reviewedCommit = {
+		sha: "1111111",
+		message: "Add parser",
+		authorDate: "2024-05-01T10:00:00Z",
+	};
+
+	it("should find the commit with the same message and author date", () => {
+		expect(
+			findRebasedCommit(reviewedCommit, [
+				{
+					...reviewedCommit,
+					sha: "2222222",
+					authorDate: "2024-04-30T10:00:00Z",
+				},
+				{ ...reviewedCommit, sha: "3333333" },
+				{
+					sha: "4444444",
+					message: "Fix parser",
+					authorDate: "2024-05-02T10:00:00Z",
+				},
+			]),
+		).toBe("3333333");
+	});
+
+	it("should not match commits without an author date", () => {
+		expect(
+			findRebasedCommit({ ...reviewedCommit, authorDate: undefined }, [
+				{ sha: "2222222", message: "Add parser" },
+			]),
+		).toBeUndefined();
+	});
+});
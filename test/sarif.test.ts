@@ -0,0 +1,166 @@
+import { afterAll, describe, expect, it, mock } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import Ajv from "ajv-draft-04";
+import addFormats from "ajv-formats";
+import type { ReviewFinding } from "../src/types/constants";
+import sarifSchema from "./fixtures/sarif-schema-2.1.0.json";
+import { mockCore } from "./mocks";
+
+mock.module("@actions/core", () => mockCore);
+
+const { buildSarifLog, writeSarifReport } = await import("../src/review/sarif");
+
+// The schema uses patterns that are not valid with the unicode flag
+const ajv = new Ajv({ strict: false, unicodeRegExp: false });
+addFormats(ajv);
+const validateSarif = ajv.compile(sarifSchema);
+
+const findings: ReviewFinding[] = [
+	{
+		comment: "SQL query is built from user input",
+		filePath: "src/db/users.ts",
+		side: "RIGHT",
+		startLineNumber: 12,
+		endLineNumber: 14,
+		severity: "high",
+		category: "security",
+		suggestedFix: "db.query(sql, [userId]);",
+	},
+	{
+		comment: "Loop re-reads the file on every iteration",
+		filePath: "src/files/my file.ts",
+		side: "RIGHT",
+		startLineNumber: 3,
+		endLineNumber: 3,
+		severity: "low",
+		category: "performance",
+	},
+	{
+		comment: "Possible null dereference",
+		filePath: "src/app.ts",
+		side: "RIGHT",
+		startLineNumber: 7,
+		endLineNumber: 7,
+	},
+	{
+		comment: "Removed validation is still needed",
+		filePath: "src/app.ts",
+		side: "LEFT",
+		startLineNumber: 20,
+		endLineNumber: 22,
+		severity: "medium",
+		category: "bug",
+	},
+];
+
+describe("buildSarifLog", () => {
+	it("should produce a log that is valid against the SARIF 2.1.0 schema", () => {
+		const log = buildSarifLog(findings);
+
+		expect(validateSarif(log)).toBe(true);
+		expect(validateSarif.errors ?? []).toEqual([]);
+		expect(validateSarif(buildSarifLog([]))).toBe(true);
+	});
+
+	it("should declare a rule for every finding category", () => {
+		const { rules } = buildSarifLog([]).runs[0].tool.driver;
+
+		expect(rules.map((rule) => rule.id)).toEqual([
+			"security",
+			"performance",
+			"bug",
+			"type-safety",
+			"error-handling",
+			"maintainability",
+			"best-practice",
+			"other",
+		]);
+		expect(rules[3].name).toBe("TypeSafety");
+	});
+
+	it("should map findings to results on the new file version", () => {
+		const log = buildSarifLog(findings);
+		const { rules } = log.runs[0].tool.driver;
+		const results = log.runs[0].results;
+
+		expect(results.length).toBe(3);
+		expect(results.map((result) => result.level)).toEqual([
+			"error",
+			"note",
+			"warning",
+		]);
+		expect(results.map((result) => rules[result.ruleIndex].id)).toEqual([
+			"security",
+			"performance",
+			"other",
+		]);
+		expect(results[1].locations[0].physicalLocation).toEqual({
+			artifactLocation: {
+				uri: "src/files/my%20file.ts",
+				uriBaseId: "%SRCROOT%",
+			},
+			region: { startLine: 3, endLine: 3 },
+		});
+	});
+
+	it("should include suggested fixes as replacements of the finding region", () => {
+		const [withFix, withoutFix] = buildSarifLog(findings).runs[0].results;
+
+		expect(withFix.fixes?.[0].artifactChanges[0].replacements).toEqual([
+			{
+				deletedRegion: { startLine: 12, endLine: 14 },
+				insertedContent: { text: "db.query(sql, [userId]);" },
+			},
+		]);
+		expect(withoutFix.fixes).toBeUndefined();
+	});
+
+	it("should keep the fingerprint of a finding when its lines move", () => {
+		const fingerprint = (finding: ReviewFinding) =>
+			buildSarifLog([finding]).runs[0].results[0].partialFingerprints[
+				"lcgFindingHash/v1"
+			];
+		const [finding] = findings;
+
+		expect(
+			fingerprint({
+				...finding,
+				startLineNumber: 40,
+				endLineNumber: 42,
+				comment: `  ${finding.comment.replace(/ /g, "\n")}`,
+			}),
+		).toBe(fingerprint(finding));
+		expect(fingerprint({ ...finding, category: "bug" })).not.toBe(
+			fingerprint(finding),
+		);
+		expect(fingerprint({ ...finding, comment: "Query is slow" })).not.toBe(
+			fingerprint(finding),
+		);
+	});
+});
+
+describe("writeSarifReport", () => {
+	const directory = fs.mkdtempSync(path.join(os.tmpdir(), "sarif-"));
+
+	afterAll(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	it("should write the log as JSON", () => {
+		const filePath = path.join(directory, "review.sarif");
+
+		writeSarifReport(filePath, findings);
+
+		const log = JSON.parse(fs.readFileSync(filePath, "utf8"));
+		expect(log.version).toBe("2.1.0");
+		expect(log.runs[0].results.length).toBe(3);
+	});
+
+	it("should throw if the file cannot be written", () => {
+		expect(() =>
+			writeSarifReport(path.join(directory, "missing", "review.sarif"), []),
+		).toThrow("Error writing SARIF report");
+	});
+});
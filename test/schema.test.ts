@@ -1,6 +1,6 @@
 import { describe, expect, it } from "bun:test";
 import { z } from "zod";
-import { SUPPORTED_PROVIDERS } from "../src/types/constants";
+import { getSupportedProviders, hasProvider } from "../src/ai/providers";
 
 // Import the schema from a separate file to test it
 const ActionInputSchema = z.object({
@@ -11,11 +11,9 @@ const ActionInputSchema = z.object({
 		.int()
 		.positive("Pull request number must be a valid positive number"),
 	token: z.string().min(1, "GitHub token is required"),
-	ai_provider: z.enum(["anthropic", "google"], {
-		errorMap: () => ({
-			message: `AI provider must be one of: ${SUPPORTED_PROVIDERS.join(", ")}`,
-		}),
-	}),
+	ai_provider: z.string().refine(hasProvider, () => ({
+		message: `AI provider must be one of: ${getSupportedProviders().join(", ")}`,
+	})),
 	api_key: z.string().min(1, "API key is required"),
 	model: z.string().min(1, "Model name is required"),
 	fail_action_if_review_failed: z.boolean().default(false),
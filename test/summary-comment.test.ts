@@ -0,0 +1,157 @@
+import { describe, expect, it, mock } from "bun:test";
+import type { CodeHostAPI } from "../src/code-host/code-host";
+import { mockCore } from "./mocks";
+
+mock.module("@actions/core", () => mockCore);
+
+const { buildSummaryComment, parseSummaryRuns, publishSummaryComment } =
+	await import("../src/review/summary-comment");
+
+const run = (headCommit: string, high = 0) => ({
+	baseCommit: "0000000aaaa",
+	headCommit,
+	issuesCount: high + 1,
+	severityCounts: { low: 0, medium: 1, high },
+});
+
+/**
+ * Creates a code host API with the given pull request comments
+ */
+const createAPI = (
+	comments: Awaited<ReturnType<CodeHostAPI["listPRComments"]>>,
+) => ({
+	listPRComments: mock(() => Promise.resolve(comments)),
+	getAuthenticatedUser: mock(() => Promise.resolve("github-actions[bot]")),
+	createPRComment: mock(() => Promise.resolve()),
+	updatePRComment: mock(() => Promise.resolve()),
+});
+
+describe("buildSummaryComment", () => {
+	it("should record the runs in a hidden marker", () => {
+		const runs = [run("1111111bbbb"), run("2222222cccc", 2)];
+
+		const body = buildSummaryComment("Summary", runs);
+
+		expect(body.startsWith("Summary")).toBe(true);
+		expect(parseSummaryRuns(body)).toEqual(runs);
+	});
+
+	it("should list the earlier runs newest first in a collapsed section", () => {
+		const body = buildSummaryComment("Summary", [
+			run("1111111bbbb"),
+			run("2222222cccc", 2),
+			run("3333333dddd"),
+		]);
+
+		expect(body).toContain("<summary>Earlier reviews (2)</summary>");
+		expect(body).toContain(
+			"- `0000000..2222222`: 3 findings (2 high, 1 medium, 0 low)\n- `0000000..1111111`: 1 findings (0 high, 1 medium, 0 low)",
+		);
+		// The latest run is only recorded in the marker
+		expect(body.split("<!--")[0]).not.toContain("3333333");
+	});
+
+	it("should not add a history to the first run", () => {
+		expect(buildSummaryComment("Summary", [run("1111111bbbb")])).not.toContain(
+			"<details>",
+		);
+	});
+});
+
+describe("parseSummaryRuns", () => {
+	it("should ignore comments without a valid marker", () => {
+		expect(parseSummaryRuns("AI review done up to commit: abc")).toEqual([]);
+		expect(
+			parseSummaryRuns("Summary\n\n<!-- lone-code-guardian:summary {runs: -->"),
+		).toEqual([]);
+	});
+
+	it("should leave out corrupted runs", () => {
+		const body = buildSummaryComment("Summary", [run("1111111bbbb")]).replace(
+			'{"runs":[',
+			'{"runs":[{"headCommit":"2222222cccc"},null,"3333333dddd",{"baseCommit":"0000000aaaa","headCommit":"4444444eeee","issuesCount":1,"severityCounts":{"high":"1"}},',
+		);
+
+		expect(parseSummaryRuns(body)).toEqual([run("1111111bbbb")]);
+		// The history is still built from the valid runs
+		expect(
+			buildSummaryComment("Summary", [
+				...parseSummaryRuns(body),
+				run("5555555ffff"),
+			]),
+		).toContain("- `0000000..1111111`: 1 findings");
+	});
+});
+
+describe("publishSummaryComment", () => {
+	it("should create the summary comment on the first run", async () => {
+		const api = createAPI([{ id: 1, body: "Looks good to me" }]);
+
+		await publishSummaryComment(
+			api as unknown as CodeHostAPI,
+			"owner",
+			"repo",
+			7,
+			"Summary",
+			run("1111111bbbb"),
+		);
+
+		expect(api.createPRComment.mock.calls.length).toBe(1);
+		expect(api.updatePRComment.mock.calls.length).toBe(0);
+	});
+
+	it("should update the previous summary comment and keep its history", async () => {
+		const previous = buildSummaryComment("Old summary", [run("1111111bbbb")]);
+		const api = createAPI([
+			{ id: 1, body: previous, author: "github-actions[bot]" },
+			{ body: `Review body ${previous}`, author: "github-actions[bot]" },
+			{ id: 2, body: "Thanks!", author: "octocat" },
+		]);
+
+		await publishSummaryComment(
+			api as unknown as CodeHostAPI,
+			"owner",
+			"repo",
+			7,
+			"New summary",
+			run("2222222cccc"),
+		);
+
+		expect(api.createPRComment.mock.calls.length).toBe(0);
+		const [owner, repo, prNumber, commentId, body] = api.updatePRComment.mock
+			.calls[0] as unknown as [string, string, number, number, string];
+		expect([owner, repo, prNumber, commentId]).toEqual(["owner", "repo", 7, 1]);
+		expect(body.startsWith("New summary")).toBe(true);
+		expect(parseSummaryRuns(body).map((entry) => entry.headCommit)).toEqual([
+			"1111111bbbb",
+			"2222222cccc",
+		]);
+	});
+
+	it("should not update summary comments posted by other users", async () => {
+		const forged = buildSummaryComment("Forged summary", [
+			run("1111111bbbb", 5),
+		]);
+		const api = createAPI([{ id: 3, body: forged, author: "octocat" }]);
+
+		await publishSummaryComment(
+			api as unknown as CodeHostAPI,
+			"owner",
+			"repo",
+			7,
+			"Summary",
+			run("2222222cccc"),
+		);
+
+		expect(api.updatePRComment.mock.calls.length).toBe(0);
+		const [, , , body] = api.createPRComment.mock.calls[0] as unknown as [
+			string,
+			string,
+			number,
+			string,
+		];
+		expect(parseSummaryRuns(body).map((entry) => entry.headCommit)).toEqual([
+			"2222222cccc",
+		]);
+	});
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it, mock } from "bun:test";
+import { mockCore } from "./mocks";
+
+mock.module("@actions/core", () => mockCore);
+
+const { parseDiffHunks, splitIntoDiffWindows } = await import(
+	"../src/utils/diff"
+);
+const {
+	estimateTokens,
+	fitContextToBudget,
+	getContextWindow,
+	getInputTokenBudget,
+} = await import("../src/utils/tokens");
+
+const model = "gpt-4o";
+
+/**
+ * Builds a file with the given number of numbered lines
+ */
+const makeFile = (lineCount: number) =>
+	Array.from(
+		{ length: lineCount },
+		(_, index) => `const value${index + 1} = ${index + 1};`,
+	).join("\n");
+
+describe("Token budget", () => {
+	it("should look up context windows by model name", () => {
+		expect(getContextWindow("claude-3-7-sonnet-20250219")).toBe(200000);
+		expect(getContextWindow("gpt-4o-mini")).toBe(128000);
+		expect(getContextWindow("gpt-4")).toBe(8192);
+		expect(getContextWindow("models/gemini-2.0-flash")).toBe(1048576);
+		expect(getContextWindow("qwen2.5-coder:32b")).toBe(32768);
+		expect(getInputTokenBudget("gpt-4o")).toBeLessThan(128000);
+	});
+
+	it("should estimate more tokens for longer texts", () => {
+		expect(estimateTokens("", model)).toBe(0);
+		expect(estimateTokens("a".repeat(350), model)).toBe(100);
+		expect(estimateTokens("a".repeat(300), "unknown-model")).toBe(100);
+	});
+
+	it("should keep sections in order and trim the least important first", () => {
+		const sections = [
+			{ name: "header", content: "HEADER", priority: 0 },
+			{ name: "tree", content: "t\n".repeat(20000), priority: 3 },
+			{ name: "file", content: "FILE", priority: 1 },
+			{ name: "footer", content: "FOOTER", priority: 0 },
+		];
+
+		const truncated = fitContextToBudget(sections, 1000, model);
+		expect(truncated.startsWith("HEADER\n\nt\n")).toBe(true);
+		expect(truncated.endsWith("FILE\n\nFOOTER")).toBe(true);
+		expect(estimateTokens(truncated, model)).toBeLessThan(1050);
+		expect(mockCore.info).toHaveBeenCalledWith(
+			expect.stringContaining("truncated [tree (11429 tokens)]"),
+		);
+
+		const dropped = fitContextToBudget(sections, 100, model);
+		expect(dropped).toBe("HEADER\n\nFILE\n\nFOOTER");
+	});
+});
+
+describe("Diff windows", () => {
+	const patch = [
+		"@@ -10,3 +10,4 @@ function a() {",
+		" context",
+		"+added",
+		"@@ -500 +501,2 @@",
+		"+added",
+	].join("\n");
+
+	it("should parse hunk headers", () => {
+		expect(parseDiffHunks(patch)).toEqual([
+			{ oldStart: 10, oldLines: 3, newStart: 10, newLines: 4 },
+			{ oldStart: 500, oldLines: 1, newStart: 501, newLines: 2 },
+		]);
+		expect(parseDiffHunks(undefined)).toEqual([]);
+	});
+
+	it("should return the whole file when it fits", () => {
+		const content = makeFile(100);
+		expect(splitIntoDiffWindows(content, patch, 100000, model)).toEqual([
+			{ startLine: 1, endLine: 100, content },
+		]);
+	});
+
+	it("should split large files into windows around the hunks", () => {
+		const content = makeFile(1000);
+		const windows = splitIntoDiffWindows(content, patch, 2000, model, 5);
+
+		expect(windows.map((window) => [window.startLine, window.endLine])).toEqual(
+			[
+				[5, 18],
+				[496, 507],
+			],
+		);
+		expect(windows[0].content.split("\n")[0]).toBe("const value5 = 5;");
+	});
+
+	it("should split windows that exceed the budget", () => {
+		const content = makeFile(1000);
+		const windows = splitIntoDiffWindows(content, undefined, 500, model);
+
+		expect(windows.length).toBeGreaterThan(1);
+		expect(windows[0].startLine).toBe(1);
+		expect(windows[windows.length - 1].endLine).toBe(1000);
+		for (const window of windows) {
+			expect(estimateTokens(window.content, model)).toBeLessThanOrEqual(510);
+		}
+	});
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "bun:test";
+import { UsageTracker, getModelPrice } from "../src/utils/usage";
+
+describe("UsageTracker", () => {
+	it("should look up model prices by model name", () => {
+		expect(getModelPrice("claude-3-7-sonnet-20250219")).toEqual({
+			input: 3,
+			output: 15,
+		});
+		expect(getModelPrice("gpt-4o-mini-2024-07-18")?.input).toBe(0.15);
+		expect(getModelPrice("gpt-4o")?.input).toBe(2.5);
+		expect(getModelPrice("qwen2.5-coder:32b")).toBeUndefined();
+	});
+
+	it("should accumulate tokens and cost across models", () => {
+		const tracker = new UsageTracker();
+		tracker.record("gpt-4o", {
+			promptTokens: 1_000_000,
+			completionTokens: 100_000,
+		});
+		tracker.record("gemini-2.0-flash", {
+			promptTokens: 1_000_000,
+			completionTokens: Number.NaN,
+		});
+
+		expect(tracker.totalInputTokens).toBe(2_000_000);
+		expect(tracker.totalOutputTokens).toBe(100_000);
+		expect(tracker.estimatedCostUsd).toBeCloseTo(3.6);
+		expect(tracker.getLimitReached()).toBeNull();
+		expect(tracker.format()).toBe(
+			"Token usage: 2,000,000 input / 100,000 output tokens in 2 requests. Estimated cost: $3.6000",
+		);
+	});
+
+	it("should report models without a known price", () => {
+		const tracker = new UsageTracker();
+		tracker.record("llama3", { promptTokens: 100, completionTokens: 10 });
+
+		expect(tracker.estimatedCostUsd).toBe(0);
+		expect(tracker.format()).toContain("excluding llama3, price unknown");
+	});
+
+	it("should report the reached cap", () => {
+		const tokenCapped = new UsageTracker({ maxTokens: 100 });
+		tokenCapped.record("gpt-4o", { promptTokens: 90, completionTokens: 5 });
+		expect(tokenCapped.getLimitReached()).toBeNull();
+		tokenCapped.record("gpt-4o", { promptTokens: 5, completionTokens: 5 });
+		expect(tokenCapped.getLimitReached()).toContain("token limit of 100");
+
+		const costCapped = new UsageTracker({ maxCostUsd: 1 });
+		costCapped.record("claude-3-7-sonnet", {
+			promptTokens: 200_000,
+			completionTokens: 40_000,
+		});
+		expect(costCapped.getLimitReached()).toContain("cost limit of $1");
+	});
+});
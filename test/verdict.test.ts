@@ -0,0 +1,47 @@
+import { describe, expect, it } from "bun:test";
+import { getReviewEvent } from "../src/review/verdict";
+import { mockFinding } from "./mocks";
+
+describe("getReviewEvent", () => {
+	it("should always comment in comment mode", () => {
+		expect(
+			getReviewEvent([mockFinding({ severity: "high" })], "comment", "high"),
+		).toBe("COMMENT");
+		expect(getReviewEvent([], "comment", "high")).toBe("COMMENT");
+	});
+
+	it("should request changes for findings at or above the threshold", () => {
+		expect(
+			getReviewEvent(
+				[mockFinding({ severity: "low" }), mockFinding({ severity: "high" })],
+				"approve",
+				"high",
+			),
+		).toBe("REQUEST_CHANGES");
+		expect(
+			getReviewEvent(
+				[mockFinding({ severity: "medium" })],
+				"request_changes",
+				"medium",
+			),
+		).toBe("REQUEST_CHANGES");
+	});
+
+	it("should approve or comment when no finding reaches the threshold", () => {
+		const findings = [
+			mockFinding({ severity: "low" }),
+			mockFinding({ severity: "medium" }),
+		];
+
+		expect(getReviewEvent(findings, "approve", "high")).toBe("APPROVE");
+		expect(getReviewEvent(findings, "request_changes", "high")).toBe("COMMENT");
+		expect(getReviewEvent([], "approve", "low")).toBe("APPROVE");
+	});
+
+	it("should treat findings without a severity as medium severity", () => {
+		expect(getReviewEvent([mockFinding()], "approve", "medium")).toBe(
+			"REQUEST_CHANGES",
+		);
+		expect(getReviewEvent([mockFinding()], "approve", "high")).toBe("APPROVE");
+	});
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "bun:test";
+import {
+	buildVerificationPrompt,
+	formatDiscardedFindings,
+} from "../src/review/verifier";
+import type { ReviewFinding } from "../src/types/constants";
+import { getHunksForLines } from "../src/utils/diff";
+
+const patch = [
+	"@@ -1,3 +1,4 @@",
+	" import a from 'a';",
+	"+import b from 'b';",
+	" ",
+	" run(a);",
+	"@@ -20,2 +21,3 @@",
+	" const x = 1;",
+	"-const y = 2;",
+	"+const y = 3;",
+	"+const z = 4;",
+].join("\n");
+
+const finding: ReviewFinding = {
+	comment: "**HIGH Severity BUG Issue**: y is never used\nMore details",
+	filePath: "src/app.ts",
+	side: "RIGHT",
+	startLineNumber: 22,
+	endLineNumber: 23,
+};
+
+describe("getHunksForLines", () => {
+	it("should return only the hunks touching the lines", () => {
+		const hunks = getHunksForLines(patch, "RIGHT", 22, 23);
+		expect(hunks.startsWith("@@ -20,2 +21,3 @@")).toBe(true);
+		expect(hunks).not.toContain("import b");
+	});
+
+	it("should use the old line numbers for the LEFT side", () => {
+		expect(getHunksForLines(patch, "LEFT", 2, 2)).toContain("import b");
+		expect(getHunksForLines(patch, "LEFT", 10, 12)).toBe("");
+	});
+
+	it("should return an empty string without a patch", () => {
+		expect(getHunksForLines(undefined, "RIGHT", 1, 1)).toBe("");
+	});
+});
+
+describe("buildVerificationPrompt", () => {
+	it("should include the finding, the numbered code and the hunk", () => {
+		const content = Array.from(
+			{ length: 60 },
+			(_, index) => `line ${index + 1}`,
+		).join("\n");
+		const prompt = buildVerificationPrompt(
+			finding,
+			content,
+			getHunksForLines(patch, "RIGHT", 22, 23),
+		);
+
+		expect(prompt).toContain("y is never used");
+		expect(prompt).toContain("lines 7-38");
+		expect(prompt).toContain("7: line 7");
+		expect(prompt).not.toContain("6: line 6");
+		expect(prompt).toContain("+const z = 4;");
+	});
+});
+
+describe("formatDiscardedFindings", () => {
+	it("should return an empty string when nothing was discarded", () => {
+		expect(formatDiscardedFindings([])).toBe("");
+	});
+
+	it("should list the discarded findings in a collapsed section", () => {
+		const section = formatDiscardedFindings([
+			{ finding, reason: "y is returned on line 30" },
+		]);
+
+		expect(section).toContain("<summary>Discarded findings (1)</summary>");
+		expect(section).toContain(
+			"`src/app.ts:22-23`: HIGH Severity BUG Issue: y is never used",
+		);
+		expect(section).not.toContain("More details");
+		expect(section).toContain("y is returned on line 30");
+	});
+});